@@ -0,0 +1,202 @@
+#!/usr/bin/env npx tsx
+
+/**
+ * Simple Format round-trip check - generates the Simple Format code for every
+ * animation, runs it, and checks it draws the same frames as the original.
+ * The code is then imported back as an animation, as the Gallery's import
+ * does, which must type-check and draw the same frames too.
+ *
+ * Drawing is compared through the vector export recorder, which captures
+ * every path, paint and text call, so no native canvas is needed.
+ *
+ * Usage:
+ *   npm run check-simple-format
+ *   npm run check-simple-format -- --id clock
+ *   npm run check-simple-format -- --frames 30
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import type { AnyAnimationDefinition, SimpleAnimationDefinition } from '../src/runtime/types';
+import {
+  checkImportedAnimation,
+  generateImportedAnimation,
+  importedParamsType,
+  parseSimpleFormatCode,
+} from './lib/simple-format-import';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const ANIMATIONS_DIR = path.join(__dirname, '../src/animations');
+const RUNTIME_DIR = path.join(__dirname, '../src/runtime');
+
+const args = process.argv.slice(2);
+
+function getArg(name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  if (index !== -1 && args[index + 1]) {
+    return args[index + 1];
+  }
+  return undefined;
+}
+
+// Node has no Path2D; a no-op base is enough for the recorder's tracking subclass
+if (typeof globalThis.Path2D === 'undefined') {
+  const noop = () => {};
+  globalThis.Path2D = class {
+    addPath = noop;
+    moveTo = noop;
+    lineTo = noop;
+    bezierCurveTo = noop;
+    quadraticCurveTo = noop;
+    arc = noop;
+    arcTo = noop;
+    ellipse = noop;
+    rect = noop;
+    roundRect = noop;
+    closePath = noop;
+  } as unknown as typeof Path2D;
+}
+
+// Text measuring only has to be deterministic, not accurate
+if (typeof globalThis.OffscreenCanvas === 'undefined') {
+  globalThis.OffscreenCanvas = class {
+    getContext() {
+      return { measureText: (text: string) => ({ width: text.length * 8 }) };
+    }
+  } as unknown as typeof OffscreenCanvas;
+}
+
+const { isSimpleAnimation, toSimpleAnimation } = await import('../src/runtime/types');
+const { generateExternalEditorCode } = await import('../src/runtime/transpile');
+const { isComposition } = await import('../src/runtime/composition');
+const { isSequence } = await import('../src/runtime/sequencer');
+const { recordAnimation } = await import('../src/runtime/export/recorder');
+await import('../src/runtime/path2d');
+
+/** Same resolver as the dev server, reading runtime modules from disk */
+function resolveImport(specifier: string): string | undefined {
+  const match = specifier.match(/(?:^|\/)runtime\/([\w-]+?)(?:\.ts)?$/);
+  if (!match) return undefined;
+  const file = path.join(RUNTIME_DIR, `${match[1]}.ts`);
+  return fs.existsSync(file) ? fs.readFileSync(file, 'utf-8') : undefined;
+}
+
+/** Replace Math.random with a seeded generator so both runs see the same values */
+function seedRandom(seed = 1) {
+  let state = seed;
+  Math.random = () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+}
+
+async function recordOps(animation: SimpleAnimationDefinition, frames: number): Promise<string[]> {
+  seedRandom();
+  const recording = await recordAnimation(animation, {}, {
+    fps: animation.fps ?? 60,
+    to: frames,
+  });
+  return recording.frames.map((frame) => JSON.stringify(frame.ops));
+}
+
+async function loadDefinition(folder: string): Promise<unknown> {
+  const module = await import(path.join(ANIMATIONS_DIR, folder, 'index.ts'));
+  return module.default
+    ?? Object.values(module).find((value) => (value as { render?: unknown })?.render);
+}
+
+async function checkAnimation(folder: string, frames: number): Promise<string | null> {
+  const source = fs.readFileSync(path.join(ANIMATIONS_DIR, folder, 'index.ts'), 'utf-8');
+  const definition = await loadDefinition(folder) as AnyAnimationDefinition;
+
+  const reference = isSimpleAnimation(definition) ? definition : toSimpleAnimation(definition);
+  const code = await generateExternalEditorCode(definition, {}, source, { resolveImport });
+  if (code.includes('// Unresolved import')) {
+    return code.split('\n').filter((line) => line.startsWith('// Unresolved import')).join('; ');
+  }
+
+  const render = new Function(`${code}\nreturn render;`)() as SimpleAnimationDefinition['render'];
+  const generated: SimpleAnimationDefinition = { ...reference, render };
+
+  const expected = await recordOps(reference, frames);
+  const actual = await recordOps(generated, frames);
+  const mismatch = expected.findIndex((ops, i) => ops !== actual[i]);
+  if (mismatch !== -1) return `frame ${mismatch} differs`;
+
+  const imported = await importAnimation(folder, code);
+  if (typeof imported === 'string') return `import: ${imported}`;
+  const importedOps = await recordOps(toSimpleAnimation(imported), frames);
+  const importMismatch = expected.findIndex((ops, i) => ops !== importedOps[i]);
+  return importMismatch === -1 ? null : `import: frame ${importMismatch} differs`;
+}
+
+/** Import Simple Format code as the import endpoint does; returns the definition or the first error */
+async function importAnimation(folder: string, code: string): Promise<AnyAnimationDefinition | string> {
+  const parsed = await parseSimpleFormatCode(code);
+  const name = parsed.name ?? folder;
+  const { content, errors } = await checkImportedAnimation(
+    folder,
+    importedParamsType(name),
+    generateImportedAnimation({ id: folder, name, parsed })
+  );
+  if (errors.length > 0) return errors[0];
+
+  // Written outside src so nothing picks it up; runtime imports point back at src
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), `import-${folder}-`));
+  try {
+    const file = path.join(dir, 'index.ts');
+    fs.writeFileSync(file, content.replaceAll("'../../runtime/", `'${RUNTIME_DIR}/`));
+    return (await import(file)).default;
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+async function main() {
+  const id = getArg('id');
+  const frames = parseInt(getArg('frames') ?? '10', 10);
+
+  const folders = fs.readdirSync(ANIMATIONS_DIR)
+    .filter((name) => fs.existsSync(path.join(ANIMATIONS_DIR, name, 'index.ts')))
+    .filter((name) => !id || name === id);
+
+  if (folders.length === 0) {
+    console.error(`❌ No animation found${id ? ` for "${id}"` : ''}`);
+    process.exit(1);
+  }
+
+  let failures = 0;
+  let skipped = 0;
+  for (const folder of folders) {
+    try {
+      // Compositions and sequences have no render function of their own to export
+      const definition = await loadDefinition(folder);
+      if (isComposition(definition) || isSequence(definition)) {
+        skipped++;
+        console.log(`⏭️  ${folder}: ${isSequence(definition) ? 'sequence' : 'composition'}, skipped`);
+        continue;
+      }
+
+      const error = await checkAnimation(folder, frames);
+      if (error) {
+        failures++;
+        console.log(`❌ ${folder}: ${error}`);
+      } else {
+        console.log(`✅ ${folder}`);
+      }
+    } catch (err) {
+      failures++;
+      console.log(`❌ ${folder}: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  const checked = folders.length - skipped;
+  console.log(`\n${checked - failures}/${checked} animations match`);
+  if (failures > 0) process.exit(1);
+}
+
+main();
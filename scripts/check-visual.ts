@@ -0,0 +1,267 @@
+#!/usr/bin/env npx tsx
+
+/**
+ * Visual regression check - renders every registered animation at 0%, 25%,
+ * 50%, 75% and 100% of its loop with default params, and compares the
+ * pixels against the golden PNGs in goldens/<folder>/
+ *
+ * Frames are drawn with @napi-rs/canvas (Skia), so no browser is needed.
+ * Text uses the fonts installed on the machine, so update goldens on the
+ * same platform that checks them. Frames that differ are written to
+ * visual-diff/<folder>/ with the rendered frame and a diff image (changed
+ * pixels in red over a faded copy of the frame).
+ *
+ * Usage:
+ *   npm run check-visual
+ *   npm run check-visual -- --id clueso-logo
+ *   npm run check-visual -- --threshold 24 --tolerance 0.5
+ *   npm run update-goldens -- --id clueso-logo
+ *
+ * --id takes a registered id or an animation folder name; goldens are kept
+ * by folder, so they follow the files rather than the registered id.
+ *
+ * --threshold is the largest per-channel difference (0-255) that still
+ * counts as the same pixel (default: 16); --tolerance is the percentage of
+ * pixels allowed to differ (default: 0.1). --update writes the goldens
+ * instead of comparing (update-goldens passes it).
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { createCanvas, loadImage, Path2D, type Canvas } from '@napi-rs/canvas';
+import type { AnyAnimationDefinition, AnimationMeta } from '../src/runtime/types';
+import type { CompositionDefinition } from '../src/runtime/composition';
+import type { SequenceDefinition } from '../src/runtime/sequencer';
+import type { FrameCanvas } from '../src/runtime/frames';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const ANIMATIONS_DIR = path.join(__dirname, '../src/animations');
+const GOLDENS_DIR = path.join(__dirname, '../goldens');
+const DIFF_DIR = path.join(__dirname, '../visual-diff');
+
+/** Points in the loop that are rendered, as fractions of the duration */
+const SAMPLES = [0, 0.25, 0.5, 0.75, 1];
+
+const args = process.argv.slice(2);
+
+function getArg(name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  if (index !== -1 && args[index + 1]) {
+    return args[index + 1];
+  }
+  return undefined;
+}
+
+// Animations may create Path2D objects when their module loads
+globalThis.Path2D = Path2D as unknown as typeof globalThis.Path2D;
+
+const { getFrameCount, renderFrames } = await import('../src/runtime/frames');
+const { resolveDefinition } = await import('../src/runtime/sequencer');
+
+type Definition = AnyAnimationDefinition | CompositionDefinition | SequenceDefinition;
+
+interface RegisteredAnimation {
+  id: string;
+  /** Folder under src/animations */
+  folder: string;
+  definition: AnyAnimationDefinition;
+  meta?: AnimationMeta;
+}
+
+/** Replace Math.random with a seeded generator so every run sees the same values */
+function seedRandom(seed = 1) {
+  let state = seed;
+  Math.random = () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+}
+
+/**
+ * Load every animation the way the registry does: the default export or
+ * the first export with a render function, with compositions and
+ * sequences resolved against the others
+ */
+async function loadRegistry(): Promise<RegisteredAnimation[]> {
+  const loaded = new Map<string, { folder: string; definition: Definition; meta?: AnimationMeta }>();
+
+  for (const folder of fs.readdirSync(ANIMATIONS_DIR).sort()) {
+    const file = path.join(ANIMATIONS_DIR, folder, 'index.ts');
+    if (!fs.existsSync(file)) continue;
+
+    const module = await import(file);
+    const definition: Definition | undefined = module.default
+      ?? Object.values(module).find((value) => (value as { render?: unknown })?.render);
+    if (!definition) continue;
+
+    const id = ('id' in definition && definition.id)
+      ? definition.id
+      : ('name' in definition && definition.name)
+        ? definition.name.toLowerCase().replace(/\s+/g, '-')
+        : folder;
+    const metaPath = path.join(ANIMATIONS_DIR, folder, 'meta.json');
+    const meta = fs.existsSync(metaPath) ? JSON.parse(fs.readFileSync(metaPath, 'utf-8')) : undefined;
+    loaded.set(id, { folder, definition, meta });
+  }
+
+  const lookup = (id: string) => loaded.get(id)?.definition;
+  return [...loaded].map(([id, { folder, definition, meta }]) => ({
+    id,
+    folder,
+    definition: resolveDefinition(definition, lookup),
+    meta,
+  }));
+}
+
+/** Golden file name for a sample, e.g. 025.png */
+function sampleName(sample: number): string {
+  return `${String(Math.round(sample * 100)).padStart(3, '0')}.png`;
+}
+
+/** Render one sample with default params; 100% is the end of the loop, not the start of the next */
+function renderSample({ id, definition, meta }: RegisteredAnimation, sample: number): Canvas {
+  const fps = definition.fps ?? 60;
+  const index = Math.round(sample * getFrameCount(definition, fps));
+  const canvas = createCanvas(definition.width ?? 800, definition.height ?? 600);
+  // Same test as the player: audio animations get synthetic audio
+  const audioEnabled = !!meta?.tags?.includes('audio') || id.startsWith('audio-');
+
+  seedRandom();
+  // Advancing the generator once draws the frame
+  renderFrames(definition, {}, {
+    fps,
+    from: index,
+    to: index + 1,
+    loop: false,
+    audioEnabled,
+    canvas: canvas as unknown as FrameCanvas,
+  }).next();
+  return canvas;
+}
+
+function readPixels(canvas: Canvas): Uint8ClampedArray {
+  return canvas.getContext('2d').getImageData(0, 0, canvas.width, canvas.height).data;
+}
+
+/** Count pixels with a channel that differs by more than `threshold`, and draw them in red */
+function diffPixels(actual: Canvas, expected: Uint8ClampedArray, threshold: number): { count: number; diff: Canvas } {
+  const { width, height } = actual;
+  const pixels = readPixels(actual);
+  const diff = createCanvas(width, height);
+  const context = diff.getContext('2d');
+  const output = context.createImageData(width, height);
+  let count = 0;
+
+  for (let i = 0; i < pixels.length; i += 4) {
+    const changed = Math.abs(pixels[i] - expected[i]) > threshold
+      || Math.abs(pixels[i + 1] - expected[i + 1]) > threshold
+      || Math.abs(pixels[i + 2] - expected[i + 2]) > threshold
+      || Math.abs(pixels[i + 3] - expected[i + 3]) > threshold;
+    if (changed) {
+      count++;
+      output.data.set([255, 0, 0, 255], i);
+    } else {
+      // Faded grayscale of the frame, for orientation
+      const gray = (pixels[i] + pixels[i + 1] + pixels[i + 2]) / 3;
+      const value = 255 - ((255 - gray) * pixels[i + 3]) / 255 / 4;
+      output.data.set([value, value, value, 255], i);
+    }
+  }
+
+  context.putImageData(output, 0, 0);
+  return { count, diff };
+}
+
+async function checkAnimation(
+  animation: RegisteredAnimation,
+  threshold: number,
+  tolerance: number
+): Promise<string[]> {
+  const errors: string[] = [];
+  const goldenDir = path.join(GOLDENS_DIR, animation.folder);
+
+  for (const sample of SAMPLES) {
+    const name = sampleName(sample);
+    const goldenPath = path.join(goldenDir, name);
+    const label = `${Math.round(sample * 100)}%`;
+    if (!fs.existsSync(goldenPath)) {
+      errors.push(`${label}: no golden (npm run update-goldens -- --id ${animation.folder})`);
+      continue;
+    }
+
+    const actual = renderSample(animation, sample);
+    const golden = await loadImage(fs.readFileSync(goldenPath));
+    if (golden.width !== actual.width || golden.height !== actual.height) {
+      errors.push(`${label}: size changed from ${golden.width}x${golden.height} to ${actual.width}x${actual.height}`);
+      continue;
+    }
+
+    const expected = createCanvas(golden.width, golden.height);
+    expected.getContext('2d').drawImage(golden, 0, 0);
+    const { count, diff } = diffPixels(actual, readPixels(expected), threshold);
+    const percent = (count / (actual.width * actual.height)) * 100;
+    if (percent <= tolerance) continue;
+
+    const outDir = path.join(DIFF_DIR, animation.folder);
+    fs.mkdirSync(outDir, { recursive: true });
+    const base = name.replace('.png', '');
+    fs.writeFileSync(path.join(outDir, `${base}-actual.png`), actual.toBuffer('image/png'));
+    fs.writeFileSync(path.join(outDir, `${base}-diff.png`), diff.toBuffer('image/png'));
+    errors.push(`${label}: ${percent.toFixed(2)}% of pixels differ (see ${path.relative(process.cwd(), outDir)})`);
+  }
+  return errors;
+}
+
+function updateGoldens(animation: RegisteredAnimation): void {
+  const goldenDir = path.join(GOLDENS_DIR, animation.folder);
+  fs.rmSync(goldenDir, { recursive: true, force: true });
+  fs.mkdirSync(goldenDir, { recursive: true });
+  for (const sample of SAMPLES) {
+    const canvas = renderSample(animation, sample);
+    fs.writeFileSync(path.join(goldenDir, sampleName(sample)), canvas.toBuffer('image/png'));
+  }
+}
+
+async function main() {
+  const id = getArg('id');
+  const update = args.includes('--update');
+  const threshold = parseFloat(getArg('threshold') ?? '16');
+  const tolerance = parseFloat(getArg('tolerance') ?? '0.1');
+
+  const animations = (await loadRegistry()).filter((animation) => !id || animation.id === id || animation.folder === id);
+  if (animations.length === 0) {
+    console.error(`❌ No animation found${id ? ` for "${id}"` : ''}`);
+    process.exit(1);
+  }
+
+  let failures = 0;
+  for (const animation of animations) {
+    try {
+      if (update) {
+        updateGoldens(animation);
+        console.log(`📸 ${animation.id}: ${SAMPLES.length} goldens written`);
+        continue;
+      }
+
+      const errors = await checkAnimation(animation, threshold, tolerance);
+      if (errors.length > 0) {
+        failures++;
+        console.log(`❌ ${animation.id}\n${errors.map((error) => `   ${error}`).join('\n')}`);
+      } else {
+        console.log(`✅ ${animation.id}`);
+      }
+    } catch (err) {
+      failures++;
+      console.log(`❌ ${animation.id}: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  if (update) return;
+  console.log(`\n${animations.length - failures}/${animations.length} animations match`);
+  if (failures > 0) process.exit(1);
+}
+
+main();
@@ -0,0 +1,125 @@
+/**
+ * Schema values in animation source
+ *
+ * Finds and rewrites the `value`s of the schema helpers (`number({ ... })`,
+ * `color({ ... })`, ...) in an animation's index.ts. Used by the
+ * save-defaults dev server plugin and the update-defaults and validate
+ * scripts.
+ */
+
+/** Matches a param value literal: a quoted string, a { x, y } object or a bare token */
+export const VALUE_LITERAL = String.raw`'(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*"|\{[^{}]*\}|[^,}\s]+`;
+
+export const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+export function formatKey(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : quote(key);
+}
+
+/** Format a param value as a TypeScript literal */
+export function formatLiteral(value: unknown): string {
+  if (typeof value === 'string') return quote(value);
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    const entries = Object.entries(value).map(([k, v]) => `${formatKey(k)}: ${formatLiteral(v)}`);
+    return `{ ${entries.join(', ')} }`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Indexes of code from `start` on, skipping strings and comments, with the
+ * brace depth before each one
+ */
+function* codeIndexes(source: string, start: number): Generator<{ index: number; depth: number }> {
+  let depth = 0;
+  for (let i = start; i < source.length; i++) {
+    const char = source[i];
+    if (char === '\'' || char === '"' || char === '`') {
+      for (i++; i < source.length && source[i] !== char; i++) {
+        if (source[i] === '\\') i++;
+      }
+    } else if (char === '/' && source[i + 1] === '/') {
+      i = source.indexOf('\n', i);
+      if (i === -1) return;
+    } else if (char === '/' && source[i + 1] === '*') {
+      i = source.indexOf('*/', i + 2) + 1;
+      if (i === 0) return;
+    } else {
+      yield { index: i, depth };
+      if (char === '{') depth++;
+      else if (char === '}') depth--;
+    }
+  }
+}
+
+/** Start (the opening brace) and end (after the closing brace) of the object literal ending `pattern`'s match */
+export function findBlock(source: string, pattern: RegExp, from = 0): { start: number; end: number } | null {
+  pattern.lastIndex = from;
+  const match = pattern.exec(source);
+  if (!match) return null;
+  const start = match.index + match[0].length - 1;
+  for (const { index, depth } of codeIndexes(source, start)) {
+    if (source[index] === '}' && depth === 1) return { start, end: index + 1 };
+  }
+  return null;
+}
+
+/**
+ * First match of `pattern` in code inside the object literal opening at
+ * `start`; with `depth`, only matches directly at that brace depth count
+ */
+function findInBlock(source: string, start: number, pattern: RegExp, depth?: number): RegExpExecArray | null {
+  const sticky = new RegExp(pattern.source, 'y');
+  for (const found of codeIndexes(source, start)) {
+    if (found.depth === 0 && found.index > start) return null;
+    if (depth !== undefined && found.depth !== depth) continue;
+    sticky.lastIndex = found.index;
+    const match = sticky.exec(source);
+    if (match) return match;
+  }
+  return null;
+}
+
+/**
+ * Set the `value`s of schema helpers in a schema object literal. Each
+ * value is looked up only inside its own helper's options, so a helper
+ * without one is reported in `missing` rather than taking another's.
+ */
+export function setSchemaValues(
+  schema: string,
+  values: Iterable<[string, unknown]>
+): { schema: string; missing: string[] } {
+  const missing: string[] = [];
+  for (const [key, value] of values) {
+    const entry = findInBlock(schema, 0, new RegExp(`(?<![\\w$])${escapeRegExp(key)}:\\s*\\w+\\(\\s*\\{`));
+    const found = entry && findInBlock(
+      schema,
+      entry.index + entry[0].length - 1,
+      new RegExp(`((?<![\\w$])value:\\s*)(?:${VALUE_LITERAL})`),
+      1
+    );
+    if (!found) {
+      missing.push(key);
+      continue;
+    }
+    const start = found.index + found[1].length;
+    schema = schema.slice(0, start) + formatLiteral(value) + schema.slice(found.index + found[0].length);
+  }
+  return { schema, missing };
+}
+
+/**
+ * Write param values into the `value`s of the schema helpers, in the
+ * defineParams() call or the `schema` block. Params not in the schema are
+ * left alone.
+ */
+export function updateSchemaValues(content: string, values: Record<string, unknown>): string {
+  const block = findBlock(content, /\bdefineParams\(\s*\{|^[ \t]*schema:\s*\{/gm);
+  if (!block) return content;
+  const { schema } = setSchemaValues(content.slice(block.start, block.end), Object.entries(values));
+  return content.slice(0, block.start) + schema + content.slice(block.end);
+}
@@ -0,0 +1,562 @@
+/**
+ * Simple Format import
+ *
+ * Turns pasted Simple Format code (`function render(ctx, { width, height,
+ * progress })`) into an animation index.ts with a defineParams() schema,
+ * typed so the app's type check accepts it. Used by the save-defaults dev
+ * server plugin and scripts/check-simple-format.ts.
+ */
+
+import type * as TS from 'typescript';
+import * as path from 'path';
+import { formatKey, quote } from './schema-values';
+
+/** A literal constant in imported code that becomes an animation parameter */
+interface DetectedParam {
+  key: string;
+  value: number | string | boolean;
+}
+
+/** Result of parsing pasted Simple Format code */
+export interface ParsedSimpleFormat {
+  name?: string;
+  fps?: number;
+  /** null when the header says the animation is infinite */
+  durationMs?: number | null;
+  width?: number;
+  height?: number;
+  background?: string;
+  params: DetectedParam[];
+  /** Top-level code that doesn't read any parameter */
+  moduleCode: string[];
+  /** Top-level code that reads parameters, so it runs inside render */
+  renderCode: string[];
+  /** The render function as an expression */
+  renderFunction: string;
+}
+
+const COLOR_PATTERN = /^(#[0-9a-f]{3,8}|(rgb|hsl)a?\(.*\))$/i;
+
+type SimpleFormatHeader = Pick<ParsedSimpleFormat, 'name' | 'fps' | 'durationMs' | 'width' | 'height' | 'background'>;
+
+/** Read name, fps, duration, size and background from the comment header the exporter writes */
+function parseSimpleFormatHeader(code: string): SimpleFormatHeader {
+  const header: SimpleFormatHeader = {};
+  for (const line of code.split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+    if (!trimmed.startsWith('//')) break;
+    const text = trimmed.replace(/^\/\/\s*/, '');
+
+    const fps = text.match(/fps:\s*([\d.]+)/);
+    const duration = text.match(/duration:\s*(\d+)\s*ms|duration:\s*infinite/);
+    const size = text.match(/size:\s*(\d+)\s*x\s*(\d+)/);
+    // Last on the line, since colors like rgba(0, 0, 0, 0.5) contain commas
+    const background = text.match(/background:\s*(.+)$/);
+    if (fps || duration || size || background) {
+      if (fps) header.fps = parseFloat(fps[1]);
+      if (duration) header.durationMs = duration[1] ? parseInt(duration[1], 10) : null;
+      if (size) {
+        header.width = parseInt(size[1], 10);
+        header.height = parseInt(size[2], 10);
+      }
+      if (background) header.background = background[1].trim();
+    } else if (!header.name && text && !text.includes(':')) {
+      header.name = text;
+    }
+  }
+  return header;
+}
+
+/** SCREAMING_CASE -> camelCase; other names are kept */
+function toParamKey(name: string): string {
+  if (!/^[A-Z][A-Z0-9_]*$/.test(name)) return name;
+  return name.toLowerCase().replace(/_+([a-z0-9])/g, (_, c: string) => c.toUpperCase());
+}
+
+/** primaryColor -> Primary Color */
+function toLabel(key: string): string {
+  const words = key.replace(/([a-z0-9])([A-Z])/g, '$1 $2').replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/** Guess a slider range from the default value */
+function numberRange(value: number): { min: number; max: number; step: number } {
+  const magnitude = Math.abs(value);
+  if (magnitude === 0) return { min: 0, max: 1, step: 0.01 };
+  if (!Number.isInteger(value) && magnitude <= 1) return { min: value < 0 ? -1 : 0, max: 1, step: 0.01 };
+  const max = Number((magnitude * 4).toPrecision(2));
+  const decimals = String(value).split('.')[1]?.length ?? 0;
+  const step = 10 ** -decimals;
+  return { min: value < 0 ? -max : 0, max, step };
+}
+
+/**
+ * Parse pasted Simple Format code (`function render(ctx, { width, height, progress })`).
+ * Top-level constants with literal values, and literal constants at the
+ * start of render (such as the exporter's `paramValues` object), become params.
+ */
+export async function parseSimpleFormatCode(code: string): Promise<ParsedSimpleFormat> {
+  const ts = (await import('typescript')).default;
+  const header = parseSimpleFormatHeader(code);
+
+  // generateSimpleAnimationCode writes method syntax; arrow functions may be pasted bare
+  let source = code.replace(/^(async\s+)?render\s*\(/m, (_, async = '') => `${async}function render(`);
+  const firstCode = source.split('\n').findIndex((line) => line.trim() && !line.trim().startsWith('//'));
+  if (firstCode !== -1 && /^\s*(async\s*)?\(/.test(source.split('\n')[firstCode])) {
+    const lines = source.split('\n');
+    lines[firstCode] = `const render = ${lines[firstCode].trimStart()}`;
+    source = lines.join('\n');
+  }
+
+  const sourceFile = ts.createSourceFile('imported.js', source, ts.ScriptTarget.ES2020, true, ts.ScriptKind.JS);
+
+  const literalValue = (node: TS.Expression | undefined): DetectedParam['value'] | undefined => {
+    if (!node) return undefined;
+    if (ts.isNumericLiteral(node)) return Number(node.text);
+    if (
+      ts.isPrefixUnaryExpression(node)
+      && node.operator === ts.SyntaxKind.MinusToken
+      && ts.isNumericLiteral(node.operand)
+    ) {
+      return -Number(node.operand.text);
+    }
+    if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) return node.text;
+    if (node.kind === ts.SyntaxKind.TrueKeyword) return true;
+    if (node.kind === ts.SyntaxKind.FalseKeyword) return false;
+    return undefined;
+  };
+
+  const usedKeys = new Set<string>();
+  const params: DetectedParam[] = [];
+  const addParam = (name: string, value: DetectedParam['value']) => {
+    let key = toParamKey(name);
+    for (let i = 2; usedKeys.has(key); i++) key = `${toParamKey(name)}${i}`;
+    usedKeys.add(key);
+    params.push({ key, value });
+    return key;
+  };
+
+  /** `const A = 1, B = '#fff';` -> [[A, 1], [B, '#fff']] */
+  const literalConstants = (statement: TS.Statement) => {
+    if (!ts.isVariableStatement(statement) || !(statement.declarationList.flags & ts.NodeFlags.Const)) return null;
+    const entries: [string, DetectedParam['value']][] = [];
+    for (const declaration of statement.declarationList.declarations) {
+      const value = literalValue(declaration.initializer);
+      if (!ts.isIdentifier(declaration.name) || value === undefined) return null;
+      entries.push([declaration.name.text, value]);
+    }
+    return entries;
+  };
+
+  /** `const paramValues = { speed: 1, color: '#fff' };` -> paramValues and its entries */
+  const literalObject = (statement: TS.Statement) => {
+    if (!ts.isVariableStatement(statement) || !(statement.declarationList.flags & ts.NodeFlags.Const)) return null;
+    const [declaration, ...rest] = statement.declarationList.declarations;
+    const initializer = declaration.initializer;
+    if (rest.length || !ts.isIdentifier(declaration.name) || !initializer || !ts.isObjectLiteralExpression(initializer)) {
+      return null;
+    }
+    const entries: [string, DetectedParam['value']][] = [];
+    for (const property of initializer.properties) {
+      if (!ts.isPropertyAssignment(property)) return null;
+      const value = literalValue(property.initializer);
+      const name = ts.isIdentifier(property.name) || ts.isStringLiteral(property.name) ? property.name.text : null;
+      if (name === null || value === undefined) return null;
+      entries.push([name, value]);
+    }
+    return entries.length ? { name: declaration.name.text, entries } : null;
+  };
+
+  const collectUses = (node: TS.Node) => {
+    const uses = new Set<string>();
+    const visit = (child: TS.Node) => {
+      if (ts.isIdentifier(child)) {
+        const parent = child.parent;
+        const isPropertyName =
+          (ts.isPropertyAccessExpression(parent) && parent.name === child)
+          || (ts.isPropertyAssignment(parent) && parent.name === child);
+        if (!isPropertyName) uses.add(child.text);
+      }
+      ts.forEachChild(child, visit);
+    };
+    visit(node);
+    return uses;
+  };
+
+  const declaredNames = (statement: TS.Statement): string[] => {
+    if (ts.isVariableStatement(statement)) {
+      return statement.declarationList.declarations.flatMap((d) => (ts.isIdentifier(d.name) ? [d.name.text] : []));
+    }
+    if ((ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement)) && statement.name) {
+      return [statement.name.text];
+    }
+    return [];
+  };
+
+  // Find render and the top-level parameter constants
+  let renderNode: TS.FunctionLikeDeclaration | undefined;
+  let renderStatement: TS.Statement | undefined;
+  const paramLocals = new Map<string, string>();
+  const others: TS.Statement[] = [];
+
+  for (const statement of sourceFile.statements) {
+    if (ts.isFunctionDeclaration(statement) && statement.name?.text === 'render') {
+      renderNode = statement;
+      renderStatement = statement;
+      continue;
+    }
+    if (ts.isVariableStatement(statement)) {
+      const declaration = statement.declarationList.declarations.find(
+        (d) => ts.isIdentifier(d.name) && d.name.text === 'render'
+      );
+      const initializer = declaration?.initializer;
+      if (initializer && (ts.isFunctionExpression(initializer) || ts.isArrowFunction(initializer))) {
+        renderNode = initializer;
+        renderStatement = statement;
+        continue;
+      }
+    }
+    const constants = literalConstants(statement);
+    if (constants) {
+      for (const [name, value] of constants) paramLocals.set(name, addParam(name, value));
+      continue;
+    }
+    others.push(statement);
+  }
+
+  if (!renderNode || !renderStatement || !renderNode.body) {
+    throw new Error('Could not find a render(ctx, { width, height, progress }) function');
+  }
+
+  // Simple Format's render takes the canvas context and { width, height, progress }
+  const edits: { start: number; end: number; text: string }[] = [];
+  const renderTypes = ['CanvasRenderingContext2D', "Pick<RenderContext, 'width' | 'height' | 'progress'>"];
+  renderNode.parameters.slice(0, renderTypes.length).forEach((parameter, i) => {
+    if (!parameter.type) edits.push({ start: parameter.name.end, end: parameter.name.end, text: `: ${renderTypes[i]}` });
+  });
+
+  // Literal constants at the start of render are parameters too
+  if (ts.isBlock(renderNode.body)) {
+    for (const statement of renderNode.body.statements) {
+      const constants = literalConstants(statement);
+      const object = constants ? null : literalObject(statement);
+      if (constants) {
+        for (const [name, value] of constants) paramLocals.set(name, addParam(name, value));
+        // Drop the whole line, not just the statement
+        const lineStart = source.lastIndexOf('\n', statement.getStart(sourceFile) - 1) + 1;
+        const lineEnd = source.indexOf('\n', statement.end);
+        edits.push({ start: lineStart, end: lineEnd === -1 ? statement.end : lineEnd + 1, text: '' });
+      } else if (object) {
+        const keys = object.entries.map(([name, value]) => [name, addParam(name, value)] as const);
+        // Keys are renamed on collisions or from SCREAMING_CASE; keep the object's shape
+        const text = keys.every(([name, key]) => name === key)
+          ? `const ${object.name} = params;`
+          : `const ${object.name} = { ${keys.map(([name, key]) => `${formatKey(name)}: params.${key}`).join(', ')} };`;
+        edits.push({ start: statement.getStart(sourceFile), end: statement.end, text });
+      } else {
+        break;
+      }
+    }
+  }
+
+  const renderStart = renderNode.getStart(sourceFile);
+  let renderFunction = source.slice(renderStart, renderNode.end);
+  for (const edit of [...edits].reverse()) {
+    const start = edit.start - renderStart;
+    const end = edit.end - renderStart;
+    renderFunction = renderFunction.slice(0, start) + edit.text + renderFunction.slice(end);
+  }
+  // `function render(` -> `function (` so the expression doesn't shadow anything
+  renderFunction = renderFunction.replace(/^(async\s+)?function\s+render\s*\(/, (_, async = '') => `${async}function (`);
+  renderFunction = renderFunction.replace(/\n\s*\n(\s*\n)+/g, '\n\n');
+
+  // Code that reads a parameter, directly or through another statement, runs inside render
+  const dependent = new Set(paramLocals.keys());
+  const renderStatements = new Set<TS.Statement>();
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const statement of others) {
+      if (renderStatements.has(statement)) continue;
+      if ([...collectUses(statement)].some((name) => dependent.has(name))) {
+        renderStatements.add(statement);
+        declaredNames(statement).forEach((name) => dependent.add(name));
+        changed = true;
+      }
+    }
+  }
+
+  const paramBindings = [...paramLocals].map(([local, key]) => (local === key ? key : `${key}: ${local}`));
+
+  return {
+    ...header,
+    params,
+    moduleCode: others.filter((s) => !renderStatements.has(s)).map((s) => s.getText(sourceFile)),
+    renderCode: [
+      ...(paramBindings.length ? [`const { ${paramBindings.join(', ')} } = params;`] : []),
+      ...others.filter((s) => renderStatements.has(s)).map((s) => s.getText(sourceFile)),
+    ],
+    renderFunction,
+  };
+}
+
+function indentCode(text: string, spaces: number): string {
+  const pad = ' '.repeat(spaces);
+  return text.split('\n').map((line) => (line.trim() ? pad + line : line)).join('\n');
+}
+
+/** Name of the params type in an imported animation: Rainbow Wave -> RainbowWaveParams */
+export function importedParamsType(name: string): string {
+  return `${name.replace(/[^a-zA-Z0-9]/g, '').replace(/^\d+/, '') || 'Imported'}Params`;
+}
+
+/**
+ * Generate an animation index.ts from parsed Simple Format code. The pasted
+ * code is plain JavaScript; checkImportedAnimation types the rest of it.
+ */
+export function generateImportedAnimation(config: {
+  id: string;
+  name: string;
+  parsed: ParsedSimpleFormat;
+}): string {
+  const { id, name, parsed } = config;
+  const typeName = importedParamsType(name);
+
+  const schemaFor = ({ key, value }: DetectedParam) => {
+    const label = quote(toLabel(key));
+    if (typeof value === 'number') {
+      const { min, max, step } = numberRange(value);
+      return `number({ value: ${value}, min: ${min}, max: ${max}, step: ${step}, label: ${label} })`;
+    }
+    if (typeof value === 'boolean') return `boolean({ value: ${value}, label: ${label} })`;
+    if (COLOR_PATTERN.test(value)) return `color({ value: ${quote(value)}, label: ${label} })`;
+    return `string({ value: ${quote(value)}, label: ${label} })`;
+  };
+  const helperFor = ({ value }: DetectedParam) =>
+    typeof value === 'number' ? 'number'
+      : typeof value === 'boolean' ? 'boolean'
+        : COLOR_PATTERN.test(value) ? 'color' : 'string';
+
+  const helpers = [...new Set(parsed.params.map(helperFor)), 'defineParams'];
+  const schema = parsed.params.map((p) => `  ${formatKey(p.key)}: ${schemaFor(p)},`);
+
+  const settings = [
+    `  id: ${quote(id)},`,
+    `  name: ${quote(name)},`,
+    `  fps: ${parsed.fps ?? 60},`,
+    ...(parsed.durationMs === null ? [] : [`  durationMs: ${parsed.durationMs ?? 3000},`]),
+    ...(parsed.background ? [`  background: ${quote(parsed.background)},`] : []),
+    `  width: ${parsed.width ?? 800},`,
+    `  height: ${parsed.height ?? 600},`,
+  ];
+
+  const renderBody = [
+    ...parsed.renderCode,
+    `const drawFrame = ${parsed.renderFunction};`,
+    'drawFrame(ctx, { width, height, progress });',
+  ].join('\n\n');
+  const renderArgs = ['ctx', 'width', 'height', 'progress', ...(/\bparams\b/.test(renderBody) ? ['params'] : [])];
+
+  return `import type { AnimationDefinition, RenderContext } from '../../runtime/types';
+import { ${helpers.join(', ')} } from '../../runtime/params';
+
+/**
+ * ${name}
+ * Imported from Simple Format code
+ */
+
+const params = defineParams({${schema.length ? `\n${schema.join('\n')}\n` : ''}});
+
+type ${typeName} = typeof params.defaults;
+${parsed.moduleCode.length ? `\n${parsed.moduleCode.join('\n\n')}\n` : ''}
+const animation: AnimationDefinition<${typeName}> = {
+${settings.join('\n')}
+
+  params,
+
+  render({ ${renderArgs.join(', ')} }: RenderContext<${typeName}>) {
+${indentCode(renderBody, 4)}
+  },
+};
+
+export default animation;
+`;
+}
+
+/** Parsed library and runtime files, shared between checks */
+let documents: TS.DocumentRegistry | undefined;
+
+/**
+ * Type a generated animation file so it checks as src/animations/<id>/index.ts
+ * with the app's compiler options: parameters the pasted code leaves untyped
+ * get the types their uses imply, or `any`, and other type errors are cast
+ * away. Syntax errors and unresolved names are returned as errors.
+ */
+export async function checkImportedAnimation(
+  id: string,
+  paramsType: string,
+  content: string
+): Promise<{ content: string; errors: string[] }> {
+  const ts = (await import('typescript')).default;
+  const fileName = path.join(process.cwd(), 'src', 'animations', id, 'index.ts');
+  const configPath = path.join(process.cwd(), 'tsconfig.app.json');
+  const { options } = ts.parseJsonConfigFileContent(
+    ts.readConfigFile(configPath, ts.sys.readFile).config,
+    ts.sys,
+    process.cwd()
+  );
+
+  let version = 0;
+  documents ??= ts.createDocumentRegistry();
+  const service = ts.createLanguageService({
+    getCompilationSettings: () => options,
+    getScriptFileNames: () => [fileName],
+    getScriptVersion: (name) => (name === fileName ? String(version) : '0'),
+    getScriptSnapshot: (name) => {
+      const text = name === fileName ? content : ts.sys.readFile(name);
+      return text === undefined ? undefined : ts.ScriptSnapshot.fromString(text);
+    },
+    getCurrentDirectory: () => process.cwd(),
+    getDefaultLibFileName: (opts) => ts.getDefaultLibFilePath(opts),
+    fileExists: (name) => name === fileName || ts.sys.fileExists(name),
+    readFile: (name) => (name === fileName ? content : ts.sys.readFile(name)),
+    readDirectory: ts.sys.readDirectory,
+    directoryExists: ts.sys.directoryExists,
+    getDirectories: ts.sys.getDirectories,
+  }, documents);
+
+  // Types inference can't find from uses: canvas contexts and render contexts by name
+  const typesFile = service.getProgram()!.getSourceFile(path.join(process.cwd(), 'src', 'runtime', 'types.ts'))!;
+  const renderContext = typesFile.statements.find(
+    (statement): statement is TS.InterfaceDeclaration => ts.isInterfaceDeclaration(statement) && statement.name.text === 'RenderContext'
+  );
+  const contextFields = new Set(renderContext?.members.map((member) => member.name?.getText(typesFile)));
+  const annotations: { position: number; text: string; parens: boolean }[] = [];
+  const annotate = (node: TS.Node) => {
+    if (ts.isParameter(node) && !node.type) {
+      const { name, parent } = node;
+      let type: string | undefined;
+      if (ts.isIdentifier(name) && name.text === 'ctx') {
+        type = 'CanvasRenderingContext2D';
+      } else if (ts.isObjectBindingPattern(name) && name.elements.length) {
+        const fields = name.elements.map((element) => (element.propertyName ?? element.name).getText(sourceFile));
+        if (name.elements.every((element) => !element.dotDotDotToken) && fields.every((field) => contextFields.has(field))) {
+          type = `Pick<RenderContext<${paramsType}>, ${fields.map((field) => quote(field)).join(' | ')}>`;
+        }
+      }
+      // `ctx => ...` needs parentheses around an annotated parameter
+      const parens = ts.isArrowFunction(parent) && !parent.getChildren(sourceFile).some((child) => child.kind === ts.SyntaxKind.OpenParenToken);
+      if (type) annotations.push({ position: name.end, text: `: ${type}`, parens });
+    }
+    ts.forEachChild(node, annotate);
+  };
+  let sourceFile = service.getProgram()!.getSourceFile(fileName)!;
+  annotate(sourceFile);
+  for (const { position, text, parens } of annotations.reverse()) {
+    content = parens
+      ? `${content.slice(0, position).replace(/[\w$]+$/, '($&')}${text})${content.slice(position)}`
+      : content.slice(0, position) + text + content.slice(position);
+  }
+  version++;
+
+  // Inferring one parameter can make another inferable, so repeat while it helps;
+  // what has no better type is annotated `any`, as plain JavaScript would have it
+  for (let round = 0; round < 3; round++) {
+    const { changes } = service.getCombinedCodeFix({ type: 'file', fileName }, 'inferFromUsage', {}, {});
+    const edits = changes.flatMap((change) => (change.fileName === fileName ? change.textChanges : []));
+    if (edits.length === 0) break;
+    content = applyEdits(content, edits.map((edit) => ({ start: edit.span.start, end: edit.span.start + edit.span.length, text: edit.newText })));
+    version++;
+  }
+
+  // Dynamic code the inference can't type (string keys, spread arrays, ...) is cast to `any`
+  let diagnostics: TS.Diagnostic[] = [];
+  for (let round = 0; round < 5; round++) {
+    sourceFile = service.getProgram()!.getSourceFile(fileName)!;
+    diagnostics = [...service.getSyntacticDiagnostics(fileName), ...service.getSemanticDiagnostics(fileName)];
+    if (diagnostics.some(isHardError)) break;
+    const edits = diagnostics.flatMap((diagnostic) => {
+      const edit = diagnostic.start === undefined ? undefined : castToAny(ts, sourceFile, diagnostic);
+      return edit ? [edit] : [];
+    });
+    if (edits.length === 0) break;
+    content = applyEdits(content, edits);
+    version++;
+  }
+
+  const errors = diagnostics.map((diagnostic) => {
+    const { line } = ts.getLineAndCharacterOfPosition(sourceFile, diagnostic.start ?? 0);
+    return `index.ts:${line + 1}: ${ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n')}`;
+  });
+  if (errors.length) return { content, errors };
+
+  // Lint fixes only tidy the code (let -> const, ...); what's left isn't an error
+  const { ESLint } = await import('eslint');
+  const [result] = await new ESLint({ fix: true }).lintText(content, { filePath: fileName });
+  return { content: result.output ?? content, errors };
+}
+
+/** Syntax errors (1xxx) and names that don't exist; the rest can be typed `any` */
+function isHardError(diagnostic: TS.Diagnostic): boolean {
+  // 2304, 2552: cannot find name; 2307: cannot find module
+  return diagnostic.code < 2000 || [2304, 2552, 2307].includes(diagnostic.code);
+}
+
+/** Errors about a call's arguments as a whole, fixed on the function rather than an argument */
+const CALL_ERRORS = new Set([
+  2554, // Expected N arguments, but got M
+  2555, // Expected at least N arguments
+  2556, // A spread argument must either have a tuple type or be passed to a rest parameter
+]);
+
+/** Edit that silences a type error by casting the expression it's about to `any` */
+function castToAny(ts: typeof TS, sourceFile: TS.SourceFile, diagnostic: TS.Diagnostic): SourceEdit | undefined {
+  const start = diagnostic.start ?? 0;
+  const end = start + (diagnostic.length ?? 0);
+  const find = (node: TS.Node): TS.Node | undefined => {
+    if (node.getStart(sourceFile) === start && node.end === end) return node;
+    return node.getStart(sourceFile) <= start && node.end >= end ? ts.forEachChild(node, find) : undefined;
+  };
+  let node = ts.forEachChild(sourceFile, find);
+  if (!node) return undefined;
+
+  // Untyped declarations: `let total;` -> `let total: any;`
+  const parent = node.parent;
+  if ((ts.isVariableDeclaration(parent) || ts.isParameter(parent)) && parent.name === node && !parent.type) {
+    return { start: node.end, end: node.end, text: ': any' };
+  }
+  if (CALL_ERRORS.has(diagnostic.code)) {
+    // `ctx.moveTo(...point(x, y))` -> `(ctx.moveTo as any)(...point(x, y))`
+    while (!ts.isCallExpression(node)) {
+      if (ts.isSourceFile(node.parent)) return undefined;
+      node = node.parent;
+    }
+    node = node.expression;
+  } else if (ts.isPropertyAccessExpression(parent) && parent.name === node) {
+    // `context.random` on an object without it fails on the name; cast the object
+    node = parent.expression;
+  } else if (ts.isElementAccessExpression(node)) {
+    // `COLORS[key]` fails on the object
+    node = node.expression;
+  }
+  if (!ts.isExpression(node)) return undefined;
+  return { start: node.getStart(sourceFile), end: node.end, text: `(${node.getText(sourceFile)} as any)` };
+}
+
+interface SourceEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/** Apply non-overlapping edits; where two overlap, the later one is dropped */
+function applyEdits(content: string, edits: SourceEdit[]): string {
+  let end = Infinity;
+  for (const edit of [...edits].sort((a, b) => b.start - a.start || b.end - a.end)) {
+    if (edit.end > end) continue;
+    content = content.slice(0, edit.start) + edit.text + content.slice(edit.end);
+    end = edit.start;
+  }
+  return content;
+}
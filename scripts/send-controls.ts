@@ -0,0 +1,116 @@
+#!/usr/bin/env npx tsx
+
+/**
+ * Send control messages to the dev server's control bridge, standing in
+ * for a MIDI controller or OSC app. Start `npm run dev`, open an
+ * animation, turn on MIDI learn, press Learn on a param, then send a
+ * message to bind it.
+ *
+ * Usage:
+ *   npm run send-controls -- --address /speed --value 0.75
+ *   npm run send-controls -- --address /speed --sweep 4
+ *   npm run send-controls -- --midi 176,1,64
+ *   npm run send-controls -- --address /speed --value 1 --url ws://localhost:5174/api/controls
+ *
+ * Values run from 0 to 1; true and false send 1 and 0. --sweep moves the
+ * control up and back down over the given number of seconds; --midi sends
+ * raw status/data bytes.
+ */
+
+import * as crypto from 'crypto';
+import * as http from 'http';
+import type { Duplex } from 'stream';
+
+const args = process.argv.slice(2);
+
+function getArg(name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  if (index !== -1 && args[index + 1]) {
+    return args[index + 1];
+  }
+  return undefined;
+}
+
+/** Encode a masked text frame, as clients must send them */
+function encodeTextFrame(text: string): Buffer {
+  const payload = Buffer.from(text);
+  const length = payload.length;
+  const header = Buffer.alloc(length < 126 ? 2 : 4);
+  header[0] = 0x81;
+  if (length < 126) {
+    header[1] = 0x80 | length;
+  } else {
+    header[1] = 0x80 | 126;
+    header.writeUInt16BE(length, 2);
+  }
+  const mask = crypto.randomBytes(4);
+  for (let i = 0; i < length; i++) payload[i] ^= mask[i % 4];
+  return Buffer.concat([header, mask, payload]);
+}
+
+function connect(url: string): Promise<Duplex> {
+  const { hostname, port, pathname } = new URL(url);
+  return new Promise((resolve, reject) => {
+    const request = http.request({
+      hostname,
+      port: port || 80,
+      path: pathname,
+      headers: {
+        Connection: 'Upgrade',
+        Upgrade: 'websocket',
+        'Sec-WebSocket-Version': '13',
+        'Sec-WebSocket-Key': crypto.randomBytes(16).toString('base64'),
+      },
+    });
+    request.on('upgrade', (_res, socket) => resolve(socket));
+    request.on('response', (res) => reject(new Error(`Bridge refused the connection (${res.statusCode})`)));
+    request.on('error', reject);
+    request.end();
+  });
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function main() {
+  const url = getArg('url') ?? 'ws://localhost:5173/api/controls';
+  const address = getArg('address');
+  const midi = getArg('midi');
+  const sweep = getArg('sweep');
+
+  if (!midi && !address) {
+    console.error('Usage: npm run send-controls -- --address /name (--value 0-1 | --sweep seconds) | --midi status,data1,data2');
+    process.exit(1);
+  }
+
+  const socket = await connect(url);
+  const send = (message: unknown) => socket.write(encodeTextFrame(JSON.stringify(message)));
+
+  if (midi) {
+    const bytes = midi.split(',').map(Number);
+    send({ midi: bytes });
+    console.log(`Sent MIDI ${bytes.join(' ')}`);
+  } else if (sweep) {
+    const durationMs = (parseFloat(sweep) || 4) * 1000;
+    const start = Date.now();
+    for (let elapsed = 0; elapsed <= durationMs; elapsed = Date.now() - start) {
+      // Triangle wave: 0 -> 1 -> 0
+      const t = elapsed / durationMs;
+      send({ address, value: 1 - Math.abs(2 * t - 1) });
+      await sleep(1000 / 30);
+    }
+    console.log(`Swept ${address} over ${durationMs / 1000}s`);
+  } else {
+    const text = getArg('value') ?? '1';
+    const value = text === 'true' ? 1 : text === 'false' ? 0 : parseFloat(text);
+    send({ address, value });
+    console.log(`Sent ${address} = ${value}`);
+  }
+
+  // Close cleanly so the server drops the client
+  socket.end(Buffer.from([0x88, 0x80, 0, 0, 0, 0]));
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
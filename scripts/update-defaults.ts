@@ -3,12 +3,14 @@
 /**
  * Update animation defaults
  * 
- * This script updates the default parameter values in an animation file
+ * This script updates the default parameter values in an animation file:
+ * the `defaults` block, if it has one, and the schema `value`s
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
+import { updateSchemaValues } from './lib/schema-values';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -52,8 +54,9 @@ export function updateAnimationDefaults(animationId: string, newDefaults: Record
 
   const newDefaultsBlock = `defaults: {\n${defaultsLines.join(',\n')},\n    }`;
 
-  // Replace the defaults block
+  // Replace the defaults block, if the animation has one, and the schema values
   content = content.replace(defaultsRegex, newDefaultsBlock);
+  content = updateSchemaValues(content, newDefaults);
 
   // Write back to file
   fs.writeFileSync(animationPath, content, 'utf-8');
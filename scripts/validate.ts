@@ -0,0 +1,442 @@
+#!/usr/bin/env npx tsx
+
+/**
+ * Validate script - statically checks every src/animations/<id> folder
+ *
+ * - index.ts exports a definition (default export or one with render)
+ * - the registered id matches the folder name and meta.json's id
+ * - params.defaults has exactly the schema's keys, including inside folder()
+ * - defaults equal the schema `value`s, lie within min/max and are among
+ *   a select's options
+ * - meta.json conforms to AnimationMeta
+ *
+ * With --fix, mismatches are rewritten in place: ids are set to the folder
+ * name, schema values are set to the defaults (which Save as Default
+ * writes), out-of-range defaults are clamped and missing meta fields are
+ * filled in. Anything that can't be fixed safely is still reported.
+ *
+ * Usage:
+ *   npm run validate
+ *   npm run validate -- --id clock
+ *   npm run validate -- --json
+ *   npm run validate -- --fix
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import type { AnimationMeta } from '../src/runtime/types';
+import { escapeRegExp, findBlock, formatLiteral, setSchemaValues, VALUE_LITERAL } from './lib/schema-values';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const ANIMATIONS_DIR = path.join(__dirname, '../src/animations');
+
+const args = process.argv.slice(2);
+
+function getArg(name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  if (index !== -1 && args[index + 1]) {
+    return args[index + 1];
+  }
+  return undefined;
+}
+
+// Node has no Path2D; some animations create paths when their module loads
+if (typeof globalThis.Path2D === 'undefined') {
+  globalThis.Path2D = class {} as unknown as typeof Path2D;
+}
+
+const { isSimpleAnimation } = await import('../src/runtime/types');
+const { isComposition } = await import('../src/runtime/composition');
+const { isSequence } = await import('../src/runtime/sequencer');
+
+type Check = 'export' | 'id' | 'params' | 'meta';
+
+interface Issue {
+  check: Check;
+  message: string;
+  fixable: boolean;
+  fixed?: boolean;
+}
+
+interface Result {
+  folder: string;
+  id?: string;
+  issues: Issue[];
+}
+
+interface SchemaParam {
+  value?: unknown;
+  min?: number;
+  max?: number;
+  options?: (string | { label: string; value: string })[];
+}
+
+/** Changes --fix applies to an animation's files */
+interface Fixes {
+  id?: { from: string; to: string };
+  /** Values to write to params.defaults; undefined removes the key */
+  defaults: Map<string, unknown>;
+  /** Values to write to schema entries */
+  schema: Map<string, unknown>;
+  meta?: Record<string, unknown>;
+}
+
+const SOURCE_TYPES = ['figma', 'screenshot', 'none'];
+const META_KEYS = ['id', 'name', 'createdAt', 'updatedAt', 'source', 'prompt', 'paramsNotes', 'tags'];
+const SOURCE_KEYS = ['type', 'figmaUrl', 'filePath', 'notes'];
+
+/** Flatten a schema, so params inside folder() sit next to top-level ones */
+function flattenSchema(schema: Record<string, unknown>, into = new Map<string, SchemaParam>()): Map<string, SchemaParam> {
+  for (const [key, param] of Object.entries(schema)) {
+    if (!param || typeof param !== 'object') continue;
+    if ('schema' in param && typeof param.schema === 'object' && !('value' in param)) {
+      flattenSchema(param.schema as Record<string, unknown>, into);
+    } else {
+      into.set(key, param as SchemaParam);
+    }
+  }
+  return into;
+}
+
+function optionValues(param: SchemaParam): string[] {
+  return (param.options ?? []).map((option) => (typeof option === 'string' ? option : option.value));
+}
+
+const isVector = (value: unknown): value is { x: number; y: number } =>
+  typeof value === 'object' && value !== null && typeof (value as { x?: unknown }).x === 'number';
+
+const clamp = (value: number, min = -Infinity, max = Infinity) => Math.min(max, Math.max(min, value));
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const isDate = (value: unknown) => typeof value === 'string' && !Number.isNaN(Date.parse(value));
+
+/** A default moved into range and among the options, or null when it already is */
+function correctValue(param: SchemaParam, value: unknown): { value: unknown; problem: string } | null {
+  if (param.options) {
+    const options = optionValues(param);
+    if (options.includes(value as string)) return null;
+    const fallback = options.includes(param.value as string) ? param.value : options[0];
+    return { value: fallback, problem: `${JSON.stringify(value)} is not one of ${options.join(', ')}` };
+  }
+  if (typeof value === 'number') {
+    const clamped = clamp(value, param.min, param.max);
+    if (clamped === value) return null;
+    return { value: clamped, problem: `${value} is outside ${param.min ?? '-∞'}..${param.max ?? '∞'}` };
+  }
+  if (isVector(value)) {
+    const clamped = { x: clamp(value.x, param.min, param.max), y: clamp(value.y, param.min, param.max) };
+    if (same(clamped, value)) return null;
+    return { value: clamped, problem: `${JSON.stringify(value)} is outside ${param.min ?? '-∞'}..${param.max ?? '∞'}` };
+  }
+  return null;
+}
+
+function checkParams(
+  defaults: Record<string, unknown>,
+  schema: Record<string, unknown>,
+  issues: Issue[],
+  fixes: Fixes
+): void {
+  const params = flattenSchema(schema);
+
+  for (const [key, param] of params) {
+    if (!('value' in param)) continue;
+
+    if (!(key in defaults)) {
+      issues.push({ check: 'params', message: `"${key}" is in the schema but has no default`, fixable: true });
+      fixes.defaults.set(key, param.value);
+      continue;
+    }
+
+    let value = defaults[key];
+    const corrected = correctValue(param, value);
+    if (corrected) {
+      issues.push({ check: 'params', message: `default for "${key}": ${corrected.problem}`, fixable: true });
+      value = corrected.value;
+      fixes.defaults.set(key, value);
+    }
+    if (!same(param.value, value)) {
+      issues.push({
+        check: 'params',
+        message: `schema value for "${key}" is ${JSON.stringify(param.value)}, default is ${JSON.stringify(value)}`,
+        fixable: true,
+      });
+      fixes.schema.set(key, value);
+    }
+  }
+
+  for (const key of Object.keys(defaults)) {
+    if (!params.has(key)) {
+      issues.push({ check: 'params', message: `default "${key}" is not in the schema`, fixable: true });
+      fixes.defaults.set(key, undefined);
+    }
+  }
+}
+
+function checkMeta(
+  folder: string,
+  name: string | undefined,
+  issues: Issue[],
+  fixes: Fixes
+): void {
+  const metaPath = path.join(ANIMATIONS_DIR, folder, 'meta.json');
+  if (!fs.existsSync(metaPath)) {
+    issues.push({ check: 'meta', message: 'meta.json is missing', fixable: !!name });
+    if (name) {
+      const now = new Date().toISOString();
+      const meta: AnimationMeta = { id: folder, name, createdAt: now, updatedAt: now, source: { type: 'none' }, prompt: '', tags: [] };
+      fixes.meta = { ...meta };
+    }
+    return;
+  }
+
+  let meta: Record<string, unknown>;
+  try {
+    meta = JSON.parse(fs.readFileSync(metaPath, 'utf-8'));
+  } catch (err) {
+    issues.push({ check: 'meta', message: `meta.json is not valid JSON: ${(err as Error).message}`, fixable: false });
+    return;
+  }
+  const fixed = { ...meta };
+  const report = (message: string, fix?: () => void) => {
+    issues.push({ check: 'meta', message, fixable: !!fix });
+    fix?.();
+  };
+
+  if (meta.id !== folder) {
+    report(`id is ${JSON.stringify(meta.id)}, expected "${folder}"`, () => { fixed.id = folder; });
+  }
+  if (typeof meta.name !== 'string') {
+    report('name must be a string', name ? () => { fixed.name = name; } : undefined);
+  }
+  if (!isDate(meta.createdAt)) {
+    report('createdAt must be a date string');
+  }
+  if (!isDate(meta.updatedAt)) {
+    const fallback = isDate(meta.createdAt) ? meta.createdAt : undefined;
+    report('updatedAt must be a date string', fallback ? () => { fixed.updatedAt = fallback; } : undefined);
+  }
+
+  const source = meta.source;
+  if (typeof source === 'string') {
+    // Older tools wrote where an animation came from as a plain string
+    report(`source must be an object, not ${JSON.stringify(source)}`, () => {
+      fixed.source = { type: 'none', notes: source };
+    });
+  } else if (!source || typeof source !== 'object') {
+    report('source is missing', () => { fixed.source = { type: 'none' }; });
+  } else {
+    const { type } = source as { type?: unknown };
+    if (!SOURCE_TYPES.includes(type as string)) {
+      report(`source.type must be one of ${SOURCE_TYPES.join(', ')}`);
+    }
+    for (const [key, value] of Object.entries(source)) {
+      if (!SOURCE_KEYS.includes(key)) report(`source.${key} is not an AnimationMeta field`);
+      else if (key !== 'type' && typeof value !== 'string') report(`source.${key} must be a string`);
+    }
+  }
+
+  if (typeof meta.prompt !== 'string') {
+    report('prompt must be a string', meta.prompt === undefined ? () => { fixed.prompt = ''; } : undefined);
+  }
+  if (meta.paramsNotes !== undefined && typeof meta.paramsNotes !== 'string') {
+    report('paramsNotes must be a string');
+  }
+  if (!Array.isArray(meta.tags) || meta.tags.some((tag) => typeof tag !== 'string')) {
+    report('tags must be an array of strings', meta.tags === undefined ? () => { fixed.tags = []; } : undefined);
+  }
+  for (const key of Object.keys(meta)) {
+    if (!META_KEYS.includes(key)) report(`${key} is not an AnimationMeta field`);
+  }
+
+  if (!same(fixed, meta)) fixes.meta = fixed;
+}
+
+async function validateFolder(folder: string): Promise<{ result: Result; fixes: Fixes }> {
+  const result: Result = { folder, id: undefined, issues: [] };
+  const fixes: Fixes = { defaults: new Map(), schema: new Map() };
+  const { issues } = result;
+
+  const file = path.join(ANIMATIONS_DIR, folder, 'index.ts');
+  if (!fs.existsSync(file)) {
+    issues.push({ check: 'export', message: 'index.ts is missing', fixable: false });
+    return { result, fixes };
+  }
+
+  let definition: Record<string, unknown> | undefined;
+  try {
+    // Found the same way as the registry
+    const module = await import(file);
+    definition = module.default
+      ?? Object.values(module).find((value) => (value as { render?: unknown })?.render);
+  } catch (err) {
+    issues.push({ check: 'export', message: `index.ts failed to load: ${(err as Error).message}`, fixable: false });
+    return { result, fixes };
+  }
+  if (!definition || typeof definition !== 'object') {
+    issues.push({ check: 'export', message: 'index.ts exports no definition', fixable: false });
+    return { result, fixes };
+  }
+
+  const name = typeof definition.name === 'string' ? definition.name : undefined;
+  const id = typeof definition.id === 'string' && definition.id
+    ? definition.id
+    : name ? name.toLowerCase().replace(/\s+/g, '-') : folder;
+  result.id = id;
+  if (id !== folder) {
+    const declared = typeof definition.id === 'string' && !!definition.id;
+    issues.push({
+      check: 'id',
+      message: `registers as "${id}", expected "${folder}"${declared ? '' : ' (derived from the name; add an id)'}`,
+      fixable: declared,
+    });
+    if (declared) fixes.id = { from: id, to: folder };
+  }
+
+  const animation = definition as Parameters<typeof isSimpleAnimation>[0];
+  const isFull = !isComposition(definition) && !isSequence(definition) && !isSimpleAnimation(animation);
+  if (isFull) {
+    const params = definition.params as { defaults?: unknown; schema?: unknown } | undefined;
+    if (!params || typeof params.defaults !== 'object' || typeof params.schema !== 'object') {
+      issues.push({ check: 'params', message: 'params must have defaults and schema objects', fixable: false });
+    } else {
+      checkParams(params.defaults as Record<string, unknown>, params.schema as Record<string, unknown>, issues, fixes);
+    }
+  }
+
+  checkMeta(folder, name, issues, fixes);
+  return { result, fixes };
+}
+
+/** Set the `value` of schema helpers in a block of source */
+function fixSchemaValues(block: string, values: Map<string, unknown>): string {
+  const { schema, missing } = setSchemaValues(block, values);
+  if (missing.length) throw new Error(`could not find the schema value for "${missing[0]}" in index.ts`);
+  return schema;
+}
+
+/** Apply the params changes to the defaults and schema blocks in the source */
+function fixParamsSource(source: string, fixes: Fixes): string {
+  // defineParams() derives the defaults, so only the schema is written
+  const derived = findBlock(source, /\bdefineParams\(\s*\{/g);
+  if (derived) {
+    return source.slice(0, derived.start)
+      + fixSchemaValues(source.slice(derived.start, derived.end), fixes.schema)
+      + source.slice(derived.end);
+  }
+
+  const params = findBlock(source, /\bparams:\s*\{/g);
+  if (!params) throw new Error('could not find params in index.ts');
+  let block = source.slice(params.start, params.end);
+
+  const defaults = findBlock(block, /\bdefaults:\s*\{/g);
+  if (!defaults) throw new Error('could not find params.defaults in index.ts');
+  let defaultsBlock = block.slice(defaults.start, defaults.end);
+  const indent = defaultsBlock.match(/\n(\s*)\S/)?.[1] ?? '      ';
+  for (const [key, value] of fixes.defaults) {
+    const entry = new RegExp(`(\\n\\s*)?(?<![\\w$])${escapeRegExp(key)}:\\s*(${VALUE_LITERAL}),?[^\\S\\n]*`);
+    if (value === undefined) {
+      defaultsBlock = defaultsBlock.replace(entry, '');
+    } else if (entry.test(defaultsBlock)) {
+      defaultsBlock = defaultsBlock.replace(entry, (match, newline = '') => {
+        const comma = match.trimEnd().endsWith(',') ? ',' : '';
+        return `${newline}${key}: ${formatLiteral(value)}${comma}`;
+      });
+    } else {
+      defaultsBlock = defaultsBlock.replace(/,?(\s*)\}$/, `,\n${indent}${key}: ${formatLiteral(value)},$1}`);
+    }
+  }
+  block = block.slice(0, defaults.start) + defaultsBlock + block.slice(defaults.end);
+
+  const schema = findBlock(block, /\bschema:\s*\{/g);
+  if (!schema) throw new Error('could not find params.schema in index.ts');
+  block = block.slice(0, schema.start) + fixSchemaValues(block.slice(schema.start, schema.end), fixes.schema) + block.slice(schema.end);
+
+  return source.slice(0, params.start) + block + source.slice(params.end);
+}
+
+function applyFixes({ folder, issues }: Result, fixes: Fixes): void {
+  const dir = path.join(ANIMATIONS_DIR, folder);
+  const indexPath = path.join(dir, 'index.ts');
+  const markFixed = (check: Check) => {
+    for (const issue of issues) {
+      if (issue.check === check && issue.fixable) issue.fixed = true;
+    }
+  };
+
+  const original = fs.readFileSync(indexPath, 'utf-8');
+  let source = original;
+  if (fixes.id) {
+    const idPattern = new RegExp(`(\\bid:\\s*)(['"])${escapeRegExp(fixes.id.from)}\\2`);
+    source = source.replace(idPattern, `$1$2${fixes.id.to}$2`);
+    if (source !== original) markFixed('id');
+  }
+  if (fixes.defaults.size > 0 || fixes.schema.size > 0) {
+    try {
+      source = fixParamsSource(source, fixes);
+      markFixed('params');
+    } catch (err) {
+      issues.push({ check: 'params', message: `not fixed: ${(err as Error).message}`, fixable: false });
+    }
+  }
+  if (source !== original) fs.writeFileSync(indexPath, source);
+
+  if (fixes.meta) {
+    fs.writeFileSync(path.join(dir, 'meta.json'), JSON.stringify(fixes.meta, null, 2));
+    markFixed('meta');
+  }
+}
+
+async function main() {
+  const id = getArg('id');
+  const fix = args.includes('--fix');
+  const json = args.includes('--json');
+
+  const folders = fs.readdirSync(ANIMATIONS_DIR, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory() && (!id || entry.name === id))
+    .map((entry) => entry.name)
+    .sort();
+
+  if (folders.length === 0) {
+    console.error(`❌ No animation folder found${id ? ` for "${id}"` : ''}`);
+    process.exit(1);
+  }
+
+  const results: Result[] = [];
+  for (const folder of folders) {
+    const { result, fixes } = await validateFolder(folder);
+    if (fix) applyFixes(result, fixes);
+    results.push(result);
+  }
+
+  const failed = results.filter((result) => result.issues.some((issue) => !issue.fixed));
+
+  if (json) {
+    console.log(JSON.stringify({ valid: failed.length === 0, results }, null, 2));
+  } else {
+    for (const { folder, issues } of results) {
+      if (issues.length === 0) {
+        console.log(`✅ ${folder}`);
+        continue;
+      }
+      const remaining = issues.some((issue) => !issue.fixed);
+      console.log(`${remaining ? '❌' : '🔧'} ${folder}`);
+      for (const issue of issues) {
+        const status = issue.fixed ? 'fixed' : issue.fixable ? 'fixable' : 'error';
+        console.log(`   [${issue.check}] ${issue.message} (${status})`);
+      }
+    }
+    console.log(`\n${results.length - failed.length}/${results.length} animations valid`);
+    if (!fix && failed.some(({ issues }) => issues.some((issue) => issue.fixable))) {
+      console.log('Run with --fix to fix the fixable issues');
+    }
+  }
+
+  if (failed.length > 0) process.exit(1);
+}
+
+main();
@@ -37,6 +37,7 @@ const animation: AnimationDefinition<EyesParams> = {
   width: 284,
   height: 355,
   background: '#FFFFFF',
+  interactive: true,
 
   params: {
     defaults: {
@@ -60,7 +61,7 @@ const animation: AnimationDefinition<EyesParams> = {
     },
     schema: {
       ...folder('Background', {
-        backgroundColor: color({ value: '#8429ff', label: 'Background Color' }),
+        backgroundColor: color({ value: '#FFA228', label: 'Background Color' }),
         cornerRadius: number({ value: 1, min: 0, max: 50, step: 1, label: 'Corner Radius' }),
       }),
       ...folder('Colors', {
@@ -69,26 +70,26 @@ const animation: AnimationDefinition<EyesParams> = {
       }),
       ...folder('Rotation', {
         enableRotation: boolean({ value: false, label: 'Enable Rotation' }),
-        rotationSpeed: number({ value: 1, min: 0.1, max: 5, step: 0.1, label: 'Rotation Speed' }),
+        rotationSpeed: number({ value: 0.2, min: 0.1, max: 5, step: 0.1, label: 'Rotation Speed' }),
       }),
       ...folder('Horizontal Movement', {
-        enableHorizontalMove: boolean({ value: true, label: 'Enable Horizontal' }),
-        horizontalMoveSpeed: number({ value: 1, min: 0.1, max: 3, step: 0.1, label: 'Speed' }),
-        horizontalMoveAmount: number({ value: 1, min: 0, max: 30, step: 1, label: 'Movement Amount' }),
+        enableHorizontalMove: boolean({ value: false, label: 'Enable Horizontal' }),
+        horizontalMoveSpeed: number({ value: 2.5, min: 0.1, max: 3, step: 0.1, label: 'Speed' }),
+        horizontalMoveAmount: number({ value: 5, min: 0, max: 30, step: 1, label: 'Movement Amount' }),
       }),
       ...folder('Vertical Movement', {
         enableVerticalMove: boolean({ value: true, label: 'Enable Vertical' }),
-        verticalMoveSpeed: number({ value: 1.8, min: 0.1, max: 3, step: 0.1, label: 'Speed' }),
-        verticalMoveAmount: number({ value: 12, min: 0, max: 30, step: 1, label: 'Movement Amount' }),
+        verticalMoveSpeed: number({ value: 0.3, min: 0.1, max: 3, step: 0.1, label: 'Speed' }),
+        verticalMoveAmount: number({ value: 24, min: 0, max: 30, step: 1, label: 'Movement Amount' }),
       }),
       ...folder('Scaling', {
-        enableScaling: boolean({ value: false, label: 'Enable Scaling' }),
+        enableScaling: boolean({ value: true, label: 'Enable Scaling' }),
         scalingSpeed: number({ value: 1.5, min: 0.1, max: 5, step: 0.1, label: 'Speed' }),
         scaleMin: number({ value: 0.7, min: 0.3, max: 1, step: 0.05, label: 'Min Scale' }),
         scaleMax: number({ value: 1.3, min: 1, max: 2, step: 0.05, label: 'Max Scale' }),
       }),
       animationPattern: select({
-        value: 'all',
+        value: 'pulse',
         options: [
           { label: 'All Combined', value: 'all' },
           { label: 'Rotation Only', value: 'rotation' },
@@ -103,7 +104,7 @@ const animation: AnimationDefinition<EyesParams> = {
     },
   },
 
-  render({ ctx, time, width, height, params }) {
+  render({ ctx, time, width, height, params, input }) {
     const {
       backgroundColor,
       cornerRadius,
@@ -288,10 +289,22 @@ const animation: AnimationDefinition<EyesParams> = {
       ctx.restore(); // end eye
     }
 
+    // In the player, pupils look at the pointer while it's over the canvas
+    const pointer = input?.pointer?.hover ? input.pointer : null;
+
     // Draw both eyes with independent animation
     for (let i = 0; i < 2; i++) {
       const eye = eyes[i];
       const anim = getEyeAnim(time, eye.phase);
+      if (pointer) {
+        const dx = pointer.x - eye.x;
+        const dy = pointer.y - eye.y;
+        const dist = Math.sqrt(dx * dx + dy * dy);
+        // Travel less when the pointer is close, so pupils don't snap across the eye
+        const travel = Math.min(maxPupilOffset, dist / 4);
+        anim.offsetX = dist > 0 ? (dx / dist) * travel : 0;
+        anim.offsetY = dist > 0 ? (dy / dist) * travel : 0;
+      }
       drawEye(eye.x, eye.y, anim);
     }
   },
@@ -1,4 +1,4 @@
-import type { AnimationDefinition } from '../../runtime/types';
+import type { AnimationDefinition, Random } from '../../runtime/types';
 import { number, color, folder } from '../../runtime/params';
 
 interface AudioConstellationParams {
@@ -32,34 +32,33 @@ interface Particle {
   freqBand: 'bass' | 'mid' | 'high';
 }
 
-// State
-let particles: Particle[] = [];
-let smoothedAmplitude = 0;
-let smoothedBass = 0;
-let smoothedMid = 0;
-let smoothedHigh = 0;
-let canvasWidth = 0;
-let canvasHeight = 0;
-
-function initParticles(count: number, width: number, height: number) {
-  particles = [];
+interface ConstellationState {
+  particles: Particle[];
+  smoothedAmplitude: number;
+  smoothedBass: number;
+  smoothedMid: number;
+  smoothedHigh: number;
+  canvasWidth: number;
+  canvasHeight: number;
+}
+
+function initParticles(count: number, width: number, height: number, random: Random): Particle[] {
+  const particles: Particle[] = [];
   for (let i = 0; i < count; i++) {
-    const freqBands: Array<'bass' | 'mid' | 'high'> = ['bass', 'mid', 'high'];
     particles.push({
-      x: Math.random() * width,
-      y: Math.random() * height,
-      vx: (Math.random() - 0.5) * 2,
-      vy: (Math.random() - 0.5) * 2,
-      baseSize: 2 + Math.random() * 3,
-      phase: Math.random() * Math.PI * 2,
-      freqBand: freqBands[Math.floor(Math.random() * 3)],
+      x: random.range(0, width),
+      y: random.range(0, height),
+      vx: random.range(-1, 1),
+      vy: random.range(-1, 1),
+      baseSize: random.range(2, 5),
+      phase: random.range(0, Math.PI * 2),
+      freqBand: random.pick(['bass', 'mid', 'high'] as const),
     });
   }
-  canvasWidth = width;
-  canvasHeight = height;
+  return particles;
 }
 
-const animation: AnimationDefinition<AudioConstellationParams> = {
+const animation: AnimationDefinition<AudioConstellationParams, ConstellationState> = {
   id: 'audio-constellation',
   name: 'Audio Constellation',
   fps: 60,
@@ -67,6 +66,14 @@ const animation: AnimationDefinition<AudioConstellationParams> = {
   width: 600,
   height: 600,
   background: '#050510',
+  seed: 1,
+
+  // 2048-point FFT resolves the low end (~23Hz bins) for narrow bands
+  audio: {
+    fftSize: 2048,
+    logBins: 128,
+    bands: { bass: [20, 250], mid: [250, 4000], high: [4000, 16000] },
+  },
 
   params: {
     defaults: {
@@ -111,49 +118,85 @@ const animation: AnimationDefinition<AudioConstellationParams> = {
     },
   },
 
-  setup({ width, height, params }) {
-    initParticles(params.particleCount, width, height);
-    smoothedAmplitude = 0;
-    smoothedBass = 0;
-    smoothedMid = 0;
-    smoothedHigh = 0;
+  setup({ width, height, params, random }) {
+    return {
+      particles: initParticles(params.particleCount, width, height, random),
+      smoothedAmplitude: 0,
+      smoothedBass: 0,
+      smoothedMid: 0,
+      smoothedHigh: 0,
+      canvasWidth: width,
+      canvasHeight: height,
+    };
   },
 
-  render({ ctx, width, height, time, deltaTime, params, audio }) {
+  // Particles move and audio levels smooth in fixed 1/60s steps, so seeking replays them
+  update(state, dt, { width, height, time, params, audio, random }) {
     const {
-      scale,
       particleCount,
-      particleSize,
-      connectionDistance,
-      primaryColor,
-      secondaryColor,
-      backgroundColor,
-      lineColor,
       bassSensitivity,
       midSensitivity,
       highSensitivity,
       baseSpeed,
       smoothing,
-      pulseIntensity,
     } = params;
 
     // Reinitialize if particle count changed or canvas size changed
-    if (particles.length !== particleCount || canvasWidth !== width || canvasHeight !== height) {
-      initParticles(particleCount, width, height);
+    if (state.particles.length !== particleCount || state.canvasWidth !== width || state.canvasHeight !== height) {
+      state.particles = initParticles(particleCount, width, height, random);
+      state.canvasWidth = width;
+      state.canvasHeight = height;
     }
 
-    // Get audio data
+    // Smooth audio values
     const amplitude = audio?.amplitude ?? 0.5;
     const bass = audio?.bass ?? 0.4;
     const mid = audio?.mid ?? 0.35;
     const high = audio?.high ?? 0.3;
-    const isBeat = audio?.isBeat ?? false;
+    state.smoothedAmplitude = state.smoothedAmplitude * smoothing + amplitude * (1 - smoothing);
+    state.smoothedBass = state.smoothedBass * smoothing + bass * (1 - smoothing);
+    state.smoothedMid = state.smoothedMid * smoothing + mid * (1 - smoothing);
+    state.smoothedHigh = state.smoothedHigh * smoothing + high * (1 - smoothing);
 
-    // Smooth audio values
-    smoothedAmplitude = smoothedAmplitude * smoothing + amplitude * (1 - smoothing);
-    smoothedBass = smoothedBass * smoothing + bass * (1 - smoothing);
-    smoothedMid = smoothedMid * smoothing + mid * (1 - smoothing);
-    smoothedHigh = smoothedHigh * smoothing + high * (1 - smoothing);
+    for (const p of state.particles) {
+      // Get audio influence based on frequency band
+      const audioInfluence = getAudioInfluence(p, state, bassSensitivity, midSensitivity, highSensitivity);
+
+      // Update velocity based on audio
+      const speedMultiplier = baseSpeed * (1 + audioInfluence * 2);
+
+      // Add some noise to movement
+      const noiseX = Math.sin(time * 2 + p.phase) * 0.3;
+      const noiseY = Math.cos(time * 2 + p.phase * 1.3) * 0.3;
+
+      p.x += (p.vx + noiseX) * speedMultiplier * dt * 60;
+      p.y += (p.vy + noiseY) * speedMultiplier * dt * 60;
+
+      // Wrap around edges
+      if (p.x < 0) p.x = width;
+      if (p.x > width) p.x = 0;
+      if (p.y < 0) p.y = height;
+      if (p.y > height) p.y = 0;
+    }
+  },
+
+  render({ ctx, width, height, params, audio }, state) {
+    const {
+      scale,
+      particleSize,
+      connectionDistance,
+      primaryColor,
+      secondaryColor,
+      backgroundColor,
+      lineColor,
+      bassSensitivity,
+      midSensitivity,
+      highSensitivity,
+      pulseIntensity,
+    } = params;
+    const { particles, smoothedAmplitude } = state;
+
+    const isBeat = audio?.isBeat ?? false;
 
     // Clear background with slight fade for trail effect
     ctx.fillStyle = backgroundColor;
@@ -179,39 +222,13 @@ const animation: AnimationDefinition<AudioConstellationParams> = {
     // Calculate effective connection distance based on amplitude
     const effectiveConnectionDist = connectionDistance * (1 + smoothedAmplitude * pulseIntensity * 0.5);
 
-    // Update and draw particles
+    // Draw particles
     for (let i = 0; i < particles.length; i++) {
       const p = particles[i];
-      
-      // Get audio influence based on frequency band
-      let audioInfluence = smoothedMid * midSensitivity;
-      let particleColor = primaryColor;
-      
-      if (p.freqBand === 'bass') {
-        audioInfluence = smoothedBass * bassSensitivity;
-        particleColor = primaryColor;
-      } else if (p.freqBand === 'high') {
-        audioInfluence = smoothedHigh * highSensitivity;
-        particleColor = secondaryColor;
-      } else {
-        particleColor = lerpColor(primaryColor, secondaryColor, 0.5);
-      }
-
-      // Update velocity based on audio
-      const speedMultiplier = baseSpeed * (1 + audioInfluence * 2);
-      
-      // Add some noise to movement
-      const noiseX = Math.sin(time * 2 + p.phase) * 0.3;
-      const noiseY = Math.cos(time * 2 + p.phase * 1.3) * 0.3;
-
-      p.x += (p.vx + noiseX) * speedMultiplier * deltaTime * 60;
-      p.y += (p.vy + noiseY) * speedMultiplier * deltaTime * 60;
-
-      // Wrap around edges
-      if (p.x < 0) p.x = width;
-      if (p.x > width) p.x = 0;
-      if (p.y < 0) p.y = height;
-      if (p.y > height) p.y = 0;
+      const audioInfluence = getAudioInfluence(p, state, bassSensitivity, midSensitivity, highSensitivity);
+      const particleColor = p.freqBand === 'bass'
+        ? primaryColor
+        : p.freqBand === 'high' ? secondaryColor : lerpColor(primaryColor, secondaryColor, 0.5);
 
       // Calculate particle size based on audio
       const size = p.baseSize * particleSize * (1 + audioInfluence * pulseIntensity);
@@ -274,6 +291,18 @@ const animation: AnimationDefinition<AudioConstellationParams> = {
 };
 
 // Helper functions
+function getAudioInfluence(
+  p: Particle,
+  state: ConstellationState,
+  bassSensitivity: number,
+  midSensitivity: number,
+  highSensitivity: number
+): number {
+  if (p.freqBand === 'bass') return state.smoothedBass * bassSensitivity;
+  if (p.freqBand === 'high') return state.smoothedHigh * highSensitivity;
+  return state.smoothedMid * midSensitivity;
+}
+
 function hexToRgba(hex: string, alpha: number): string {
   if (hex.startsWith('rgba')) return hex;
   if (hex.startsWith('rgb')) {
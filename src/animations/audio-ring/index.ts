@@ -56,24 +56,24 @@ const animation: AnimationDefinition<AudioRingParams> = {
     schema: {
       ...folder('Layout', {
         scale: number({ value: 1, min: 0.1, max: 3, step: 0.1, label: 'Scale' }),
-        innerRadius: number({ value: 80, min: 20, max: 150, step: 5, label: 'Inner Radius' }),
-        barWidth: number({ value: 4, min: 1, max: 20, step: 1, label: 'Bar Width' }),
-        barCount: number({ value: 64, min: 16, max: 128, step: 8, label: 'Bar Count' }),
-        rotationSpeed: number({ value: 0.2, min: 0, max: 2, step: 0.1, label: 'Rotation Speed' }),
+        innerRadius: number({ value: 70, min: 20, max: 150, step: 5, label: 'Inner Radius' }),
+        barWidth: number({ value: 1, min: 1, max: 20, step: 1, label: 'Bar Width' }),
+        barCount: number({ value: 48, min: 16, max: 128, step: 8, label: 'Bar Count' }),
+        rotationSpeed: number({ value: 0.3, min: 0, max: 2, step: 0.1, label: 'Rotation Speed' }),
       }),
       ...folder('Colors', {
-        primaryColor: color({ value: '#00ffaa', label: 'Primary Color' }),
+        primaryColor: color({ value: '#b72a9d', label: 'Primary Color' }),
         secondaryColor: color({ value: '#ff00aa', label: 'Secondary Color' }),
         backgroundColor: color({ value: '#0a0a0f', label: 'Background' }),
-        glowColor: color({ value: '#00ffaa', label: 'Glow Color' }),
+        glowColor: color({ value: '#e175ff', label: 'Glow Color' }),
       }),
       ...folder('Audio Sensitivity', {
-        bassSensitivity: number({ value: 1.5, min: 0, max: 3, step: 0.1, label: 'Bass' }),
-        midSensitivity: number({ value: 1.0, min: 0, max: 3, step: 0.1, label: 'Mid' }),
-        highSensitivity: number({ value: 0.8, min: 0, max: 3, step: 0.1, label: 'High' }),
+        bassSensitivity: number({ value: 2.6, min: 0, max: 3, step: 0.1, label: 'Bass' }),
+        midSensitivity: number({ value: 2, min: 0, max: 3, step: 0.1, label: 'Mid' }),
+        highSensitivity: number({ value: 2.2, min: 0, max: 3, step: 0.1, label: 'High' }),
       }),
       ...folder('Animation', {
-        smoothing: number({ value: 0.85, min: 0, max: 0.99, step: 0.01, label: 'Smoothing' }),
+        smoothing: number({ value: 0.4, min: 0, max: 0.99, step: 0.01, label: 'Smoothing' }),
         glowIntensity: number({ value: 0.8, min: 0, max: 2, step: 0.1, label: 'Glow Intensity' }),
       }),
     },
@@ -146,10 +146,11 @@ const animation: AnimationDefinition<AudioRingParams> = {
     ctx.arc(0, 0, glowRadius * 1.5, 0, Math.PI * 2);
     ctx.fill();
 
-    // Beat pulse effect
-    if (isBeat) {
+    // Beat pulse effect, decaying over the beat once a tempo is known
+    const beatPulse = audio && audio.bpm > 0 ? Math.pow(1 - audio.beatPhase, 3) : isBeat ? 1 : 0;
+    if (beatPulse > 0.01) {
       const pulseGradient = ctx.createRadialGradient(0, 0, innerRadius, 0, 0, innerRadius * 2);
-      pulseGradient.addColorStop(0, hexToRgba(primaryColor, 0.3));
+      pulseGradient.addColorStop(0, hexToRgba(primaryColor, 0.3 * beatPulse));
       pulseGradient.addColorStop(1, hexToRgba(primaryColor, 0));
       ctx.fillStyle = pulseGradient;
       ctx.beginPath();
@@ -34,6 +34,9 @@ const animation: AnimationDefinition<AudioWaveformParams> = {
   height: 400,
   background: '#0f0f1a',
 
+  // Long window for a detailed waveform; log bins spread the spectrum evenly
+  audio: { fftSize: 2048, logBins: 128 },
+
   params: {
     defaults: {
       scale: 0.7,
@@ -52,24 +55,24 @@ const animation: AnimationDefinition<AudioWaveformParams> = {
     },
     schema: {
       ...folder('Layout', {
-        scale: number({ value: 1, min: 0.1, max: 3, step: 0.1, label: 'Scale' }),
-        waveHeight: number({ value: 120, min: 20, max: 200, step: 10, label: 'Wave Height' }),
-        lineWidth: number({ value: 3, min: 1, max: 10, step: 0.5, label: 'Line Width' }),
-        mirrorWave: boolean({ value: true, label: 'Mirror Wave' }),
+        scale: number({ value: 0.7, min: 0.1, max: 3, step: 0.1, label: 'Scale' }),
+        waveHeight: number({ value: 70, min: 20, max: 200, step: 10, label: 'Wave Height' }),
+        lineWidth: number({ value: 1.5, min: 1, max: 10, step: 0.5, label: 'Line Width' }),
+        mirrorWave: boolean({ value: false, label: 'Mirror Wave' }),
       }),
       ...folder('Colors', {
         primaryColor: color({ value: '#00d4ff', label: 'Primary Color' }),
-        secondaryColor: color({ value: '#ff6b00', label: 'Secondary Color' }),
-        backgroundColor: color({ value: '#0f0f1a', label: 'Background' }),
+        secondaryColor: color({ value: '#004cff', label: 'Secondary Color' }),
+        backgroundColor: color({ value: '#070709', label: 'Background' }),
         glowColor: color({ value: '#00d4ff', label: 'Glow Color' }),
       }),
       ...folder('Audio Sensitivity', {
-        amplitudeSensitivity: number({ value: 1.2, min: 0, max: 3, step: 0.1, label: 'Amplitude' }),
-        bassSensitivity: number({ value: 1.5, min: 0, max: 3, step: 0.1, label: 'Bass Boost' }),
+        amplitudeSensitivity: number({ value: 2.6, min: 0, max: 3, step: 0.1, label: 'Amplitude' }),
+        bassSensitivity: number({ value: 1.9, min: 0, max: 3, step: 0.1, label: 'Bass Boost' }),
       }),
       ...folder('Animation', {
-        smoothing: number({ value: 0.7, min: 0, max: 0.99, step: 0.01, label: 'Smoothing' }),
-        glowIntensity: number({ value: 1.0, min: 0, max: 2, step: 0.1, label: 'Glow Intensity' }),
+        smoothing: number({ value: 0.33, min: 0, max: 0.99, step: 0.01, label: 'Smoothing' }),
+        glowIntensity: number({ value: 1.4, min: 0, max: 2, step: 0.1, label: 'Glow Intensity' }),
         waveStyle: select({
           value: 'smooth',
           options: [
@@ -39,7 +39,7 @@ interface AppleClockParams {
 const TWO_PI = Math.PI * 2;
 
 const animation: AnimationDefinition<AppleClockParams> = {
-  id: 'apple-clock',
+  id: 'clock',
   name: 'Apple Clock',
   fps: 60,
   durationMs: 60000, // 60 seconds = one full second-hand rotation
@@ -71,29 +71,29 @@ const animation: AnimationDefinition<AppleClockParams> = {
     },
     schema: {
       ...folder('Layout', {
-        scale: number({ value: 1, min: 0.1, max: 3, step: 0.1, label: 'Scale' }),
-        cornerRadius: number({ value: 58, min: 0, max: 205, step: 1, label: 'Corner Radius' }),
-        padding: number({ value: 22, min: 0, max: 80, step: 1, label: 'Padding' }),
+        scale: number({ value: 0.4, min: 0.1, max: 3, step: 0.1, label: 'Scale' }),
+        cornerRadius: number({ value: 205, min: 0, max: 205, step: 1, label: 'Corner Radius' }),
+        padding: number({ value: 33, min: 0, max: 80, step: 1, label: 'Padding' }),
       }),
       ...folder('Time', {
         hour: number({ value: 10, min: 1, max: 12, step: 1, label: 'Hour (1-12)' }),
-        minute: number({ value: 9, min: 0, max: 59, step: 1, label: 'Minute (0-59)' }),
+        minute: number({ value: 35, min: 0, max: 59, step: 1, label: 'Minute (0-59)' }),
       }),
       ...folder('Face', {
-        faceColor: color({ value: '#FFFFFF', label: 'Face Color' }),
-        faceGradientColor: color({ value: '#FFFFFF', label: 'Gradient Color' }),
-        borderColor: color({ value: '#333333', label: 'Border Color' }),
-        borderWidth: number({ value: 0, min: 0, max: 12, step: 0.5, label: 'Border Width' }),
+        faceColor: color({ value: '#1b0815', label: 'Face Color' }),
+        faceGradientColor: color({ value: '#0a0a0a', label: 'Gradient Color' }),
+        borderColor: color({ value: '#707070', label: 'Border Color' }),
+        borderWidth: number({ value: 4, min: 0, max: 12, step: 0.5, label: 'Border Width' }),
       }),
       ...folder('Hands', {
-        handColor: color({ value: '#1D1D1F', label: 'Hand Color' }),
-        secondHandColor: color({ value: '#FF9500', label: 'Second Hand' }),
-        handGlow: number({ value: 0, min: 0, max: 40, step: 1, label: 'Hand Glow' }),
-        handGlowColor: color({ value: '#ffffff', label: 'Glow Color' }),
+        handColor: color({ value: '#f5f5f5', label: 'Hand Color' }),
+        secondHandColor: color({ value: '#cb3a87', label: 'Second Hand' }),
+        handGlow: number({ value: 16, min: 0, max: 40, step: 1, label: 'Hand Glow' }),
+        handGlowColor: color({ value: '#761e56', label: 'Glow Color' }),
       }),
       ...folder('Numbers', {
-        numberColor: color({ value: '#6E6E73', label: 'Number Color' }),
-        numberSize: number({ value: 38, min: 16, max: 64, step: 1, label: 'Font Size' }),
+        numberColor: color({ value: '#c2c2c2', label: 'Number Color' }),
+        numberSize: number({ value: 41, min: 16, max: 64, step: 1, label: 'Font Size' }),
         numberFont: select({
           value: 'SF Pro',
           options: [
@@ -112,8 +112,8 @@ const animation: AnimationDefinition<AppleClockParams> = {
         }),
       }),
       ...folder('Colors', {
-        backgroundColor: color({ value: '#E8E8ED', label: 'Background' }),
-        tickColor: color({ value: '#8E8E93', label: 'Tick Marks' }),
+        backgroundColor: color({ value: '#d1d1d1', label: 'Background' }),
+        tickColor: color({ value: '#404040', label: 'Tick Marks' }),
       }),
       ...folder('Animation', {
         speed: number({ value: 1, min: 0.1, max: 10, step: 0.1, label: 'Speed' }),
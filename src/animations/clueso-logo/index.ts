@@ -42,6 +42,8 @@ const animation: AnimationDefinition<CluesoLogoParams> = {
   width: 800,    // 16:9 aspect ratio
   height: 450,
   background: '#FFFFFF',
+  layout: 'fit',
+  formats: ['16:9', '1:1', '9:16', '4:5'],
 
   params: {
     defaults: {
@@ -56,18 +58,18 @@ const animation: AnimationDefinition<CluesoLogoParams> = {
     },
     schema: {
       ...folder('Layout', {
-        scale: number({ value: 1.2, min: 0.5, max: 3, step: 0.1, label: 'Scale' }),
+        scale: number({ value: 0.5, min: 0.5, max: 3, step: 0.1, label: 'Scale' }),
       }),
       ...folder('Colors', {
         gradientStart: color({ value: '#FE89EB', label: 'Gradient Start' }),
         gradientEnd: color({ value: '#C12EAF', label: 'Gradient End' }),
-        textColor: color({ value: '#171717', label: 'Text Color' }),
-        backgroundColor: color({ value: '#FFFFFF', label: 'Background' }),
+        textColor: color({ value: '#ebebeb', label: 'Text Color' }),
+        backgroundColor: color({ value: '#0f0f0f', label: 'Background' }),
       }),
       ...folder('Animation', {
         staggerDelay: number({ value: 0.08, min: 0, max: 0.3, step: 0.01, label: 'Stagger Delay' }),
-        animationDuration: number({ value: 0.6, min: 0.2, max: 2, step: 0.1, label: 'Duration' }),
-        scaleFrom: number({ value: 0.5, min: 0, max: 1, step: 0.1, label: 'Scale From' }),
+        animationDuration: number({ value: 0.4, min: 0.2, max: 2, step: 0.1, label: 'Duration' }),
+        scaleFrom: number({ value: 0.8, min: 0, max: 1, step: 0.1, label: 'Scale From' }),
       }),
     },
   },
@@ -122,11 +122,11 @@ const animation: AnimationDefinition<CodeMagnifierParams> = {
     },
     schema: {
       ...folder('Layout', {
-        scale: number({ value: 1, min: 0.1, max: 3, step: 0.1, label: 'Scale' }),
-        lensRadius: number({ value: 250, min: 80, max: 350, step: 5, label: 'Lens Radius' }),
-        handleLength: number({ value: 200, min: 60, max: 300, step: 5, label: 'Handle Length' }),
-        handleWidth: number({ value: 50, min: 20, max: 80, step: 2, label: 'Handle Width' }),
-        rimWidth: number({ value: 28, min: 8, max: 40, step: 1, label: 'Rim Width' }),
+        scale: number({ value: 0.8, min: 0.1, max: 3, step: 0.1, label: 'Scale' }),
+        lensRadius: number({ value: 215, min: 80, max: 350, step: 5, label: 'Lens Radius' }),
+        handleLength: number({ value: 170, min: 60, max: 300, step: 5, label: 'Handle Length' }),
+        handleWidth: number({ value: 24, min: 20, max: 80, step: 2, label: 'Handle Width' }),
+        rimWidth: number({ value: 24, min: 8, max: 40, step: 1, label: 'Rim Width' }),
       }),
       ...folder('Colors', {
         backgroundColor: color({ value: '#C266D1', label: 'Background' }),
@@ -138,8 +138,8 @@ const animation: AnimationDefinition<CodeMagnifierParams> = {
       }),
       ...folder('Animation', {
         speed: number({ value: 1, min: 0.1, max: 3, step: 0.1, label: 'Speed' }),
-        fontSize: number({ value: 24, min: 10, max: 36, step: 1, label: 'Font Size' }),
-        lineHeight: number({ value: 36, min: 16, max: 50, step: 1, label: 'Line Height' }),
+        fontSize: number({ value: 19, min: 10, max: 36, step: 1, label: 'Font Size' }),
+        lineHeight: number({ value: 27, min: 16, max: 50, step: 1, label: 'Line Height' }),
       }),
     },
   },
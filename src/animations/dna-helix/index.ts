@@ -41,6 +41,7 @@ const animation: AnimationDefinition<DNAHelixParams> = {
   width: 1280,
   height: 720,
   background: '#F8F8F8',
+  seed: 1,
 
   params: {
     defaults: {
@@ -62,34 +63,34 @@ const animation: AnimationDefinition<DNAHelixParams> = {
     },
     schema: {
       ...folder('Layout', {
-        scale: number({ value: 1, min: 0.1, max: 3, step: 0.1, label: 'Scale' }),
-        strandCount: number({ value: 10, min: 4, max: 50, step: 1, label: 'Strand Count' }),
-        strandSpacing: number({ value: 60, min: 30, max: 100, step: 5, label: 'Strand Spacing' }),
+        scale: number({ value: 0.2, min: 0.1, max: 3, step: 0.1, label: 'Scale' }),
+        strandCount: number({ value: 16, min: 4, max: 50, step: 1, label: 'Strand Count' }),
+        strandSpacing: number({ value: 65, min: 30, max: 100, step: 5, label: 'Strand Spacing' }),
       }),
       ...folder('Colors', {
-        backgroundColor: color({ value: '#F8F8F8', label: 'Background' }),
-        primaryColor: color({ value: '#7C4DFF', label: 'Primary Color' }),
-        secondaryColor: color({ value: '#B388FF', label: 'Secondary Color' }),
-        backboneColor: color({ value: '#9E9E9E', label: 'Backbone Color' }),
+        backgroundColor: color({ value: '#f7f7f7', label: 'Background' }),
+        primaryColor: color({ value: '#ec6580', label: 'Primary Color' }),
+        secondaryColor: color({ value: '#527ee5', label: 'Secondary Color' }),
+        backboneColor: color({ value: '#c2c2c2', label: 'Backbone Color' }),
       }),
       ...folder('Circles', {
-        circleMinSize: number({ value: 8, min: 4, max: 20, step: 1, label: 'Min Size' }),
-        circleMaxSize: number({ value: 28, min: 15, max: 50, step: 1, label: 'Max Size' }),
+        circleMinSize: number({ value: 4, min: 4, max: 20, step: 1, label: 'Min Size' }),
+        circleMaxSize: number({ value: 29, min: 15, max: 50, step: 1, label: 'Max Size' }),
       }),
       ...folder('Animation', {
-        rotationSpeed: number({ value: 1, min: 0.1, max: 3, step: 0.1, label: 'Rotation Speed' }),
-        verticalAmplitude: number({ value: 80, min: 20, max: 150, step: 5, label: 'Vertical Amplitude' }),
-        wobbleAmount: number({ value: 0, min: 0, max: 30, step: 1, label: 'Wobble Amount' }),
+        rotationSpeed: number({ value: 0.7, min: 0.1, max: 3, step: 0.1, label: 'Rotation Speed' }),
+        verticalAmplitude: number({ value: 150, min: 20, max: 150, step: 5, label: 'Vertical Amplitude' }),
+        wobbleAmount: number({ value: 12, min: 0, max: 30, step: 1, label: 'Wobble Amount' }),
         wobbleSpeed: number({ value: 2, min: 0.5, max: 5, step: 0.1, label: 'Wobble Speed' }),
       }),
       ...folder('Visual Options', {
         showBackbone: boolean({ value: true, label: 'Show Backbone' }),
-        showStipple: boolean({ value: true, label: 'Show Stipple Effect' }),
+        showStipple: boolean({ value: false, label: 'Show Stipple Effect' }),
       }),
     },
   },
 
-  render({ ctx, time, width, height, params }) {
+  render({ ctx, time, width, height, params, random }) {
     const {
       scale,
       strandCount,
@@ -138,10 +139,10 @@ const animation: AnimationDefinition<DNAHelixParams> = {
         
         for (let i = 0; i < dotCount; i++) {
           const angle = (i / dotCount) * Math.PI * 2 + time;
-          const dist = Math.random() * innerRadius;
+          const dist = random.next() * innerRadius;
           const dotX = x + Math.cos(angle) * dist;
           const dotY = y + Math.sin(angle) * dist;
-          const dotSize = Math.random() * 1.5 + 0.5;
+          const dotSize = random.range(0.5, 2);
           
           ctx.beginPath();
           ctx.arc(dotX, dotY, dotSize, 0, Math.PI * 2);
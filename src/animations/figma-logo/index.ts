@@ -106,10 +106,10 @@ const animation: AnimationDefinition<FigmaLogoParams> = {
     },
     schema: {
       ...folder('Layout', {
-        scale: number({ value: 1.4, min: 0.5, max: 3, step: 0.1, label: 'Scale' }),
+        scale: number({ value: 0.5, min: 0.5, max: 3, step: 0.1, label: 'Scale' }),
       }),
       ...folder('Colors', {
-        backgroundColor: color({ value: '#1A1A1A', label: 'Background' }),
+        backgroundColor: color({ value: '#0d0d0d', label: 'Background' }),
         redColor: color({ value: '#FF0000', label: 'Red (Top Left)' }),
         orangeColor: color({ value: '#FF5600', label: 'Orange (Top Right)' }),
         purpleColor: color({ value: '#9542FF', label: 'Purple (Middle Left)' }),
@@ -117,10 +117,10 @@ const animation: AnimationDefinition<FigmaLogoParams> = {
         greenColor: color({ value: '#00D962', label: 'Green (Bottom)' }),
       }),
       ...folder('Animation', {
-        speed: number({ value: 1, min: 0.25, max: 3, step: 0.25, label: 'Speed' }),
-        staggerDelay: number({ value: 0.1, min: 0.02, max: 0.3, step: 0.02, label: 'Stagger Delay' }),
+        speed: number({ value: 2.25, min: 0.25, max: 3, step: 0.25, label: 'Speed' }),
+        staggerDelay: number({ value: 0.02, min: 0.02, max: 0.3, step: 0.02, label: 'Stagger Delay' }),
         entranceStyle: select({
-          value: 'translate',
+          value: 'scale',
           options: ['translate', 'scale', 'both'],
           label: 'Entrance Style',
         }),
@@ -97,30 +97,30 @@ const animation: AnimationDefinition<FramerLogoParams> = {
     },
     schema: {
       ...folder('Layout', {
-        scale: number({ value: 1.4, min: 0.5, max: 3, step: 0.1, label: 'Scale' }),
-        logoGap: number({ value: 3, min: 0, max: 10, step: 0.5, label: 'Piece Gap' }),
+        scale: number({ value: 0.7, min: 0.5, max: 3, step: 0.1, label: 'Scale' }),
+        logoGap: number({ value: 0, min: 0, max: 10, step: 0.5, label: 'Piece Gap' }),
       }),
       ...folder('Colors', {
-        backgroundColor: color({ value: '#0A0A0A', label: 'Background' }),
-        logoColor: color({ value: '#0B5CFA', label: 'Logo Color' }),
+        backgroundColor: color({ value: '#0a0a0a', label: 'Background' }),
+        logoColor: color({ value: '#ffffff', label: 'Logo Color' }),
       }),
       ...folder('Animation', {
-        speed: number({ value: 1.5, min: 0.25, max: 3, step: 0.25, label: 'Speed' }),
-        staggerDelay: number({ value: 0.06, min: 0.02, max: 0.3, step: 0.02, label: 'Stagger Delay' }),
+        speed: number({ value: 2.75, min: 0.25, max: 3, step: 0.25, label: 'Speed' }),
+        staggerDelay: number({ value: 0.1, min: 0.02, max: 0.3, step: 0.02, label: 'Stagger Delay' }),
         entranceStyle: select({
-          value: 'both',
+          value: 'scale',
           options: ['translate', 'scale', 'both'],
           label: 'Entrance Style',
         }),
-        translationDistance: number({ value: 100, min: 20, max: 300, step: 10, label: 'Slide Distance' }),
+        translationDistance: number({ value: 20, min: 20, max: 300, step: 10, label: 'Slide Distance' }),
       }),
       ...folder('Effects', {
         glowEnabled: boolean({ value: true, label: 'Glow' }),
-        glowColor: color({ value: '#0B5CFA', label: 'Glow Color' }),
+        glowColor: color({ value: '#414ce1', label: 'Glow Color' }),
         glowIntensity: number({ value: 0.6, min: 0, max: 1, step: 0.05, label: 'Glow Intensity' }),
-        glowRadius: number({ value: 40, min: 5, max: 100, step: 5, label: 'Glow Radius' }),
+        glowRadius: number({ value: 60, min: 5, max: 100, step: 5, label: 'Glow Radius' }),
         innerShadow: boolean({ value: true, label: 'Inner Shadow' }),
-        innerShadowIntensity: number({ value: 0.25, min: 0, max: 0.6, step: 0.05, label: 'Shadow Intensity' }),
+        innerShadowIntensity: number({ value: 0, min: 0, max: 0.6, step: 0.05, label: 'Shadow Intensity' }),
       }),
     },
   },
@@ -60,23 +60,23 @@ const animation: AnimationDefinition<GlowingExponentialParams> = {
     },
     schema: {
       ...folder('Layout', {
-        scale: number({ value: 1, min: 0.1, max: 3, step: 0.1, label: 'Scale' }),
-        curveExponent: number({ value: 3, min: 1.5, max: 6, step: 0.1, label: 'Exponent' }),
-        curveAmplitude: number({ value: 0.85, min: 0.2, max: 1.5, step: 0.05, label: 'Amplitude' }),
-        lineWidth: number({ value: 3, min: 1, max: 8, step: 0.5, label: 'Line Width' }),
+        scale: number({ value: 2.1, min: 0.1, max: 3, step: 0.1, label: 'Scale' }),
+        curveExponent: number({ value: 3.5, min: 1.5, max: 6, step: 0.1, label: 'Exponent' }),
+        curveAmplitude: number({ value: 1.5, min: 0.2, max: 1.5, step: 0.05, label: 'Amplitude' }),
+        lineWidth: number({ value: 2, min: 1, max: 8, step: 0.5, label: 'Line Width' }),
       }),
       ...folder('Colors', {
-        primaryColor: color({ value: '#00ff88', label: 'Curve Color' }),
-        glowColor: color({ value: '#00ff88', label: 'Glow Color' }),
+        primaryColor: color({ value: '#7a4c33', label: 'Curve Color' }),
+        glowColor: color({ value: '#ff6600', label: 'Glow Color' }),
         backgroundColor: color({ value: '#050510', label: 'Background' }),
       }),
       ...folder('Glow', {
-        glowIntensity: number({ value: 40, min: 5, max: 100, step: 5, label: 'Glow Intensity' }),
-        glowLayers: number({ value: 4, min: 1, max: 8, step: 1, label: 'Glow Layers' }),
-        showParticles: boolean({ value: true, label: 'Show Particles' }),
+        glowIntensity: number({ value: 5, min: 5, max: 100, step: 5, label: 'Glow Intensity' }),
+        glowLayers: number({ value: 1, min: 1, max: 8, step: 1, label: 'Glow Layers' }),
+        showParticles: boolean({ value: false, label: 'Show Particles' }),
       }),
       ...folder('Animation', {
-        speed: number({ value: 1, min: 0.1, max: 3, step: 0.1, label: 'Speed' }),
+        speed: number({ value: 0.7, min: 0.1, max: 3, step: 0.1, label: 'Speed' }),
         trailLength: number({ value: 0.15, min: 0.02, max: 0.4, step: 0.01, label: 'Trail Length' }),
       }),
     },
@@ -1,10 +1,12 @@
 import type { AnimationDefinition } from '../../runtime/types';
 import { number, color, boolean, folder, select } from '../../runtime/params';
+import { resolvePointer } from '../../runtime/input';
 
 /**
  * Grid Repulsion Animation
  * A main dot moves along a path and repels neighboring grid points
- * based on proximity influence
+ * based on proximity influence. In the player the dot follows the
+ * pointer while it's over the canvas.
  */
 
 interface GridRepulsionParams {
@@ -49,6 +51,10 @@ const animation: AnimationDefinition<GridRepulsionParams> = {
   width: 1920,
   height: 1080,
   background: '#000000',
+  interactive: true,
+  // The grid is centered, so it lays out at any size
+  layout: 'responsive',
+  formats: ['16:9', '1:1', '9:16', '4:5'],
 
   params: {
     defaults: {
@@ -75,10 +81,10 @@ const animation: AnimationDefinition<GridRepulsionParams> = {
     },
     schema: {
       ...folder('Layout', {
-        scale: number({ value: 1, min: 0.1, max: 3, step: 0.1, label: 'Scale' }),
-        gridDensityX: number({ value: 30, min: 5, max: 60, step: 1, label: 'Grid Columns' }),
-        gridDensityY: number({ value: 17, min: 5, max: 40, step: 1, label: 'Grid Rows' }),
-        gridSpacing: number({ value: 60, min: 20, max: 120, step: 5, label: 'Grid Spacing' }),
+        scale: number({ value: 0.5, min: 0.1, max: 3, step: 0.1, label: 'Scale' }),
+        gridDensityX: number({ value: 60, min: 5, max: 60, step: 1, label: 'Grid Columns' }),
+        gridDensityY: number({ value: 35, min: 5, max: 40, step: 1, label: 'Grid Rows' }),
+        gridSpacing: number({ value: 75, min: 20, max: 120, step: 5, label: 'Grid Spacing' }),
       }),
       ...folder('Shape', {
         shape: select({ 
@@ -92,25 +98,25 @@ const animation: AnimationDefinition<GridRepulsionParams> = {
           ], 
           label: 'Shape Type' 
         }),
-        shapeSize: number({ value: 4, min: 1, max: 20, step: 1, label: 'Shape Size' }),
+        shapeSize: number({ value: 6, min: 1, max: 20, step: 1, label: 'Shape Size' }),
       }),
       ...folder('Colors', {
-        backgroundColor: color({ value: '#000000', label: 'Background' }),
-        gridColor: color({ value: '#FFFFFF', label: 'Grid Color' }),
-        mainDotColor: color({ value: '#FF4444', label: 'Main Dot Color' }),
+        backgroundColor: color({ value: '#030303', label: 'Background' }),
+        gridColor: color({ value: '#7a7a7a', label: 'Grid Color' }),
+        mainDotColor: color({ value: '#bc3838', label: 'Main Dot Color' }),
       }),
       ...folder('Main Dot', {
         showMainDot: boolean({ value: true, label: 'Show Main Dot' }),
-        mainDotSize: number({ value: 12, min: 5, max: 40, step: 1, label: 'Main Dot Size' }),
+        mainDotSize: number({ value: 7, min: 5, max: 40, step: 1, label: 'Main Dot Size' }),
       }),
       ...folder('Repulsion', {
-        repulsionRadius: number({ value: 150, min: 50, max: 400, step: 10, label: 'Repulsion Radius' }),
-        repulsionStrength: number({ value: 60, min: 10, max: 200, step: 5, label: 'Repulsion Strength' }),
-        falloffPower: number({ value: 2, min: 0.5, max: 5, step: 0.1, label: 'Falloff Power' }),
+        repulsionRadius: number({ value: 370, min: 50, max: 400, step: 10, label: 'Repulsion Radius' }),
+        repulsionStrength: number({ value: 105, min: 10, max: 200, step: 5, label: 'Repulsion Strength' }),
+        falloffPower: number({ value: 2.6, min: 0.5, max: 5, step: 0.1, label: 'Falloff Power' }),
       }),
       ...folder('Path', {
         pathType: select({ 
-          value: 'circle', 
+          value: 'horizontal', 
           options: [
             { label: 'Circle', value: 'circle' },
             { label: 'Ellipse', value: 'ellipse' },
@@ -124,16 +130,16 @@ const animation: AnimationDefinition<GridRepulsionParams> = {
           ], 
           label: 'Path Type' 
         }),
-        pathWidth: number({ value: 300, min: 50, max: 800, step: 10, label: 'Path Width' }),
-        pathHeight: number({ value: 200, min: 50, max: 500, step: 10, label: 'Path Height' }),
-        pathSpeed: number({ value: 1, min: 0.1, max: 5, step: 0.1, label: 'Path Speed' }),
+        pathWidth: number({ value: 800, min: 50, max: 800, step: 10, label: 'Path Width' }),
+        pathHeight: number({ value: 490, min: 50, max: 500, step: 10, label: 'Path Height' }),
+        pathSpeed: number({ value: 2.2, min: 0.1, max: 5, step: 0.1, label: 'Path Speed' }),
         pathOffsetX: number({ value: 0, min: -500, max: 500, step: 10, label: 'Path Offset X' }),
         pathOffsetY: number({ value: 0, min: -300, max: 300, step: 10, label: 'Path Offset Y' }),
       }),
     },
   },
 
-  render({ ctx, width, height, progress, params }) {
+  render({ ctx, width, height, progress, params, input }) {
     const {
       scale,
       gridDensityX,
@@ -247,6 +253,13 @@ const animation: AnimationDefinition<GridRepulsionParams> = {
     const centerX = width / 2;
     const centerY = height / 2;
 
+    // Follow the pointer instead of the path while it's over the canvas
+    const pointer = resolvePointer(input, { x: centerX + mainDotX * scale, y: centerY + mainDotY * scale });
+    if (pointer.live) {
+      mainDotX = (pointer.x - centerX) / scale;
+      mainDotY = (pointer.y - centerY) / scale;
+    }
+
     // Calculate grid to fill entire canvas
     const totalGridWidth = gridDensityX * gridSpacing;
     const totalGridHeight = gridDensityY * gridSpacing;
@@ -180,25 +180,25 @@ const animation: AnimationDefinition<IBMLogoParams> = {
           options: ['vertical', 'horizontal'],
           label: 'Direction',
         }),
-        staggerDelay: number({ value: 0.08, min: 0.02, max: 0.3, step: 0.01, label: 'Stagger Delay' }),
-        revealDuration: number({ value: 0.4, min: 0.1, max: 1, step: 0.05, label: 'Reveal Duration' }),
+        staggerDelay: number({ value: 0.11, min: 0.02, max: 0.3, step: 0.01, label: 'Stagger Delay' }),
+        revealDuration: number({ value: 0.8, min: 0.1, max: 1, step: 0.05, label: 'Reveal Duration' }),
         revealStyle: select({
-          value: 'scanline',
+          value: 'wipe',
           options: ['scanline', 'wipe', 'fade', 'scale'],
           label: 'Reveal Style',
         }),
         loopAnimation: boolean({ value: true, label: 'Loop' }),
       }),
       ...folder('Colors', {
-        backgroundColor: color({ value: '#000000', label: 'Background' }),
-        stripeColor: color({ value: '#FCFCFC', label: 'Stripe Color' }),
+        backgroundColor: color({ value: '#0F64FF', label: 'Background' }),
+        stripeColor: color({ value: '#ffffff', label: 'Stripe Color' }),
       }),
       ...folder('Effects', {
-        glowIntensity: number({ value: 0.3, min: 0, max: 1, step: 0.1, label: 'Glow Intensity' }),
+        glowIntensity: number({ value: 0.8, min: 0, max: 1, step: 0.1, label: 'Glow Intensity' }),
         glowSize: number({ value: 8, min: 0, max: 30, step: 2, label: 'Glow Size' }),
       }),
       ...folder('Layout', {
-        scale: number({ value: 1, min: 0.5, max: 2, step: 0.1, label: 'Scale' }),
+        scale: number({ value: 0.5, min: 0.5, max: 2, step: 0.1, label: 'Scale' }),
       }),
     },
   },
@@ -0,0 +1,25 @@
+import type { SequenceDefinition } from '../../runtime/sequencer';
+
+/**
+ * Logo Reel
+ * The logo reveals back-to-back, one transition of each kind
+ */
+
+const sequence: SequenceDefinition = {
+  id: 'logo-reel',
+  name: 'Logo Reel',
+  fps: 60,
+  width: 800,    // 16:9 aspect ratio
+  height: 450,
+  background: '#0A0A0A',
+
+  clips: [
+    { animation: 'clueso-logo', params: { backgroundColor: '#0A0A0A' } },
+    { animation: 'figma-logo', transition: { type: 'crossfade', durationMs: 600 } },
+    { animation: 'framer-logo', transition: { type: 'wipe', direction: 'right' } },
+    { animation: 'slack-logo', durationMs: 3500, transition: { type: 'slide', direction: 'left' } },
+    { animation: 'ibm-logo', transition: { type: 'cut' } },
+  ],
+};
+
+export default sequence;
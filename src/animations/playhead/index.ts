@@ -33,12 +33,12 @@ const animation: AnimationDefinition<PlayheadParams> = {
     },
     schema: {
       ...folder('Layout', {
-        scale: number({ value: 1, min: 0.1, max: 3, step: 0.1, label: 'Scale' }),
-        moveAmount: number({ value: 4, min: 1, max: 8, step: 0.5, label: 'Move Amount' }),
+        scale: number({ value: 0.6, min: 0.1, max: 3, step: 0.1, label: 'Scale' }),
+        moveAmount: number({ value: 4.5, min: 1, max: 8, step: 0.5, label: 'Move Amount' }),
       }),
       ...folder('Colors', {
-        strokeColor: color({ value: '#353535', label: 'Stroke Color' }),
-        backgroundColor: color({ value: '#FFFFFF', label: 'Background' }),
+        strokeColor: color({ value: '#d79fdb', label: 'Stroke Color' }),
+        backgroundColor: color({ value: '#641599', label: 'Background' }),
       }),
       ...folder('Animation', {
         speed: number({ value: 1, min: 0.1, max: 3, step: 0.1, label: 'Speed' }),
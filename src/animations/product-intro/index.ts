@@ -0,0 +1,27 @@
+import type { CompositionDefinition } from '../../runtime/composition';
+
+/**
+ * Product Intro
+ * The Clueso logo reveal over the grid repulsion background
+ */
+
+const composition: CompositionDefinition = {
+  id: 'product-intro',
+  name: 'Product Intro',
+  fps: 60,
+  width: 1920,   // 16:9 aspect ratio
+  height: 1080,
+  background: '#000000',
+
+  layers: [
+    { animation: 'grid-repulsion', opacity: 0.6 },
+    {
+      animation: 'clueso-logo',
+      scale: 1.5,
+      timeOffset: 1,
+      params: { backgroundColor: 'transparent', textColor: '#ebebeb' },
+    },
+  ],
+};
+
+export default composition;
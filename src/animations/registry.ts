@@ -6,12 +6,14 @@ import type {
   AnimationEntry, 
   AnimationMeta 
 } from '../runtime/types';
+import { isComposition, type CompositionDefinition } from '../runtime/composition';
+import { isSequence, resolveDefinition, type SequenceDefinition } from '../runtime/sequencer';
 
 // Use Vite's import.meta.glob to auto-discover animations
 // Each animation folder should have an index.ts and optionally a meta.json
-// Supports both full AnimationDefinition and SimpleAnimationDefinition formats
+// Supports full AnimationDefinition, SimpleAnimationDefinition, composition and sequence formats
 const animationModules = import.meta.glob<{ 
-  default?: AnimationDefinition;
+  default?: AnimationDefinition | CompositionDefinition | SequenceDefinition;
   simpleCircle?: SimpleAnimationDefinition;
   [key: string]: any;
 }>(
@@ -29,12 +31,25 @@ const sourceModules = import.meta.glob<string>(
   { eager: true, query: '?raw', import: 'default' }
 );
 
+// Runtime module sources, loaded on demand for the production Simple Format export
+const runtimeSourceModules = import.meta.glob<string>(
+  '../runtime/*.ts',
+  { query: '?raw', import: 'default' }
+);
+
 // Build the registry
 const registry: Map<string, AnimationEntry> = new Map();
 
+// Compositions and sequences are resolved once every animation is registered
+const pending: Map<string, {
+  definition: CompositionDefinition | SequenceDefinition;
+  meta?: AnimationMeta;
+  source?: string;
+}> = new Map();
+
 for (const [path, module] of Object.entries(animationModules)) {
   // Find any animation definition in the module (default export or named exports)
-  let definition: AnyAnimationDefinition | undefined;
+  let definition: AnyAnimationDefinition | CompositionDefinition | SequenceDefinition | undefined;
   
   // Try default export first
   if (module.default) {
@@ -65,6 +80,11 @@ for (const [path, module] of Object.entries(animationModules)) {
   // Find source code
   const source = sourceModules[path] as string | undefined;
 
+  if (isComposition(definition) || isSequence(definition)) {
+    pending.set(id, { definition, meta, source });
+    continue;
+  }
+
   registry.set(id, {
     definition,
     meta,
@@ -72,6 +92,17 @@ for (const [path, module] of Object.entries(animationModules)) {
   });
 }
 
+for (const [id, entry] of pending) {
+  try {
+    const definition = resolveDefinition(entry.definition, (animationId) =>
+      pending.get(animationId)?.definition ?? registry.get(animationId)?.definition
+    );
+    registry.set(id, { definition, meta: entry.meta, source: entry.source });
+  } catch (err) {
+    console.warn(`Skipping "${id}":`, err instanceof Error ? err.message : err);
+  }
+}
+
 /**
  * Get all registered animations
  */
@@ -86,6 +117,25 @@ export function getAnimationById(id: string): AnimationEntry | undefined {
   return registry.get(id);
 }
 
+/**
+ * Load the source of every runtime module and return a resolver for
+ * animation import specifiers such as '../../runtime/params'
+ */
+export async function loadRuntimeSources(): Promise<(specifier: string) => string | undefined> {
+  const sources = new Map<string, string>();
+  await Promise.all(
+    Object.entries(runtimeSourceModules).map(async ([path, load]) => {
+      const name = path.split('/').pop()!.replace(/\.ts$/, '');
+      sources.set(name, await load());
+    })
+  );
+
+  return (specifier) => {
+    const match = specifier.match(/(?:^|\/)runtime\/([\w-]+?)(?:\.ts)?$/);
+    return match ? sources.get(match[1]) : undefined;
+  };
+}
+
 /**
  * React hook to get all animations (triggers re-render on HMR)
  */
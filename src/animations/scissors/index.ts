@@ -39,9 +39,9 @@ const animation: AnimationDefinition<ScissorsParams> = {
         scale: number({ value: 1, min: 0.1, max: 3, step: 0.1, label: 'Scale' }),
       }),
       ...folder('Style', {
-        backgroundColor: color({ value: '#FFFFFF', label: 'Background Color' }),
-        strokeColor: color({ value: '#353535', label: 'Stroke Color' }),
-        strokeWidth: number({ value: 2, min: 1, max: 5, step: 0.5, label: 'Stroke Width' }),
+        backgroundColor: color({ value: '#000000', label: 'Background Color' }),
+        strokeColor: color({ value: '#ffffff', label: 'Stroke Color' }),
+        strokeWidth: number({ value: 4.5, min: 1, max: 5, step: 0.5, label: 'Stroke Width' }),
       }),
       ...folder('Animation', {
         cutSpeed: number({ value: 1, min: 0.5, max: 3, step: 0.1, label: 'Cut Speed' }),
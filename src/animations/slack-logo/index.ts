@@ -93,27 +93,27 @@ const animation: AnimationDefinition<StaggeredLogoParams> = {
     },
     schema: {
       ...folder('Animation', {
-        animationSpeed: number({ value: 1.0, min: 0.25, max: 3, step: 0.25 }),
-        staggerDelay: number({ value: 0.12, min: 0.05, max: 0.5, step: 0.01 }),
-        scaleInDuration: number({ value: 0.35, min: 0.1, max: 1, step: 0.05 }),
-        initialRotation: number({ value: -720, min: -1440, max: 0, step: 45 }),
-        rotationAfterDelay: number({ value: 0.5, min: 0, max: 2, step: 0.1 }),
-        loopAnimation: boolean({ value: true }),
+        animationSpeed: number({ value: 1.5, min: 0.25, max: 3, step: 0.25 }),
+        staggerDelay: number({ value: 0.18, min: 0.05, max: 0.5, step: 0.01 }),
+        scaleInDuration: number({ value: 0.3, min: 0.1, max: 1, step: 0.05 }),
+        initialRotation: number({ value: -270, min: -1440, max: 0, step: 45 }),
+        rotationAfterDelay: number({ value: 0.3, min: 0, max: 2, step: 0.1 }),
+        loopAnimation: boolean({ value: false }),
       }),
       ...folder('Colors', {
-        backgroundDark: boolean({ value: true }),
-        backgroundColor: color({ value: '#0A0A0F' }),
-        redColor: color({ value: '#DE1C59' }),
-        cyanColor: color({ value: '#35C5F0' }),
-        greenColor: color({ value: '#2EB57D' }),
-        yellowColor: color({ value: '#EBB02E' }),
+        backgroundDark: boolean({ value: false }),
+        backgroundColor: color({ value: '#ffffff' }),
+        redColor: color({ value: '#de1c59' }),
+        cyanColor: color({ value: '#35c5f0' }),
+        greenColor: color({ value: '#2eb57d' }),
+        yellowColor: color({ value: '#ebb02e' }),
       }),
       ...folder('Effects', {
-        glowIntensity: number({ value: 0.8, min: 0, max: 1, step: 0.1 }),
-        glowSize: number({ value: 20, min: 0, max: 50, step: 5 }),
+        glowIntensity: number({ value: 0, min: 0, max: 1, step: 0.1 }),
+        glowSize: number({ value: 15, min: 0, max: 50, step: 5 }),
       }),
       ...folder('Layout', {
-        logoScale: number({ value: 2.5, min: 1, max: 5, step: 0.25 }),
+        logoScale: number({ value: 1.25, min: 1, max: 5, step: 0.25 }),
       }),
     },
   },
@@ -84,24 +84,24 @@ const animation: AnimationDefinition<SliderBarsParams> = {
         scale: number({ value: 1, min: 0.1, max: 3, step: 0.1, label: 'Scale' }),
         barCount: number({ value: 34, min: 10, max: 80, step: 1, label: 'Bar Count' }),
         barWidth: number({ value: 3, min: 2, max: 10, step: 0.5, label: 'Bar Width' }),
-        barGap: number({ value: 3.5, min: 1, max: 8, step: 0.5, label: 'Bar Gap' }),
-        maxBarHeight: number({ value: 52, min: 20, max: 100, step: 1, label: 'Max Bar Height' }),
-        minBarHeight: number({ value: 14, min: 4, max: 40, step: 1, label: 'Min Bar Height' }),
-        trackPadding: number({ value: 10, min: 4, max: 40, step: 1, label: 'Track Padding' }),
-        cornerRadius: number({ value: 13, min: 4, max: 60, step: 1, label: 'Corner Radius' }),
+        barGap: number({ value: 2.5, min: 1, max: 8, step: 0.5, label: 'Bar Gap' }),
+        maxBarHeight: number({ value: 20, min: 20, max: 100, step: 1, label: 'Max Bar Height' }),
+        minBarHeight: number({ value: 7, min: 4, max: 40, step: 1, label: 'Min Bar Height' }),
+        trackPadding: number({ value: 12, min: 4, max: 40, step: 1, label: 'Track Padding' }),
+        cornerRadius: number({ value: 8, min: 4, max: 60, step: 1, label: 'Corner Radius' }),
       }),
       ...folder('Colors', {
-        barColor: color({ value: '#2C2C2C', label: 'Bar Color' }),
+        barColor: color({ value: '#696969', label: 'Bar Color' }),
         trackColor: color({ value: '#FFFFFF', label: 'Track Fill' }),
-        trackStrokeColor: color({ value: '#D4D4D4', label: 'Track Stroke' }),
+        trackStrokeColor: color({ value: '#ebebeb', label: 'Track Stroke' }),
         backgroundColor: color({ value: '#FFFFFF', label: 'Background' }),
-        tooltipColor: color({ value: '#F0F0F0', label: 'Tooltip Background' }),
-        tooltipTextColor: color({ value: '#525252', label: 'Tooltip Text' }),
+        tooltipColor: color({ value: '#e0e0e0', label: 'Tooltip Background' }),
+        tooltipTextColor: color({ value: '#5e5e5e', label: 'Tooltip Text' }),
       }),
       ...folder('Tooltip', {
         showTooltip: boolean({ value: true, label: 'Show Tooltip' }),
         tooltipFontSize: number({ value: 12, min: 8, max: 48, step: 1, label: 'Font Size' }),
-        tooltipDistance: number({ value: 5, min: -60, max: 60, step: 1, label: 'Distance from Slider' }),
+        tooltipDistance: number({ value: -17, min: -60, max: 60, step: 1, label: 'Distance from Slider' }),
         tooltipPaddingX: number({ value: 5, min: 2, max: 40, step: 1, label: 'Padding X' }),
         tooltipPaddingY: number({ value: 8, min: 2, max: 40, step: 1, label: 'Padding Y' }),
         tooltipCornerRadius: number({ value: 4, min: 0, max: 30, step: 1, label: 'Corner Radius' }),
@@ -109,7 +109,7 @@ const animation: AnimationDefinition<SliderBarsParams> = {
       }),
       ...folder('Animation', {
         speed: number({ value: 1, min: 0.1, max: 3, step: 0.1, label: 'Speed' }),
-        transitionWidth: number({ value: 0.17, min: 0.02, max: 0.3, step: 0.01, label: 'Transition Softness' }),
+        transitionWidth: number({ value: 0.15, min: 0.02, max: 0.3, step: 0.01, label: 'Transition Softness' }),
       }),
     },
   },
@@ -64,19 +64,19 @@ const animation: AnimationDefinition<TextGlobeParams> = {
     schema: {
       ...folder('Layout', {
         scale: number({ value: 1, min: 0.1, max: 3, step: 0.1, label: 'Scale' }),
-        sphereSize: number({ value: 340, min: 100, max: 400, step: 10, label: 'Sphere Size' }),
+        sphereSize: number({ value: 270, min: 100, max: 400, step: 10, label: 'Sphere Size' }),
       }),
       ...folder('Colors', {
         textColor: color({ value: '#FFFFFF', label: 'Text Color' }),
         backgroundColor: color({ value: '#3333FF', label: 'Background' }),
       }),
       ...folder('Animation', {
-        speed: number({ value: 1, min: 0.1, max: 3, step: 0.1, label: 'Speed' }),
+        speed: number({ value: 1.7, min: 0.1, max: 3, step: 0.1, label: 'Speed' }),
         rotationSpeed: number({ value: 0.4, min: 0.1, max: 2, step: 0.1, label: 'Rotation Speed' }),
-        revealDuration: number({ value: 0.35, min: 0.1, max: 1, step: 0.05, label: 'Reveal Duration' }),
+        revealDuration: number({ value: 0.2, min: 0.1, max: 1, step: 0.05, label: 'Reveal Duration' }),
       }),
       ...folder('Text', {
-        fontSize: number({ value: 22, min: 10, max: 40, step: 1, label: 'Font Size' }),
+        fontSize: number({ value: 23, min: 10, max: 40, step: 1, label: 'Font Size' }),
         fontWeight: select({
           value: '700',
           options: ['400', '500', '600', '700', '800', '900'],
@@ -84,7 +84,7 @@ const animation: AnimationDefinition<TextGlobeParams> = {
         }),
       }),
       ...folder('Sphere', {
-        numBands: number({ value: 18, min: 8, max: 28, step: 1, label: 'Number of Bands' }),
+        numBands: number({ value: 16, min: 8, max: 28, step: 1, label: 'Number of Bands' }),
       }),
     },
   },
@@ -105,10 +105,10 @@ const animation: AnimationDefinition<TextHighlighterParams> = {
     },
     schema: {
       ...folder('Layout', {
-        scale: number({ value: 1, min: 0.1, max: 3, step: 0.1, label: 'Scale' }),
+        scale: number({ value: 0.6, min: 0.1, max: 3, step: 0.1, label: 'Scale' }),
       }),
       ...folder('Text', {
-        text: string({ value: 'Blowbowl is very easy to customise to suit your needs.', label: 'Text' }),
+        text: string({ value: 'Highlight text', label: 'Text' }),
         fontSize: number({ value: 48, min: 12, max: 120, step: 1, label: 'Font Size' }),
         fontWeight: select({
           value: 'bold',
@@ -118,24 +118,24 @@ const animation: AnimationDefinition<TextHighlighterParams> = {
         lineHeight: number({ value: 1.5, min: 1, max: 3, step: 0.1, label: 'Line Height' }),
       }),
       ...folder('Colors', {
-        textColor: color({ value: '#2D2A1E', label: 'Text Color' }),
-        highlightColor: color({ value: '#FFF3B0', label: 'Highlight Color' }),
+        textColor: color({ value: '#1c1c1c', label: 'Text Color' }),
+        highlightColor: color({ value: '#4400ff', label: 'Highlight Color' }),
         backgroundColor: color({ value: '#FFFFFF', label: 'Background' }),
       }),
       ...folder('Highlight', {
-        highlightOpacity: number({ value: 1, min: 0.1, max: 1, step: 0.05, label: 'Opacity' }),
+        highlightOpacity: number({ value: 0.35, min: 0.1, max: 1, step: 0.05, label: 'Opacity' }),
         highlightPaddingX: number({ value: 4, min: 0, max: 20, step: 1, label: 'Padding X' }),
         highlightPaddingY: number({ value: 4, min: 0, max: 20, step: 1, label: 'Padding Y' }),
       }),
       ...folder('Cursor Dots', {
         showCursors: boolean({ value: true, label: 'Show Cursors' }),
         cursorSize: number({ value: 10, min: 4, max: 20, step: 1, label: 'Cursor Size' }),
-        cursorColor: color({ value: '#1A1A1A', label: 'Cursor Color' }),
+        cursorColor: color({ value: '#691f6b', label: 'Cursor Color' }),
       }),
       ...folder('Animation', {
-        speed: number({ value: 1, min: 0.1, max: 3, step: 0.1, label: 'Speed' }),
+        speed: number({ value: 1.5, min: 0.1, max: 3, step: 0.1, label: 'Speed' }),
         easing: select({
-          value: 'easeOutCubic',
+          value: 'easeOutExpo',
           options: [
             'linear',
             'easeInQuad',
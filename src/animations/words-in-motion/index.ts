@@ -72,18 +72,18 @@ const animation: AnimationDefinition<WordsInMotionParams> = {
         text: { value: 'Words in Motion', label: 'Text' },
         fontSize: number({ value: 72, min: 12, max: 200, step: 2, label: 'Font Size' }),
         fontWeight: number({ value: 700, min: 100, max: 900, step: 100, label: 'Font Weight' }),
-        letterSpacing: number({ value: 4, min: -10, max: 30, step: 1, label: 'Letter Spacing' }),
+        letterSpacing: number({ value: 22, min: -10, max: 30, step: 1, label: 'Letter Spacing' }),
       }),
       ...folder('Path', {
-        arcHeight: number({ value: 80, min: 0, max: 200, step: 5, label: 'Arc Height' }),
+        arcHeight: number({ value: 115, min: 0, max: 200, step: 5, label: 'Arc Height' }),
         arcDirection: select({
-          value: 'up',
+          value: 'down',
           options: ['up', 'down'],
           label: 'Arc Direction',
         }),
       }),
       ...folder('Animation', {
-        speed: number({ value: 1, min: 0.1, max: 3, step: 0.1, label: 'Speed' }),
+        speed: number({ value: 2, min: 0.1, max: 3, step: 0.1, label: 'Speed' }),
         flowDirection: select({
           value: 'right',
           options: ['right', 'left', 'none'],
@@ -95,8 +95,8 @@ const animation: AnimationDefinition<WordsInMotionParams> = {
         backgroundColor: color({ value: '#000000', label: 'Background' }),
       }),
       ...folder('Layout', {
-        scale: number({ value: 1, min: 0.1, max: 3, step: 0.1, label: 'Scale' }),
-        verticalOffset: number({ value: 0, min: -200, max: 200, step: 10, label: 'Vertical Offset' }),
+        scale: number({ value: 0.3, min: 0.1, max: 3, step: 0.1, label: 'Scale' }),
+        verticalOffset: number({ value: -10, min: -200, max: 200, step: 10, label: 'Vertical Offset' }),
       }),
     },
   },
@@ -0,0 +1,104 @@
+import { useEffect, useState } from 'react';
+import { getAudioInputDevices } from '../runtime/audio';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+
+/** Live input choices besides specific device ids */
+export const DEFAULT_MICROPHONE = 'microphone';
+export const SYSTEM_AUDIO = 'system';
+
+interface AudioInputPanelProps {
+  /** Selected live input: a device id, DEFAULT_MICROPHONE, SYSTEM_AUDIO, or null when off */
+  liveInput: string | null;
+  onLiveInputChange: (input: string | null) => void;
+  gain: number;
+  onGainChange: (gain: number) => void;
+  monitor: boolean;
+  onMonitorChange: (enabled: boolean) => void;
+  /** Whether any audio (file or live) is loaded to monitor */
+  hasAudio: boolean;
+  error?: string | null;
+}
+
+const selectClassName = 'h-7 px-2 text-xs rounded-md bg-muted border-0 text-foreground max-w-[160px]';
+
+// Live input source, gain and monitoring for audio-reactive animations
+export function AudioInputPanel({
+  liveInput,
+  onLiveInputChange,
+  gain,
+  onGainChange,
+  monitor,
+  onMonitorChange,
+  hasAudio,
+  error,
+}: AudioInputPanelProps) {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+
+  // Labels only show up once access is granted, so list again after each change
+  useEffect(() => {
+    const refresh = () => {
+      getAudioInputDevices()
+        .then(setDevices)
+        .catch(() => setDevices([]));
+    };
+    refresh();
+    navigator.mediaDevices?.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', refresh);
+  }, [liveInput]);
+
+  // The browser's default entries duplicate the device they point at
+  const namedDevices = devices.filter(
+    (device) => device.deviceId && device.deviceId !== 'default' && device.deviceId !== 'communications'
+  );
+
+  return (
+    <div className="w-full">
+      <h3 className="text-sm font-medium mb-4">Audio Input</h3>
+      <div className="space-y-4">
+        <div className="flex items-center justify-between gap-3">
+          <Label className="text-xs text-muted-foreground">Live input</Label>
+          <select
+            value={liveInput ?? ''}
+            onChange={(e) => onLiveInputChange(e.target.value || null)}
+            className={selectClassName}
+          >
+            <option value="">Off</option>
+            <option value={DEFAULT_MICROPHONE}>Default microphone</option>
+            {namedDevices.map((device, index) => (
+              <option key={device.deviceId} value={device.deviceId}>
+                {device.label || `Input ${index + 1}`}
+              </option>
+            ))}
+            <option value={SYSTEM_AUDIO}>System / tab audio</option>
+          </select>
+        </div>
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label className="text-xs text-muted-foreground">Input gain</Label>
+            <span className="text-xs text-muted-foreground tabular-nums">{gain.toFixed(1)}×</span>
+          </div>
+          <Slider
+            min={0}
+            max={4}
+            step={0.1}
+            value={[gain]}
+            onValueChange={([v]) => onGainChange(v)}
+            className="w-full"
+          />
+        </div>
+        <div className="flex items-center justify-between">
+          <Label className="text-xs text-muted-foreground">Monitor through speakers</Label>
+          <Switch checked={monitor} onCheckedChange={onMonitorChange} disabled={!hasAudio} />
+        </div>
+        {liveInput && monitor && (
+          <p className="text-xs text-muted-foreground">
+            Use headphones to avoid feedback from the microphone.
+          </p>
+        )}
+        {error && <p className="text-xs text-destructive">{error}</p>}
+      </div>
+    </div>
+  );
+}
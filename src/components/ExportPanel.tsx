@@ -1,29 +1,737 @@
-import { useState } from 'react';
-import type { AnimationEntry, SimpleAnimationDefinition, AnimationDefinition } from '../runtime/types';
-import { generateSimpleAnimationCode, isSimpleAnimation, generateExternalEditorCode } from '../runtime/types';
+import { useState, useRef } from 'react';
+import type { AnimationEntry, AnyAnimationDefinition, SimpleAnimationDefinition } from '../runtime/types';
+import { generateSimpleAnimationCode } from '../runtime/types';
+import { loadRuntimeSources } from '../animations/registry';
+import {
+  exportVideo,
+  getVideoSize,
+  isVideoExportSupported,
+  type VideoFormat,
+} from '../runtime/export/video';
+import { exportGif } from '../runtime/export/gif';
+import { exportApng } from '../runtime/export/apng';
+import type { DitherMode } from '../runtime/export/palette';
+import { exportPngSequence } from '../runtime/export/sequence';
+import { exportLottie } from '../runtime/export/lottie';
+import { exportSvg, type SvgMode } from '../runtime/export/svg';
+import type { ExportWarning } from '../runtime/export/recorder';
+import type { DecodedAudio } from '../runtime/audio-track';
+import { getFrameCount } from '../runtime/frames';
+import { formatSuffix, getFormats, resolveFormat, type OutputFormat } from '../runtime/layout';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Copy, Download, CheckCircle2 } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Copy, Download, CheckCircle2, CodeXml, FileJson, Film, Image as ImageIcon, PenTool, X } from 'lucide-react';
 
 interface ExportPanelProps {
   entry: AnimationEntry;
   params: Record<string, unknown>;
+  /** Audio loaded in the player, for audio-reactive video exports */
+  audio?: DecodedAudio | null;
+  /** Format shown in the player (default: the animation's own size) */
+  format?: OutputFormat | null;
 }
 
-export function ExportPanel({ entry, params }: ExportPanelProps) {
-  const [copied, setCopied] = useState<string | null>(null);
-  
-  // Get ID from either format
-  const getDefinitionId = () => {
-    if ('id' in entry.definition) {
-      return entry.definition.id;
+/** The animation at one output format */
+interface ExportTarget {
+  definition: AnyAnimationDefinition;
+  /** Added to filenames, e.g. '-9x16' */
+  suffix: string;
+}
+
+interface ExportSectionProps extends ExportPanelProps {
+  /** Formats to render, one file each */
+  targets: ExportTarget[];
+}
+
+// Get a filename-friendly ID from either format
+function getDefinitionId(entry: AnimationEntry): string {
+  if ('id' in entry.definition) {
+    return entry.definition.id;
+  }
+  if ('name' in entry.definition && entry.definition.name) {
+    return entry.definition.name.toLowerCase().replace(/\s+/g, '-');
+  }
+  return 'animation';
+}
+
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+const selectClassName = 'h-7 px-2 text-xs rounded-md bg-muted border-0 text-foreground';
+
+const SCALE_OPTIONS = [0.5, 1, 2, 4];
+
+const FPS_OPTIONS = [24, 25, 30, 50, 60];
+
+// Common frame rates, plus the animation's own when it isn't one of them
+function fpsOptions(fps?: number): number[] {
+  if (fps === undefined || FPS_OPTIONS.includes(fps)) return FPS_OPTIONS;
+  return [...FPS_OPTIONS, fps].sort((a, b) => a - b);
+}
+
+// Track progress, errors and cancellation for a long-running export
+function useExportJob() {
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const run = async (
+    label: string,
+    job: (signal: AbortSignal, onProgress: (done: number, total: number) => void) => Promise<void>
+  ) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setProgress(0);
+
+    try {
+      await job(controller.signal, (done, total) => setProgress(done / total));
+    } catch (err) {
+      if (!(err instanceof DOMException && err.name === 'AbortError')) {
+        console.error(`${label} export failed:`, err);
+        setError(err instanceof Error ? err.message : `${label} export failed`);
+      }
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
     }
-    if ('name' in entry.definition && entry.definition.name) {
-      return entry.definition.name.toLowerCase().replace(/\s+/g, '-');
+  };
+
+  const cancel = () => abortRef.current?.abort();
+
+  return { progress, error, run, cancel };
+}
+
+// Run an export once per target, reporting progress over all of them
+async function forEachTarget(
+  targets: ExportTarget[],
+  onProgress: (done: number, total: number) => void,
+  job: (target: ExportTarget, onProgress: (done: number, total: number) => void) => Promise<void>
+) {
+  for (const [index, target] of targets.entries()) {
+    await job(target, (done, total) => onProgress(index * total + done, targets.length * total));
+  }
+}
+
+// Label + control row used by the export option forms
+function ExportField({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="flex items-center justify-between gap-3">
+      <Label className="text-xs text-muted-foreground">{label}</Label>
+      {children}
+    </div>
+  );
+}
+
+// Start button that turns into a progress/cancel button while running
+function ExportRunButton({
+  progress,
+  onRun,
+  onCancel,
+  disabled,
+  icon,
+  children,
+}: {
+  progress: number | null;
+  onRun: () => void;
+  onCancel: () => void;
+  disabled?: boolean;
+  icon: React.ReactNode;
+  children: React.ReactNode;
+}) {
+  if (progress !== null) {
+    return (
+      <Button
+        variant="outline"
+        size="sm"
+        className="w-full justify-start"
+        onClick={onCancel}
+      >
+        <X className="h-4 w-4" />
+        Rendering {Math.round(progress * 100)}% — Cancel
+      </Button>
+    );
+  }
+
+  return (
+    <Button
+      size="sm"
+      className="w-full justify-start"
+      onClick={onRun}
+      disabled={disabled}
+    >
+      {icon}
+      {children}
+    </Button>
+  );
+}
+
+// Offline video export (WebCodecs)
+type AudioMode = 'track' | 'loops' | 'none';
+
+function VideoExportSection({ entry, params, audio, targets }: ExportSectionProps) {
+  const { definition } = entry;
+  const [format, setFormat] = useState<VideoFormat>('mp4');
+  const [scale, setScale] = useState(1);
+  const [fps, setFps] = useState(definition.fps ?? 60);
+  const [loops, setLoops] = useState(1);
+  const [audioMode, setAudioMode] = useState<AudioMode>('track');
+  const { progress, error, run, cancel } = useExportJob();
+
+  const supported = isVideoExportSupported();
+  const size = getVideoSize(definition, scale);
+
+  const handleExport = () =>
+    run('Video', async (signal, onProgress) => {
+      const withAudio = audio && audioMode !== 'none' ? audio : undefined;
+      await forEachTarget(targets, onProgress, async (target, onTargetProgress) => {
+        const blob = await exportVideo(target.definition, params, {
+          format,
+          fps,
+          scale,
+          loops,
+          audio: withAudio,
+          durationSec: withAudio && audioMode === 'track' ? withAudio.duration : undefined,
+          signal,
+          onProgress: onTargetProgress,
+        });
+        downloadBlob(blob, `${getDefinitionId(entry)}${target.suffix}.${format}`);
+      });
+    });
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-medium">Video</h4>
+      <div className="space-y-2">
+        <ExportField label="Format">
+          <select
+            value={format}
+            onChange={(e) => setFormat(e.target.value as VideoFormat)}
+            className={selectClassName}
+          >
+            <option value="mp4">MP4 (H.264)</option>
+            <option value="webm">WebM (VP9)</option>
+          </select>
+        </ExportField>
+        <ExportField label="Resolution">
+          <select
+            value={scale}
+            onChange={(e) => setScale(parseFloat(e.target.value))}
+            className={selectClassName}
+          >
+            {SCALE_OPTIONS.map((s) => {
+              const { width, height } = getVideoSize(definition, s);
+              return (
+                <option key={s} value={s}>
+                  {s}x ({width}×{height})
+                </option>
+              );
+            })}
+          </select>
+        </ExportField>
+        <ExportField label="FPS">
+          <select
+            value={fps}
+            onChange={(e) => setFps(Number(e.target.value))}
+            className={selectClassName}
+          >
+            {fpsOptions(definition.fps).map((f) => (
+              <option key={f} value={f}>{f}</option>
+            ))}
+          </select>
+        </ExportField>
+        {audio && (
+          <ExportField label="Audio">
+            <select
+              value={audioMode}
+              onChange={(e) => setAudioMode(e.target.value as AudioMode)}
+              className={selectClassName}
+            >
+              <option value="track">Full track ({audio.duration.toFixed(1)}s)</option>
+              <option value="loops">Trim to loops</option>
+              <option value="none">None</option>
+            </select>
+          </ExportField>
+        )}
+        <ExportField label="Loops">
+          <Input
+            type="number"
+            value={loops}
+            min={1}
+            max={100}
+            onChange={(e) => setLoops(Math.max(1, parseInt(e.target.value, 10) || 1))}
+            className="w-20 h-7 text-xs text-right bg-muted border-0"
+            disabled={!!audio && audioMode === 'track'}
+          />
+        </ExportField>
+      </div>
+      <ExportRunButton
+        progress={progress}
+        onRun={handleExport}
+        onCancel={cancel}
+        disabled={!supported}
+        icon={<Film className="h-4 w-4" />}
+      >
+        Export Video ({targets.length > 1 ? `${targets.length} formats` : `${size.width}×${size.height}`})
+      </ExportRunButton>
+      {!supported && (
+        <p className="text-xs text-muted-foreground">
+          Video export needs a browser with WebCodecs (Chrome, Edge or Safari 17+).
+        </p>
+      )}
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+}
+
+type ImageFormat = 'gif' | 'apng';
+
+// Animated GIF / APNG export of one loop
+function AnimatedImageExportSection({ entry, params, targets }: ExportSectionProps) {
+  const { definition } = entry;
+  const [format, setFormat] = useState<ImageFormat>('gif');
+  const [scale, setScale] = useState(1);
+  const [fps, setFps] = useState(25);
+  const [paletteSize, setPaletteSize] = useState(256);
+  const [dither, setDither] = useState<DitherMode>('floyd-steinberg');
+  const { progress, error, run, cancel } = useExportJob();
+
+  const width = Math.round((definition.width ?? 800) * scale);
+  const height = Math.round((definition.height ?? 600) * scale);
+  // Full color (0) is only available for APNG
+  const palette = format === 'gif' && paletteSize === 0 ? 256 : paletteSize;
+
+  const handleExport = () =>
+    run(format.toUpperCase(), async (signal, onProgress) => {
+      await forEachTarget(targets, onProgress, async (target, onTargetProgress) => {
+        const options = { fps, scale, paletteSize: palette, dither, signal, onProgress: onTargetProgress };
+        const blob = format === 'gif'
+          ? await exportGif(target.definition, params, options)
+          : await exportApng(target.definition, params, options);
+        downloadBlob(blob, `${getDefinitionId(entry)}${target.suffix}.${format === 'gif' ? 'gif' : 'png'}`);
+      });
+    });
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-medium">Animated Image</h4>
+      <div className="space-y-2">
+        <ExportField label="Format">
+          <select
+            value={format}
+            onChange={(e) => setFormat(e.target.value as ImageFormat)}
+            className={selectClassName}
+          >
+            <option value="gif">GIF</option>
+            <option value="apng">APNG (keeps alpha)</option>
+          </select>
+        </ExportField>
+        <ExportField label="Size">
+          <select
+            value={scale}
+            onChange={(e) => setScale(parseFloat(e.target.value))}
+            className={selectClassName}
+          >
+            {[0.25, ...SCALE_OPTIONS].map((s) => (
+              <option key={s} value={s}>
+                {s}x ({Math.round((definition.width ?? 800) * s)}×{Math.round((definition.height ?? 600) * s)})
+              </option>
+            ))}
+          </select>
+        </ExportField>
+        <ExportField label="FPS">
+          <select
+            value={fps}
+            onChange={(e) => setFps(parseInt(e.target.value, 10))}
+            className={selectClassName}
+          >
+            {[10, 15, 20, 25, 30, 50].map((f) => (
+              <option key={f} value={f}>{f}</option>
+            ))}
+          </select>
+        </ExportField>
+        <ExportField label="Palette">
+          <select
+            value={palette}
+            onChange={(e) => setPaletteSize(parseInt(e.target.value, 10))}
+            className={selectClassName}
+          >
+            {[16, 32, 64, 128, 256].map((n) => (
+              <option key={n} value={n}>{n} colors</option>
+            ))}
+            {format === 'apng' && <option value={0}>Full color</option>}
+          </select>
+        </ExportField>
+        <ExportField label="Dithering">
+          <select
+            value={dither}
+            onChange={(e) => setDither(e.target.value as DitherMode)}
+            className={selectClassName}
+            disabled={palette === 0}
+          >
+            <option value="floyd-steinberg">Floyd–Steinberg</option>
+            <option value="bayer">Ordered (Bayer)</option>
+            <option value="none">None</option>
+          </select>
+        </ExportField>
+      </div>
+      <ExportRunButton
+        progress={progress}
+        onRun={handleExport}
+        onCancel={cancel}
+        icon={<ImageIcon className="h-4 w-4" />}
+      >
+        Export {format === 'gif' ? 'GIF' : 'APNG'} ({targets.length > 1 ? `${targets.length} formats` : `${width}×${height}`})
+      </ExportRunButton>
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+}
+
+// Numbered PNG frames bundled as a zip
+function SequenceExportSection({ entry, params, targets }: ExportSectionProps) {
+  const { definition } = entry;
+  const [scale, setScale] = useState(1);
+  const [fps, setFps] = useState(definition.fps ?? 60);
+  const frameCount = getFrameCount(definition, fps);
+  const [range, setRange] = useState<{ from: number; to: number } | null>(null);
+  const { progress, error, run, cancel } = useExportJob();
+
+  // Default to the full loop until the user edits the range
+  const from = Math.min(range?.from ?? 0, frameCount - 1);
+  const to = Math.min(Math.max(range?.to ?? frameCount - 1, from), frameCount - 1);
+
+  const handleExport = () =>
+    run('Image sequence', async (signal, onProgress) => {
+      await forEachTarget(targets, onProgress, async (target, onTargetProgress) => {
+        const blob = await exportPngSequence(target.definition, params, {
+          fps,
+          scale,
+          from,
+          to: to + 1,
+          signal,
+          onProgress: onTargetProgress,
+        });
+        downloadBlob(blob, `${getDefinitionId(entry)}${target.suffix}-frames.zip`);
+      });
+    });
+
+  const parseFrame = (value: string) =>
+    Math.max(0, Math.min(frameCount - 1, parseInt(value, 10) || 0));
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-medium">Image Sequence</h4>
+      <div className="space-y-2">
+        <ExportField label="Resolution">
+          <select
+            value={scale}
+            onChange={(e) => setScale(parseFloat(e.target.value))}
+            className={selectClassName}
+          >
+            {[1, 2, 4].map((s) => (
+              <option key={s} value={s}>
+                {s}x ({(definition.width ?? 800) * s}×{(definition.height ?? 600) * s})
+              </option>
+            ))}
+          </select>
+        </ExportField>
+        <ExportField label="FPS">
+          <select
+            value={fps}
+            onChange={(e) => {
+              setFps(Number(e.target.value));
+              setRange(null);
+            }}
+            className={selectClassName}
+          >
+            {fpsOptions(definition.fps).map((f) => (
+              <option key={f} value={f}>{f}</option>
+            ))}
+          </select>
+        </ExportField>
+        <ExportField label="Frames">
+          <div className="flex items-center gap-1">
+            <Input
+              type="number"
+              value={from}
+              min={0}
+              max={frameCount - 1}
+              onChange={(e) => setRange({ from: parseFrame(e.target.value), to })}
+              className="w-16 h-7 text-xs text-right bg-muted border-0"
+            />
+            <span className="text-xs text-muted-foreground">–</span>
+            <Input
+              type="number"
+              value={to}
+              min={0}
+              max={frameCount - 1}
+              onChange={(e) => setRange({ from, to: parseFrame(e.target.value) })}
+              className="w-16 h-7 text-xs text-right bg-muted border-0"
+            />
+          </div>
+        </ExportField>
+      </div>
+      <ExportRunButton
+        progress={progress}
+        onRun={handleExport}
+        onCancel={cancel}
+        icon={<Download className="h-4 w-4" />}
+      >
+        PNG Sequence ({to - from + 1} frames, {targets.length > 1 ? `${targets.length} .zip files` : '.zip'})
+      </ExportRunButton>
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+}
+
+// Combine warnings from several exports, one per operation
+function mergeWarnings(warnings: ExportWarning[]): ExportWarning[] {
+  const merged = new Map<string, ExportWarning>();
+  for (const warning of warnings) {
+    const existing = merged.get(warning.operation);
+    merged.set(warning.operation, existing ? { ...existing, count: existing.count + warning.count } : warning);
+  }
+  return [...merged.values()];
+}
+
+// Canvas features a vector export had to drop
+function ExportWarnings({ warnings }: { warnings: ExportWarning[] }) {
+  if (warnings.length === 0) {
+    return <p className="text-xs text-muted-foreground">Exported without warnings.</p>;
+  }
+
+  return (
+    <div className="space-y-1">
+      <p className="text-xs text-muted-foreground">Not exported:</p>
+      <ul className="space-y-1">
+        {warnings.map((w) => (
+          <li key={w.operation} className="text-xs">
+            <code className="text-amber-500">{w.operation}</code>
+            <span className="text-muted-foreground"> ×{w.count} — {w.message}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+// Lottie JSON recorded from the animation's canvas calls
+function LottieExportSection({ entry, params, targets }: ExportSectionProps) {
+  const [fps, setFps] = useState(30);
+  const [warnings, setWarnings] = useState<ExportWarning[] | null>(null);
+  const { progress, error, run, cancel } = useExportJob();
+
+  const handleExport = () =>
+    run('Lottie', async (signal, onProgress) => {
+      setWarnings(null);
+      const warnings: ExportWarning[] = [];
+      await forEachTarget(targets, onProgress, async (target, onTargetProgress) => {
+        const result = await exportLottie(target.definition, params, { fps, signal, onProgress: onTargetProgress });
+        warnings.push(...result.warnings);
+        downloadBlob(result.blob, `${getDefinitionId(entry)}${target.suffix}.lottie.json`);
+      });
+      setWarnings(mergeWarnings(warnings));
+    });
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-medium">Lottie</h4>
+      <div className="space-y-2">
+        <ExportField label="FPS">
+          <select
+            value={fps}
+            onChange={(e) => setFps(Number(e.target.value))}
+            className={selectClassName}
+          >
+            {FPS_OPTIONS.map((f) => (
+              <option key={f} value={f}>{f}</option>
+            ))}
+          </select>
+        </ExportField>
+      </div>
+      <ExportRunButton
+        progress={progress}
+        onRun={handleExport}
+        onCancel={cancel}
+        icon={<FileJson className="h-4 w-4" />}
+      >
+        Export Lottie (.json)
+      </ExportRunButton>
+      {warnings && <ExportWarnings warnings={warnings} />}
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+}
+
+// Static or SMIL/CSS-animated SVG recorded from the animation's canvas calls
+function SvgExportSection({ entry, params, targets }: ExportSectionProps) {
+  const { definition } = entry;
+  const [mode, setMode] = useState<SvgMode>('static');
+  const [frame, setFrame] = useState(0);
+  const [keyframes, setKeyframes] = useState(24);
+  const [warnings, setWarnings] = useState<ExportWarning[] | null>(null);
+  const { progress, error, run, cancel } = useExportJob();
+
+  const fps = definition.fps ?? 60;
+  const frameCount = getFrameCount(definition, fps);
+  const frameIndex = Math.min(frame, frameCount - 1);
+
+  const handleExport = () =>
+    run('SVG', async (signal, onProgress) => {
+      setWarnings(null);
+      const warnings: ExportWarning[] = [];
+      await forEachTarget(targets, onProgress, async (target, onTargetProgress) => {
+        const result = await exportSvg(target.definition, params, {
+          mode,
+          frame: frameIndex,
+          fps,
+          keyframes,
+          signal,
+          onProgress: onTargetProgress,
+        });
+        warnings.push(...result.warnings);
+        const suffix = mode === 'static' ? `-frame-${frameIndex}` : '';
+        downloadBlob(result.blob, `${getDefinitionId(entry)}${target.suffix}${suffix}.svg`);
+      });
+      setWarnings(mergeWarnings(warnings));
+    });
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-medium">SVG</h4>
+      <div className="space-y-2">
+        <ExportField label="Mode">
+          <select
+            value={mode}
+            onChange={(e) => setMode(e.target.value as SvgMode)}
+            className={selectClassName}
+          >
+            <option value="static">Static frame</option>
+            <option value="smil">Animated (SMIL)</option>
+            <option value="css">Animated (CSS)</option>
+          </select>
+        </ExportField>
+        {mode === 'static' ? (
+          <ExportField label={`Frame (of ${frameCount})`}>
+            <Input
+              type="number"
+              value={frameIndex}
+              min={0}
+              max={frameCount - 1}
+              onChange={(e) => setFrame(Math.max(0, parseInt(e.target.value, 10) || 0))}
+              className="w-20 h-7 text-xs text-right bg-muted border-0"
+            />
+          </ExportField>
+        ) : (
+          <ExportField label="Keyframes">
+            <select
+              value={keyframes}
+              onChange={(e) => setKeyframes(parseInt(e.target.value, 10))}
+              className={selectClassName}
+            >
+              {[12, 24, 30, 48, 60].map((n) => (
+                <option key={n} value={n}>{n}</option>
+              ))}
+            </select>
+          </ExportField>
+        )}
+      </div>
+      <ExportRunButton
+        progress={progress}
+        onRun={handleExport}
+        onCancel={cancel}
+        icon={<PenTool className="h-4 w-4" />}
+      >
+        Export SVG
+      </ExportRunButton>
+      {warnings && <ExportWarnings warnings={warnings} />}
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+}
+
+// Self-contained script registering a custom element (bundled by the dev server)
+function WebComponentExportSection({ entry }: { entry: AnimationEntry }) {
+  const [tagName, setTagName] = useState('motion-canvas-animation');
+  const [bundling, setBundling] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const id = getDefinitionId(entry);
+  const validTag = /^[a-z][a-z0-9]*-[a-z0-9-]*$/.test(tagName);
+
+  const handleExport = async () => {
+    setBundling(true);
+    setError(null);
+    try {
+      const query = new URLSearchParams({ id, tag: tagName });
+      const response = await fetch(`/api/export-element?${query}`);
+      if (!response.ok) {
+        const result = await response.json().catch(() => null);
+        throw new Error(result?.error || 'Web component export needs the dev server');
+      }
+      downloadBlob(await response.blob(), `${id}.js`);
+    } catch (err) {
+      console.error('Web component export failed:', err);
+      setError(err instanceof Error ? err.message : 'Web component export failed');
+    } finally {
+      setBundling(false);
     }
-    return 'animation';
   };
 
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-medium">Web Component</h4>
+      <ExportField label="Tag">
+        <Input
+          value={tagName}
+          onChange={(e) => setTagName(e.target.value.trim().toLowerCase())}
+          className="w-48 h-7 text-xs bg-muted border-0"
+        />
+      </ExportField>
+      <Button
+        size="sm"
+        className="w-full justify-start"
+        onClick={handleExport}
+        disabled={bundling || !validTag}
+      >
+        <CodeXml className="h-4 w-4" />
+        {bundling ? 'Bundling…' : 'Script Bundle (.js)'}
+      </Button>
+      <pre className="text-xs bg-muted p-2 rounded-lg overflow-x-auto whitespace-pre-wrap">
+        {`<script src="${id}.js"></script>\n<${tagName}></${tagName}>`}
+      </pre>
+      <p className="text-xs text-muted-foreground">
+        Set params as kebab-case attributes or a JSON <code>params</code> attribute/property; add <code>paused</code> to start stopped.
+        The bundle is built from the saved file, so save keyframes first.
+      </p>
+      {!validTag && (
+        <p className="text-xs text-destructive">Tag names must be lowercase and contain a hyphen.</p>
+      )}
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+}
+
+export function ExportPanel({ entry, params, audio, format = null }: ExportPanelProps) {
+  const [copied, setCopied] = useState<string | null>(null);
+  const [simpleFormatError, setSimpleFormatError] = useState<string | null>(null);
+  const [allFormats, setAllFormats] = useState(false);
+
+  // Renders use the format shown in the player, or every declared format
+  const formats = getFormats(entry.definition);
+  const formatted = format ? { ...entry, definition: resolveFormat(entry.definition, format) } : entry;
+  const targets: ExportTarget[] = allFormats && formats.length > 0
+    ? formats.map((f) => ({ definition: resolveFormat(entry.definition, f), suffix: formatSuffix(f) }))
+    : [{ definition: formatted.definition, suffix: format ? formatSuffix(format) : '' }];
+
   const copyToClipboard = async (text: string, label: string) => {
     try {
       await navigator.clipboard.writeText(text);
@@ -35,13 +743,7 @@ export function ExportPanel({ entry, params }: ExportPanelProps) {
   };
 
   const downloadFile = (content: string, filename: string, type: string) => {
-    const blob = new Blob([content], { type });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = filename;
-    a.click();
-    URL.revokeObjectURL(url);
+    downloadBlob(new Blob([content], { type }), filename);
   };
 
   const handleCopyCode = () => {
@@ -54,26 +756,48 @@ export function ExportPanel({ entry, params }: ExportPanelProps) {
     copyToClipboard(JSON.stringify(params, null, 2), 'params');
   };
 
-  const handleCopySimpleFormat = () => {
-    const isSimple = isSimpleAnimation(entry.definition);
-    
-    let code: string;
-    if (isSimple) {
-      // Already in simple format - use old generator
-      code = generateSimpleAnimationCode(entry.definition as SimpleAnimationDefinition);
-    } else {
-      // Use the new external editor format with source code for dependencies
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      code = generateExternalEditorCode(entry.definition as AnimationDefinition<any>, params, entry.source);
+  const handleCopySimpleFormat = async () => {
+    setSimpleFormatError(null);
+    // Without source there are no helpers to transpile; fall back to toString()
+    if (!entry.source) {
+      copyToClipboard(generateSimpleAnimationCode(entry.definition as SimpleAnimationDefinition), 'simple');
+      return;
+    }
+
+    try {
+      let code: string;
+      if (import.meta.env.DEV) {
+        // Transpiled on the dev server, so the TypeScript compiler isn't loaded
+        const response = await fetch('/api/simple-format', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ animation: entry.definition, params, source: entry.source }),
+        });
+        if (!response.ok) {
+          const result = await response.json().catch(() => null);
+          throw new Error(result?.error || 'Simple Format export failed');
+        }
+        code = await response.text();
+      } else {
+        // No dev server in production: the compiler is a separate chunk, fetched on first use
+        const [{ generateExternalEditorCode }, resolveImport] = await Promise.all([
+          import('../runtime/transpile'),
+          loadRuntimeSources(),
+        ]);
+        code = await generateExternalEditorCode(entry.definition, params, entry.source, { resolveImport });
+      }
+      copyToClipboard(code, 'simple');
+    } catch (err) {
+      console.error('Failed to generate Simple Format:', err);
+      setSimpleFormatError(err instanceof Error ? err.message : 'Simple Format export failed');
     }
-    copyToClipboard(code, 'simple');
   };
 
   const handleDownloadCode = () => {
     if (entry.source) {
       downloadFile(
         entry.source,
-        `${getDefinitionId()}.ts`,
+        `${getDefinitionId(entry)}.ts`,
         'text/typescript'
       );
     }
@@ -111,13 +835,7 @@ export function ExportPanel({ entry, params }: ExportPanelProps) {
     // Copy into a new ArrayBuffer to avoid SharedArrayBuffer typing issues
     const zipBytes = new Uint8Array(zipped.byteLength);
     zipBytes.set(zipped);
-    const blob = new Blob([zipBytes], { type: 'application/zip' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${getDefinitionId()}.zip`;
-    a.click();
-    URL.revokeObjectURL(url);
+    downloadBlob(new Blob([zipBytes], { type: 'application/zip' }), `${getDefinitionId(entry)}.zip`);
   };
 
   return (
@@ -184,6 +902,7 @@ export function ExportPanel({ entry, params }: ExportPanelProps) {
               )}
             </Button>
           </div>
+          {simpleFormatError && <p className="text-xs text-destructive">{simpleFormatError}</p>}
         </div>
 
         <div className="space-y-2">
@@ -220,6 +939,31 @@ export function ExportPanel({ entry, params }: ExportPanelProps) {
           </div>
         </div>
 
+        {formats.length > 0 && (
+          <ExportField label="Formats">
+            <select
+              value={allFormats ? 'all' : 'current'}
+              onChange={(e) => setAllFormats(e.target.value === 'all')}
+              className={selectClassName}
+            >
+              <option value="current">{format ?? 'Original'}</option>
+              <option value="all">All ({formats.join(', ')})</option>
+            </select>
+          </ExportField>
+        )}
+
+        <VideoExportSection entry={formatted} params={params} audio={audio} targets={targets} />
+
+        <AnimatedImageExportSection entry={formatted} params={params} targets={targets} />
+
+        <SequenceExportSection entry={formatted} params={params} targets={targets} />
+
+        <LottieExportSection entry={formatted} params={params} targets={targets} />
+
+        <SvgExportSection entry={formatted} params={params} targets={targets} />
+
+        <WebComponentExportSection entry={entry} />
+
         {entry.meta?.prompt && (
           <div className="space-y-2">
             <h4 className="text-sm font-medium">Source Prompt</h4>
@@ -0,0 +1,225 @@
+import { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Diamond, Plus, Trash2 } from 'lucide-react';
+import type { ParamSchema } from '../runtime/types';
+import {
+  KEYFRAME_EASINGS,
+  isKeyframeable,
+  moveKeyframe,
+  removeKeyframe,
+  setKeyframe,
+  setKeyframeEasing,
+  type KeyframeEasing,
+  type KeyframeTracks,
+} from '../runtime/keyframes';
+
+interface KeyframeTimelineProps {
+  schema: ParamSchema;
+  /** Current (un-keyframed) param values, used as the value of new keys */
+  params: Record<string, unknown>;
+  tracks: KeyframeTracks;
+  onChange: (tracks: KeyframeTracks) => void;
+  /** Playhead position, 0-1 */
+  progress: number;
+  durationSec: number;
+  onSeek: (time: number) => void;
+}
+
+interface SelectedKey {
+  track: string;
+  index: number;
+}
+
+/** Param labels by key, walking into folders */
+function collectLabels(schema: Record<string, unknown>, labels: Record<string, string> = {}) {
+  for (const [key, param] of Object.entries(schema)) {
+    if (!param || typeof param !== 'object') continue;
+    if ('schema' in param && typeof param.schema === 'object' && param.schema) {
+      collectLabels(param.schema as Record<string, unknown>, labels);
+    } else {
+      const label = 'label' in param && typeof param.label === 'string' ? param.label : '';
+      labels[key] = label || key.replace(/([A-Z])/g, ' $1').replace(/^./, (c) => c.toUpperCase());
+    }
+  }
+  return labels;
+}
+
+/**
+ * Keyframe tracks under the Player scrubber. Click a key to select it,
+ * drag to move it, and use the key button on a track to set a key at the
+ * playhead from the current parameter value.
+ */
+export function KeyframeTimeline({
+  schema,
+  params,
+  tracks,
+  onChange,
+  progress,
+  durationSec,
+  onSeek,
+}: KeyframeTimelineProps) {
+  const [selected, setSelected] = useState<SelectedKey | null>(null);
+  const [newTrack, setNewTrack] = useState('');
+  const dragRef = useRef<{ key: SelectedKey; start: KeyframeTracks; lane: DOMRect } | null>(null);
+
+  const labels = collectLabels(schema);
+  const keyframeable = Object.keys(params).filter((key) => isKeyframeable(params[key]));
+  const available = keyframeable.filter((key) => !tracks[key]);
+  const trackKeys = Object.keys(tracks);
+  const selectedKey = selected ? tracks[selected.track]?.[selected.index] : undefined;
+
+  const addKey = (track: string) => {
+    const next = setKeyframe(tracks, track, progress, params[track]);
+    onChange(next);
+    setSelected({ track, index: next[track].findIndex((k) => Math.abs(k.at - progress) <= 0.001) });
+  };
+
+  const handleAddTrack = () => {
+    if (!newTrack) return;
+    addKey(newTrack);
+    setNewTrack('');
+  };
+
+  const deleteSelected = () => {
+    if (!selected) return;
+    onChange(removeKeyframe(tracks, selected.track, selected.index));
+    setSelected(null);
+  };
+
+  const positionFromPointer = (clientX: number, lane: DOMRect) =>
+    Math.min(1, Math.max(0, (clientX - lane.left) / lane.width));
+
+  const handleKeyPointerDown = (e: React.PointerEvent, track: string, index: number) => {
+    e.stopPropagation();
+    const lane = (e.currentTarget.parentElement as HTMLElement).getBoundingClientRect();
+    (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+    dragRef.current = { key: { track, index }, start: tracks, lane };
+    setSelected({ track, index });
+  };
+
+  const handleKeyPointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const at = positionFromPointer(e.clientX, drag.lane);
+    const next = moveKeyframe(drag.start, drag.key.track, drag.key.index, at);
+    // Sorting may change the key's index; follow the moved key
+    const moved = next[drag.key.track].findIndex((k) => k.at === at && k.value === drag.start[drag.key.track][drag.key.index].value);
+    onChange(next);
+    setSelected({ track: drag.key.track, index: moved === -1 ? drag.key.index : moved });
+  };
+
+  const handleKeyPointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const handleLaneClick = (e: React.MouseEvent) => {
+    const lane = e.currentTarget.getBoundingClientRect();
+    onSeek(positionFromPointer(e.clientX, lane) * durationSec);
+    setSelected(null);
+  };
+
+  if (keyframeable.length === 0) return null;
+
+  return (
+    <div
+      className="mt-3 space-y-1.5"
+      tabIndex={-1}
+      onKeyDown={(e) => {
+        if ((e.key === 'Delete' || e.key === 'Backspace') && selected) {
+          e.preventDefault();
+          deleteSelected();
+        }
+      }}
+    >
+      {trackKeys.map((track) => (
+        <div key={track} className="flex items-center gap-2">
+          <span className="w-28 flex-shrink-0 truncate text-xs text-muted-foreground" title={labels[track] ?? track}>
+            {labels[track] ?? track}
+          </span>
+          <div
+            className="relative h-6 flex-1 cursor-pointer rounded bg-muted"
+            onClick={handleLaneClick}
+          >
+            <div
+              className="pointer-events-none absolute inset-y-0 w-px bg-primary/60"
+              style={{ left: `${progress * 100}%` }}
+            />
+            {tracks[track].map((key, index) => {
+              const isSelected = selected?.track === track && selected.index === index;
+              return (
+                <div
+                  key={index}
+                  role="button"
+                  title={`${(key.at * durationSec).toFixed(2)}s`}
+                  className={`absolute top-1/2 h-3 w-3 -translate-x-1/2 -translate-y-1/2 rotate-45 cursor-grab border touch-none ${
+                    isSelected ? 'border-primary bg-primary' : 'border-foreground/60 bg-background'
+                  }`}
+                  style={{ left: `${key.at * 100}%` }}
+                  onClick={(e) => e.stopPropagation()}
+                  onPointerDown={(e) => handleKeyPointerDown(e, track, index)}
+                  onPointerMove={handleKeyPointerMove}
+                  onPointerUp={handleKeyPointerUp}
+                />
+              );
+            })}
+          </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6 flex-shrink-0"
+            title="Set key at playhead"
+            onClick={() => addKey(track)}
+          >
+            <Diamond className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      ))}
+
+      <div className="flex flex-wrap items-center gap-2 pt-1 text-xs">
+        {available.length > 0 && (
+          <>
+            <select
+              value={newTrack}
+              onChange={(e) => setNewTrack(e.target.value)}
+              className="h-7 px-2 text-xs rounded-md bg-muted border-0 text-foreground"
+            >
+              <option value="">Keyframe a parameter…</option>
+              {available.map((key) => (
+                <option key={key} value={key}>
+                  {labels[key] ?? key}
+                </option>
+              ))}
+            </select>
+            <Button variant="outline" size="sm" className="h-7" onClick={handleAddTrack} disabled={!newTrack}>
+              <Plus className="h-3.5 w-3.5" />
+              Add key
+            </Button>
+          </>
+        )}
+
+        {selected && selectedKey && (
+          <div className="ml-auto flex items-center gap-2">
+            <span className="text-muted-foreground">
+              {labels[selected.track] ?? selected.track} @ {(selectedKey.at * durationSec).toFixed(2)}s
+            </span>
+            <select
+              value={selectedKey.easing ?? 'easeInOut'}
+              onChange={(e) => onChange(setKeyframeEasing(tracks, selected.track, selected.index, e.target.value as KeyframeEasing))}
+              className="h-7 px-2 text-xs rounded-md bg-muted border-0 text-foreground"
+              title="Curve to the next key"
+            >
+              {KEYFRAME_EASINGS.map((easing) => (
+                <option key={easing} value={easing}>
+                  {easing}
+                </option>
+              ))}
+            </select>
+            <Button variant="ghost" size="icon" className="h-7 w-7" title="Delete key" onClick={deleteSelected}>
+              <Trash2 className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
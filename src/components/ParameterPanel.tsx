@@ -3,19 +3,46 @@ import { Slider } from '@/components/ui/slider';
 import { Switch } from '@/components/ui/switch';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
 import {
   Collapsible,
   CollapsibleContent,
   CollapsibleTrigger,
 } from '@/components/ui/collapsible';
-import { ChevronDown, ChevronRight } from 'lucide-react';
+import { ChevronDown, ChevronRight, Cable, Dices, X } from 'lucide-react';
 import type { ParamSchema } from '../runtime/types';
+import { formatControl, type ControlMapping, type ControlMappings } from '../runtime/controls';
+import { rollSeed } from '../runtime/random';
+
+/** MIDI / bridge bindings, as returned by useControlMappings */
+export interface ControlBindings {
+  mappings: ControlMappings;
+  learnMode: boolean;
+  onLearnModeChange: (enabled: boolean) => void;
+  /** Param waiting for a control to move, if any */
+  learning: string | null;
+  onLearn: (key: string | null) => void;
+  onUnmap: (key: string) => void;
+  onMappingChange: (key: string, mapping: ControlMapping) => void;
+  error?: string | null;
+}
+
+/** The animation's random seed, for animations that declare one */
+export interface SeedControl {
+  value: number;
+  onChange: (seed: number) => void;
+}
 
 interface ParameterPanelProps {
   schema: ParamSchema;
   values: Record<string, unknown>;
   onChange: (key: string, value: unknown) => void;
   title?: string;
+  /** Enables MIDI learn for number, boolean and select params */
+  bindings?: ControlBindings;
+  /** Shows a Seed control with a re-roll button above the params */
+  seed?: SeedControl;
 }
 
 // Type guards for parameter types
@@ -298,18 +325,115 @@ function StringControl({
   );
 }
 
+// Seed input with a re-roll button
+function SeedInput({ seed }: { seed: SeedControl }) {
+  return (
+    <div className="flex items-center justify-between gap-3">
+      <Label className="text-xs text-muted-foreground">Seed</Label>
+      <div className="flex items-center gap-1">
+        <Input
+          type="number"
+          value={seed.value}
+          onChange={(e) => seed.onChange(parseInt(e.target.value, 10) || 0)}
+          step={1}
+          className="w-24 h-7 text-xs text-right bg-muted border-0"
+        />
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          title="Re-roll"
+          onClick={() => seed.onChange(rollSeed())}
+        >
+          <Dices className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// MIDI learn row shown under a control in learn mode
+function ControlBinding({
+  paramKey,
+  param,
+  bindings,
+}: {
+  paramKey: string;
+  param: unknown;
+  bindings: ControlBindings;
+}) {
+  const mapping = bindings.mappings[paramKey];
+  const listening = bindings.learning === paramKey;
+  const numberParam = isNumberParam(param) ? param : null;
+
+  const handleRangeChange = (bound: 'min' | 'max', text: string) => {
+    if (!mapping) return;
+    const value = parseFloat(text);
+    bindings.onMappingChange(paramKey, { ...mapping, [bound]: Number.isFinite(value) ? value : undefined });
+  };
+
+  return (
+    <div className="mt-2 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <Button
+          variant={listening ? 'default' : 'outline'}
+          size="sm"
+          className="h-6 px-2"
+          onClick={() => bindings.onLearn(listening ? null : paramKey)}
+        >
+          {listening ? 'Move a control…' : mapping ? 'Relearn' : 'Learn'}
+        </Button>
+        {mapping && (
+          <div className="flex items-center gap-1 min-w-0">
+            <Badge variant="secondary" className="font-mono text-[10px] truncate">
+              {formatControl(mapping.control)}
+            </Badge>
+            <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => bindings.onUnmap(paramKey)}>
+              <X className="h-3 w-3" />
+            </Button>
+          </div>
+        )}
+      </div>
+      {mapping && numberParam && (
+        <div className="flex items-center justify-between gap-2">
+          <Label className="text-xs text-muted-foreground">Range</Label>
+          <div className="flex items-center gap-1">
+            <Input
+              type="number"
+              value={mapping.min ?? numberParam.min ?? 0}
+              onChange={(e) => handleRangeChange('min', e.target.value)}
+              step={numberParam.step ?? 1}
+              className="w-16 h-6 text-xs text-right bg-muted border-0"
+            />
+            <span className="text-xs text-muted-foreground">–</span>
+            <Input
+              type="number"
+              value={mapping.max ?? numberParam.max ?? 100}
+              onChange={(e) => handleRangeChange('max', e.target.value)}
+              step={numberParam.step ?? 1}
+              className="w-16 h-6 text-xs text-right bg-muted border-0"
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
 // Folder/section component
 function FolderSection({
   name,
   schema,
   values,
   onChange,
+  bindings,
   defaultOpen = true,
 }: {
   name: string;
   schema: Record<string, unknown>;
   values: Record<string, unknown>;
   onChange: (key: string, value: unknown) => void;
+  bindings?: ControlBindings;
   defaultOpen?: boolean;
 }) {
   const [isOpen, setIsOpen] = useState(defaultOpen);
@@ -330,6 +454,7 @@ function FolderSection({
             schema={schema}
             values={values}
             onChange={onChange}
+            bindings={bindings}
           />
         </div>
       </CollapsibleContent>
@@ -342,11 +467,24 @@ function ParameterControls({
   schema,
   values,
   onChange,
+  bindings,
 }: {
   schema: Record<string, unknown>;
   values: Record<string, unknown>;
   onChange: (key: string, value: unknown) => void;
+  bindings?: ControlBindings;
 }) {
+  // In learn mode, mappable controls get a binding row underneath
+  const withBinding = (key: string, param: unknown, control: React.ReactElement) => {
+    if (!bindings?.learnMode) return control;
+    return (
+      <div key={key}>
+        {control}
+        <ControlBinding paramKey={key} param={param} bindings={bindings} />
+      </div>
+    );
+  };
+
   const renderControl = (key: string, param: unknown) => {
     const currentValue = values[key];
 
@@ -359,6 +497,7 @@ function ParameterControls({
           schema={param.schema}
           values={values}
           onChange={onChange}
+          bindings={bindings}
           defaultOpen={!param.collapsed}
         />
       );
@@ -366,7 +505,7 @@ function ParameterControls({
 
     // Number parameter
     if (isNumberParam(param)) {
-      return (
+      return withBinding(key, param, (
         <NumberControl
           key={key}
           paramKey={key}
@@ -374,7 +513,7 @@ function ParameterControls({
           value={(currentValue as number) ?? param.value}
           onChange={(v) => onChange(key, v)}
         />
-      );
+      ));
     }
 
     // Color parameter (check before generic string)
@@ -392,7 +531,7 @@ function ParameterControls({
 
     // Boolean parameter
     if (isBooleanParam(param)) {
-      return (
+      return withBinding(key, param, (
         <BooleanControl
           key={key}
           paramKey={key}
@@ -400,12 +539,12 @@ function ParameterControls({
           value={(currentValue as boolean) ?? param.value}
           onChange={(v) => onChange(key, v)}
         />
-      );
+      ));
     }
 
     // Select parameter
     if (isSelectParam(param)) {
-      return (
+      return withBinding(key, param, (
         <SelectControl
           key={key}
           paramKey={key}
@@ -413,7 +552,7 @@ function ParameterControls({
           value={(currentValue as string) ?? param.value}
           onChange={(v) => onChange(key, v)}
         />
-      );
+      ));
     }
 
     // String parameter (plain text input)
@@ -444,12 +583,34 @@ export function ParameterPanel({
   values,
   onChange,
   title = 'Parameters',
+  bindings,
+  seed,
 }: ParameterPanelProps) {
   return (
     <div className="w-full">
-      <h3 className="text-sm font-medium mb-4">{title}</h3>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-medium">{title}</h3>
+        {bindings && (
+          <Button
+            variant={bindings.learnMode ? 'default' : 'outline'}
+            size="sm"
+            className="h-7 px-2"
+            onClick={() => bindings.onLearnModeChange(!bindings.learnMode)}
+          >
+            <Cable className="h-3.5 w-3.5" />
+            MIDI learn
+          </Button>
+        )}
+      </div>
+      {bindings?.learnMode && (
+        <p className="text-xs text-muted-foreground mb-4">
+          Press Learn, then move a knob, fader or pad to bind it.
+          {bindings.error && ` ${bindings.error}; bridge messages still work.`}
+        </p>
+      )}
       <div className="space-y-4">
-        <ParameterControls schema={schema} values={values} onChange={onChange} />
+        {seed && <SeedInput seed={seed} />}
+        <ParameterControls schema={schema} values={values} onChange={onChange} bindings={bindings} />
       </div>
     </div>
   );
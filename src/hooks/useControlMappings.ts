@@ -0,0 +1,133 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  applyControl,
+  collectMappableParams,
+  connectControlBridge,
+  connectMidi,
+  type ControlMapping,
+  type ControlMappings,
+  type ControlMessage,
+} from '../runtime/controls';
+import type { ParamSchema } from '../runtime/types';
+
+const STORAGE_KEY_PREFIX = 'control-mappings.v1:';
+
+function loadMappings(animationId: string): ControlMappings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY_PREFIX + animationId);
+    const parsed = stored ? JSON.parse(stored) : undefined;
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * MIDI / bridge control bindings for an animation's params, saved per
+ * animation. Inputs connect once learn mode is first turned on or a saved
+ * binding exists; in learn mode, the next control that moves binds to the
+ * param being learned.
+ */
+export function useControlMappings(
+  animationId: string,
+  schema: ParamSchema,
+  onChange: (key: string, value: unknown) => void
+) {
+  const [mappings, setMappings] = useState<ControlMappings>(() => loadMappings(animationId));
+  const [learnMode, setLearnMode] = useState(false);
+  const [learning, setLearning] = useState<string | null>(null);
+  const [midiError, setMidiError] = useState<string | null>(null);
+  const enabled = learnMode || Object.keys(mappings).length > 0;
+
+  useEffect(() => {
+    if (!animationId) return;
+    try {
+      localStorage.setItem(STORAGE_KEY_PREFIX + animationId, JSON.stringify(mappings));
+    } catch (error) {
+      console.error('Failed to save control mappings:', error);
+    }
+  }, [animationId, mappings]);
+
+  // Inputs stay connected across renders, so the handler reads the latest state from a ref
+  const stateRef = useRef({ mappings, learning, schema, onChange });
+  useEffect(() => {
+    stateRef.current = { mappings, learning, schema, onChange };
+  });
+
+  const handleMessage = useCallback(({ control, value }: ControlMessage) => {
+    const { mappings, learning, schema, onChange } = stateRef.current;
+    const params = collectMappableParams(schema);
+
+    if (learning && params[learning]) {
+      // A control drives one param; binding it elsewhere moves it
+      const next: ControlMappings = {};
+      for (const [key, mapping] of Object.entries(mappings)) {
+        if (mapping.control !== control) next[key] = mapping;
+      }
+      next[learning] = { control };
+      stateRef.current.mappings = next;
+      stateRef.current.learning = null;
+      setMappings(next);
+      setLearning(null);
+      return;
+    }
+
+    for (const [key, mapping] of Object.entries(mappings)) {
+      if (mapping.control === control && params[key]) {
+        onChange(key, applyControl(params[key], mapping, value));
+      }
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let stopMidi: (() => void) | undefined;
+    let cancelled = false;
+
+    connectMidi(handleMessage)
+      .then((stop) => {
+        if (cancelled) stop();
+        else stopMidi = stop;
+        setMidiError(null);
+      })
+      .catch((error) => {
+        setMidiError(error instanceof Error ? error.message : 'MIDI is unavailable');
+      });
+    // The WebSocket bridge is served by the dev server only
+    const stopBridge = import.meta.env.DEV ? connectControlBridge(handleMessage) : undefined;
+
+    return () => {
+      cancelled = true;
+      stopMidi?.();
+      stopBridge?.();
+    };
+  }, [enabled, handleMessage]);
+
+  const handleLearnModeChange = useCallback((enabled: boolean) => {
+    setLearnMode(enabled);
+    if (!enabled) setLearning(null);
+  }, []);
+
+  const unmap = useCallback((key: string) => {
+    setMappings((prev) => {
+      const next = { ...prev };
+      delete next[key];
+      return next;
+    });
+  }, []);
+
+  const updateMapping = useCallback((key: string, mapping: ControlMapping) => {
+    setMappings((prev) => ({ ...prev, [key]: mapping }));
+  }, []);
+
+  return {
+    mappings,
+    learnMode,
+    onLearnModeChange: handleLearnModeChange,
+    learning,
+    onLearn: setLearning,
+    onUnmap: unmap,
+    onMappingChange: updateMapping,
+    error: midiError,
+  };
+}
@@ -1,3 +1,5 @@
+// Must run before animation modules create Path2D objects
+import './runtime/path2d'
 import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
@@ -1,5 +1,5 @@
 import { useMemo, useState, useRef, useCallback } from 'react';
-import { Link } from 'react-router-dom';
+import { Link, useNavigate } from 'react-router-dom';
 import { useAnimationRegistry } from '../animations/registry';
 import { useDeletedAnimations } from '../hooks/useDeletedAnimations';
 import { useAnimationTabs } from '../hooks/useAnimationTabs';
@@ -36,7 +36,7 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
-import { Trash2, Copy, Check, Plus, FolderInput, MoreVertical, Save } from 'lucide-react';
+import { Trash2, Copy, Check, Plus, FolderInput, MoreVertical, Save, FileCode } from 'lucide-react';
 import { toast } from 'sonner';
 
 function getAnimationId(entry: { definition: any }) {
@@ -48,6 +48,7 @@ function getAnimationId(entry: { definition: any }) {
 }
 
 export function Gallery() {
+  const navigate = useNavigate();
   const animations = useAnimationRegistry();
   const { deleteAnimation, isDeleted } = useDeletedAnimations();
   const {
@@ -73,6 +74,13 @@ export function Gallery() {
   // Delete tab dialog
   const [deleteTabOpen, setDeleteTabOpen] = useState(false);
 
+  // Import code dialog
+  const [importOpen, setImportOpen] = useState(false);
+  const [importCode, setImportCode] = useState('');
+  const [importName, setImportName] = useState('');
+  const [importId, setImportId] = useState('');
+  const [importing, setImporting] = useState(false);
+
   // Save status
   const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'success' | 'error'>('idle');
 
@@ -140,6 +148,36 @@ export function Gallery() {
     setTimeout(() => setSaveStatus('idle'), 2000);
   };
 
+  const handleImportCode = async () => {
+    if (!importCode.trim()) return;
+    setImporting(true);
+    try {
+      const response = await fetch('/api/import-animation', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          code: importCode,
+          name: importName.trim() || undefined,
+          id: importId.trim() || undefined,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Import failed');
+
+      setImportOpen(false);
+      setImportCode('');
+      setImportName('');
+      setImportId('');
+      toast.success(`Imported "${data.id}" with ${data.params.length} parameter${data.params.length === 1 ? '' : 's'}`, {
+        action: { label: 'Open', onClick: () => navigate(data.path) },
+      });
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Import failed');
+    } finally {
+      setImporting(false);
+    }
+  };
+
   // ── Toast helper for tab moves ────────────────────────────────
   const notifyMove = useCallback(
     (animName: string, tabId: string | null) => {
@@ -236,7 +274,13 @@ export function Gallery() {
         <header className="border-b">
           <div className="container mx-auto px-6 py-4 flex items-center justify-between">
             <h1 className="text-xl font-semibold tracking-tight">Canvas Animation Lab</h1>
-            <ThemeToggle />
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" onClick={() => setImportOpen(true)}>
+                <FileCode className="h-4 w-4" />
+                Import code
+              </Button>
+              <ThemeToggle />
+            </div>
           </div>
         </header>
 
@@ -491,6 +535,61 @@ export function Gallery() {
         </DialogContent>
       </Dialog>
 
+      {/* ── Import code dialog ──────────────────────────────── */}
+      <Dialog open={importOpen} onOpenChange={setImportOpen}>
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Import code</DialogTitle>
+            <DialogDescription>
+              Paste Simple Format code — a <code>render(ctx, {'{ width, height, progress }'})</code> function.
+              Constants with literal values at the top become parameters.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="import-name">Name</Label>
+              <Input
+                id="import-name"
+                value={importName}
+                onChange={(e) => setImportName(e.target.value)}
+                placeholder="From the code comment"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="import-id">ID</Label>
+              <Input
+                id="import-id"
+                value={importId}
+                onChange={(e) => setImportId(e.target.value)}
+                placeholder="Derived from the name"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="import-code">Code</Label>
+            <textarea
+              id="import-code"
+              value={importCode}
+              onChange={(e) => setImportCode(e.target.value)}
+              placeholder={'const SPEED = 1;\n\nfunction render(ctx, { width, height, progress }) {\n  // ...\n}'}
+              spellCheck={false}
+              className="flex min-h-[280px] w-full rounded-md border border-input bg-transparent px-3 py-2 font-mono text-xs shadow-sm placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+            />
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setImportOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleImportCode} disabled={importing || !importCode.trim()}>
+              {importing ? 'Importing...' : 'Import'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* ── Delete tab dialog ───────────────────────────────── */}
       <Dialog open={deleteTabOpen} onOpenChange={setDeleteTabOpen}>
         <DialogContent>
@@ -1,9 +1,15 @@
-import { useEffect, useRef, useState, useCallback } from 'react';
+import { useEffect, useRef, useState, useCallback, useMemo } from 'react';
 import { useParams, Link } from 'react-router-dom';
 import { createPlayer, type PlayerControls } from '../runtime/player';
 import { useAnimationRegistry, getAnimationById } from '../animations/registry';
 import { ParameterPanel, useParameters } from '../components/ParameterPanel';
 import { ExportPanel } from '../components/ExportPanel';
+import { KeyframeTimeline } from '../components/KeyframeTimeline';
+import { useControlMappings } from '../hooks/useControlMappings';
+import { AudioInputPanel, DEFAULT_MICROPHONE, SYSTEM_AUDIO } from '../components/AudioInputPanel';
+import type { KeyframeTracks } from '../runtime/keyframes';
+import { getFormats, resolveFormat, type OutputFormat } from '../runtime/layout';
+import type { AudioTrack } from '../runtime/audio-track';
 import type { AnimationEntry } from '../runtime/types';
 import { isSimpleAnimation } from '../runtime/types';
 import { Button } from '@/components/ui/button';
@@ -58,6 +64,16 @@ export function Player() {
   return <PlayerView entry={entry} />;
 }
 
+/**
+ * Remove the fixed pixel display dimensions the player sets on the canvas.
+ * This lets CSS max-width/max-height + the intrinsic aspect ratio handle
+ * responsive scaling without squishing.
+ */
+function clearDisplaySize(canvas: HTMLCanvasElement) {
+  canvas.style.width = '';
+  canvas.style.height = '';
+}
+
 function PlayerView({ entry }: { entry: AnimationEntry }) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const playerRef = useRef<PlayerControls | null>(null);
@@ -70,6 +86,11 @@ function PlayerView({ entry }: { entry: AnimationEntry }) {
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [audioLoaded, setAudioLoaded] = useState(false);
   const [audioFileName, setAudioFileName] = useState<string | null>(null);
+  const [audioTrack, setAudioTrack] = useState<AudioTrack | null>(null);
+  const [liveInput, setLiveInput] = useState<string | null>(null);
+  const [inputGain, setInputGain] = useState(1);
+  const [monitor, setMonitor] = useState(false);
+  const [audioError, setAudioError] = useState<string | null>(null);
 
   const { definition } = entry;
   const isSimple = isSimpleAnimation(definition);
@@ -87,6 +108,34 @@ function PlayerView({ entry }: { entry: AnimationEntry }) {
     isSimple ? {} : definition.params.defaults
   );
 
+  // MIDI / control bridge bindings, saved per animation
+  const controlBindings = useControlMappings(
+    isSimple ? '' : definition.id,
+    isSimple ? {} : definition.params.schema,
+    handleParamChange
+  );
+
+  const [keyframes, setKeyframes] = useState<KeyframeTracks>(
+    () => (isSimple ? {} : definition.keyframes ?? {})
+  );
+
+  // Only animations that declare a seed get the Seed control
+  const [seed, setSeed] = useState<number | undefined>(() => (isSimple ? undefined : definition.seed));
+
+  // Exports render the keyframes and seed being edited, not just the saved ones
+  const exportEntry = useMemo<AnimationEntry>(
+    () => (isSimple ? entry : { ...entry, definition: { ...definition, keyframes, seed } }),
+    [entry, definition, isSimple, keyframes, seed]
+  );
+
+  // Aspect ratio being previewed; null is the animation's own size
+  const formats = getFormats(definition);
+  const [format, setFormat] = useState<OutputFormat | null>(null);
+  const playerDefinition = useMemo(
+    () => (format ? resolveFormat(definition, format) : definition),
+    [definition, format]
+  );
+
   const handleFrame = useCallback((frame: number, time: number) => {
     setCurrentFrame(frame);
     setCurrentTime(time);
@@ -99,16 +148,13 @@ function PlayerView({ entry }: { entry: AnimationEntry }) {
       canvas: canvasRef.current,
       animation: definition,
       params,
+      keyframes,
+      seed,
       onFrame: handleFrame,
       audioEnabled: isAudioAnimation,
     });
 
-    // Remove the fixed pixel display dimensions the player sets on the canvas.
-    // This lets CSS max-width/max-height + the intrinsic aspect ratio handle
-    // responsive scaling without squishing.
-    const canvas = canvasRef.current;
-    canvas.style.width = '';
-    canvas.style.height = '';
+    clearDisplaySize(canvasRef.current);
 
     // Autoplay on load
     playerRef.current.play();
@@ -118,14 +164,34 @@ function PlayerView({ entry }: { entry: AnimationEntry }) {
       playerRef.current?.destroy();
       setAudioLoaded(false);
       setAudioFileName(null);
+      setAudioTrack(null);
+      setLiveInput(null);
+      setInputGain(1);
+      setMonitor(false);
+      setAudioError(null);
     };
   }, [definition, isAudioAnimation]);
 
+  // Formats are swapped into the running player, so playback and audio carry on
+  useEffect(() => {
+    if (!playerRef.current || !canvasRef.current) return;
+    playerRef.current.setAnimation(playerDefinition);
+    clearDisplaySize(canvasRef.current);
+  }, [playerDefinition]);
+
   // Update params when they change
   useEffect(() => {
     playerRef.current?.setParams(params);
   }, [params]);
 
+  useEffect(() => {
+    playerRef.current?.setKeyframes(keyframes);
+  }, [keyframes]);
+
+  useEffect(() => {
+    if (seed !== undefined) playerRef.current?.setSeed(seed);
+  }, [seed]);
+
   const togglePlay = () => {
     playerRef.current?.toggle();
     setPlaying(playerRef.current?.isPlaying() ?? false);
@@ -150,10 +216,15 @@ function PlayerView({ entry }: { entry: AnimationEntry }) {
       await playerRef.current.loadAudio(file);
       setAudioLoaded(true);
       setAudioFileName(file.name);
+      setAudioTrack(playerRef.current.getAudioTrack());
+      setLiveInput(null);
+      setMonitor(playerRef.current.isMonitoring());
+      setAudioError(null);
     } catch (error) {
       console.error('Failed to load audio:', error);
       setAudioLoaded(false);
       setAudioFileName(null);
+      setAudioTrack(null);
     }
     
     // Reset input so the same file can be selected again
@@ -162,6 +233,49 @@ function PlayerView({ entry }: { entry: AnimationEntry }) {
     }
   };
 
+  const handleLiveInputChange = async (input: string | null) => {
+    const player = playerRef.current;
+    if (!player) return;
+
+    // A live input replaces any loaded file
+    setAudioLoaded(false);
+    setAudioFileName(null);
+    setAudioTrack(null);
+    setAudioError(null);
+
+    if (!input) {
+      player.unloadAudio();
+      setLiveInput(null);
+      setMonitor(false);
+      return;
+    }
+
+    try {
+      await player.loadLiveInput(
+        input === SYSTEM_AUDIO
+          ? { source: 'system' }
+          : { source: 'microphone', deviceId: input === DEFAULT_MICROPHONE ? undefined : input }
+      );
+      setLiveInput(input);
+      setMonitor(player.isMonitoring());
+    } catch (error) {
+      console.error('Failed to open live input:', error);
+      player.unloadAudio();
+      setLiveInput(null);
+      setAudioError(error instanceof Error ? error.message : 'Could not open the input');
+    }
+  };
+
+  const handleInputGainChange = (gain: number) => {
+    setInputGain(gain);
+    playerRef.current?.setInputGain(gain);
+  };
+
+  const handleMonitorChange = (enabled: boolean) => {
+    setMonitor(enabled);
+    playerRef.current?.setMonitor(enabled);
+  };
+
   const handleSaveDefaults = async () => {
     if (isSimple) return;
     
@@ -176,6 +290,8 @@ function PlayerView({ entry }: { entry: AnimationEntry }) {
         body: JSON.stringify({
           animationId: definition.id,
           params,
+          keyframes,
+          seed,
         }),
       });
 
@@ -274,8 +390,8 @@ function PlayerView({ entry }: { entry: AnimationEntry }) {
             ref={canvasRef}
             className="rounded-lg shadow-lg"
             style={{
-              maxWidth: `min(100%, ${definition.width ?? 800}px)`,
-              maxHeight: `min(100%, ${definition.height ?? 600}px)`,
+              maxWidth: `min(100%, ${playerDefinition.width ?? 800}px)`,
+              maxHeight: `min(100%, ${playerDefinition.height ?? 600}px)`,
               backgroundColor: definition.background || 'transparent',
             }}
           />
@@ -353,14 +469,34 @@ function PlayerView({ entry }: { entry: AnimationEntry }) {
                 schema={definition.params.schema}
                 values={params}
                 onChange={handleParamChange}
+                bindings={controlBindings}
+                seed={seed === undefined ? undefined : { value: seed, onChange: setSeed }}
               />
             )}
 
+            {isAudioAnimation && (
+              <>
+                <Separator className="my-4" />
+                <AudioInputPanel
+                  liveInput={liveInput}
+                  onLiveInputChange={handleLiveInputChange}
+                  gain={inputGain}
+                  onGainChange={handleInputGainChange}
+                  monitor={monitor}
+                  onMonitorChange={handleMonitorChange}
+                  hasAudio={audioLoaded || liveInput !== null}
+                  error={audioError}
+                />
+              </>
+            )}
+
             {showExport && (
               <div className="mt-4">
                 <ExportPanel
-                  entry={entry}
+                  entry={exportEntry}
                   params={params}
+                  audio={audioTrack}
+                  format={format}
                 />
               </div>
             )}
@@ -434,8 +570,33 @@ function PlayerView({ entry }: { entry: AnimationEntry }) {
               <span className="hidden sm:inline">Frame {currentFrame}</span>
               <span className="hidden md:inline">|</span>
               <span className="hidden md:inline">{definition.fps ?? 60} FPS</span>
+              {formats.length > 0 && (
+                <select
+                  value={format ?? ''}
+                  onChange={(e) => setFormat((e.target.value || null) as OutputFormat | null)}
+                  className="h-7 px-2 text-xs rounded-md bg-muted border-0 text-foreground"
+                  aria-label="Aspect ratio"
+                >
+                  <option value="">Original</option>
+                  {formats.map((f) => (
+                    <option key={f} value={f}>{f}</option>
+                  ))}
+                </select>
+              )}
             </div>
           </div>
+
+          {!isSimple && durationSec && (
+            <KeyframeTimeline
+              schema={definition.params.schema}
+              params={params}
+              tracks={keyframes}
+              onChange={setKeyframes}
+              progress={Math.min(currentTime / durationSec, 1)}
+              durationSec={durationSec}
+              onSeek={(time) => playerRef.current?.seek(time)}
+            />
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,289 @@
+/**
+ * Offline audio analysis
+ * Decodes an audio file and precomputes AudioData for every frame at a
+ * fixed fps, so audio-reactive animations render the same way on every
+ * run and exports stay in sync with the sound.
+ *
+ * @example
+ * const decoded = await decodeAudio(file);
+ * const track = analyzeAudio(decoded, { fps: 30 });
+ * const audio = track.getFrame(frameIndex);
+ */
+
+import {
+  createBeatTracker,
+  measureBands,
+  resolveAudioConfig,
+  toLogBins,
+  type AudioAnalysisConfig,
+  type AudioData,
+  type BeatData,
+} from './audio';
+
+/** Decoded PCM audio */
+export interface DecodedAudio {
+  /** Samples per second per channel */
+  sampleRate: number;
+  /** Samples per channel, -1 to 1 */
+  channels: Float32Array[];
+  /** Length in seconds */
+  duration: number;
+}
+
+/** Decoded audio with AudioData precomputed for each frame */
+export interface AudioTrack extends DecodedAudio {
+  /** Frames per second the analysis was computed at */
+  fps: number;
+  /** Number of analyzed frames */
+  frameCount: number;
+  /** AudioData for a frame index; silent past the end of the audio */
+  getFrame(index: number): AudioData;
+  /** AudioData for the frame showing at a time in seconds */
+  getData(time: number): AudioData;
+}
+
+export interface AnalyzeAudioOptions extends AudioAnalysisConfig {
+  /** Frames per second to analyze at */
+  fps: number;
+}
+
+/** Sample rate decoded audio is resampled to; Opus and AAC encoders both accept it */
+const DECODE_SAMPLE_RATE = 48000;
+
+/**
+ * Decode a RIFF/WAVE file with integer (8/16/24/32-bit) or float (32/64-bit)
+ * PCM samples, without Web Audio
+ */
+export function decodeWav(buffer: ArrayBuffer): DecodedAudio {
+  const view = new DataView(buffer);
+  const tag = (offset: number) =>
+    String.fromCharCode(...new Uint8Array(buffer, offset, 4));
+
+  if (buffer.byteLength < 12 || tag(0) !== 'RIFF' || tag(8) !== 'WAVE') {
+    throw new Error('Not a WAV file');
+  }
+
+  let format = 0;
+  let numberOfChannels = 0;
+  let sampleRate = 0;
+  let bitsPerSample = 0;
+  let dataOffset = -1;
+  let dataLength = 0;
+
+  for (let offset = 12; offset + 8 <= buffer.byteLength;) {
+    const id = tag(offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+    if (id === 'fmt ') {
+      format = view.getUint16(body, true);
+      numberOfChannels = view.getUint16(body + 2, true);
+      sampleRate = view.getUint32(body + 4, true);
+      bitsPerSample = view.getUint16(body + 14, true);
+      // WAVE_FORMAT_EXTENSIBLE keeps the real format in its sub-format GUID
+      if (format === 0xfffe && size >= 26) format = view.getUint16(body + 24, true);
+    } else if (id === 'data') {
+      dataOffset = body;
+      dataLength = Math.min(size, buffer.byteLength - body);
+      break;
+    }
+    // Chunks are padded to an even length
+    offset = body + size + (size % 2);
+  }
+
+  if (dataOffset < 0 || numberOfChannels === 0) throw new Error('WAV file has no audio data');
+  const isFloat = format === 3;
+  if (format !== 1 && !isFloat) throw new Error(`Unsupported WAV format ${format}`);
+
+  const bytesPerSample = bitsPerSample / 8;
+  const read: ((offset: number) => number) | undefined = isFloat
+    ? { 4: (o: number) => view.getFloat32(o, true), 8: (o: number) => view.getFloat64(o, true) }[bytesPerSample]
+    : {
+      1: (o: number) => (view.getUint8(o) - 128) / 128,
+      2: (o: number) => view.getInt16(o, true) / 32768,
+      3: (o: number) => (((view.getUint8(o + 2) << 24) | (view.getUint8(o + 1) << 16) | (view.getUint8(o) << 8)) >> 8) / 8388608,
+      4: (o: number) => view.getInt32(o, true) / 2147483648,
+    }[bytesPerSample];
+  if (!read) throw new Error(`Unsupported WAV sample size ${bitsPerSample} bits`);
+
+  const blockSize = bytesPerSample * numberOfChannels;
+  const length = Math.floor(dataLength / blockSize);
+  const channels = Array.from({ length: numberOfChannels }, () => new Float32Array(length));
+  for (let i = 0; i < length; i++) {
+    const block = dataOffset + i * blockSize;
+    for (let c = 0; c < numberOfChannels; c++) {
+      channels[c][i] = read(block + c * bytesPerSample);
+    }
+  }
+
+  return { sampleRate, channels, duration: length / sampleRate };
+}
+
+/**
+ * Decode an audio file. Uses OfflineAudioContext where available
+ * (resampling to 48kHz) and the WAV decoder otherwise.
+ */
+export async function decodeAudio(source: Blob | ArrayBuffer | string): Promise<DecodedAudio> {
+  const buffer = typeof source === 'string'
+    ? await (await fetch(source)).arrayBuffer()
+    : source instanceof ArrayBuffer ? source : await source.arrayBuffer();
+
+  if (typeof OfflineAudioContext === 'undefined') {
+    return decodeWav(buffer);
+  }
+
+  const context = new OfflineAudioContext(1, 1, DECODE_SAMPLE_RATE);
+  const audioBuffer = await context.decodeAudioData(buffer);
+  return {
+    sampleRate: audioBuffer.sampleRate,
+    channels: Array.from({ length: audioBuffer.numberOfChannels }, (_, c) => audioBuffer.getChannelData(c)),
+    duration: audioBuffer.duration,
+  };
+}
+
+/** In-place radix-2 FFT of real/imaginary arrays whose length is a power of two */
+function fft(real: Float64Array, imag: Float64Array): void {
+  const n = real.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+      [imag[i], imag[j]] = [imag[j], imag[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    const half = size >> 1;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < half; k++) {
+        const cos = Math.cos(angle * k);
+        const sin = Math.sin(angle * k);
+        const a = start + k;
+        const b = a + half;
+        const re = real[b] * cos - imag[b] * sin;
+        const im = real[b] * sin + imag[b] * cos;
+        real[b] = real[a] - re;
+        imag[b] = imag[a] - im;
+        real[a] += re;
+        imag[a] += im;
+      }
+    }
+  }
+}
+
+/** Mix all channels down to mono, like an AnalyserNode does */
+function mixToMono(channels: Float32Array[]): Float32Array {
+  if (channels.length === 1) return channels[0];
+  const mono = new Float32Array(channels[0]?.length ?? 0);
+  for (const channel of channels) {
+    for (let i = 0; i < mono.length; i++) mono[i] += channel[i] / channels.length;
+  }
+  return mono;
+}
+
+/**
+ * Precompute AudioData for every frame of decoded audio. Frame `i` analyzes
+ * the fftSize samples leading up to `i / fps`, with the same windowing,
+ * smoothing and byte scaling as the live AnalyserNode, and the same
+ * config options as createAudioAnalyzer.
+ */
+export function analyzeAudio(audio: DecodedAudio, options: AnalyzeAudioOptions): AudioTrack {
+  const { fps } = options;
+  const {
+    fftSize,
+    smoothingTimeConstant,
+    minDecibels,
+    maxDecibels,
+    bands: bandRanges,
+    logBins,
+  } = resolveAudioConfig(options);
+
+  const { sampleRate } = audio;
+  const samples = mixToMono(audio.channels);
+  const binCount = fftSize / 2;
+  const outputBins = logBins || binCount;
+  const frameCount = Math.ceil(audio.duration * fps);
+
+  const frequencies = new Uint8Array(frameCount * outputBins);
+  const waveforms = new Uint8Array(frameCount * binCount);
+  const linear = new Uint8Array(binCount);
+  const bands: Pick<AudioData, 'amplitude' | 'bass' | 'mid' | 'high' | 'bands'>[] = [];
+  const beats: BeatData[] = [];
+
+  // Blackman window
+  const blackman = Float64Array.from({ length: fftSize }, (_, i) => {
+    const x = (2 * Math.PI * i) / fftSize;
+    return 0.42 - 0.5 * Math.cos(x) + 0.08 * Math.cos(2 * x);
+  });
+  const real = new Float64Array(fftSize);
+  const imag = new Float64Array(fftSize);
+  const smoothed = new Float64Array(binCount);
+  const trackBeats = createBeatTracker();
+  const byteScale = 255 / (maxDecibels - minDecibels);
+
+  for (let index = 0; index < frameCount; index++) {
+    const end = Math.round((index / fps) * sampleRate);
+    const start = end - fftSize;
+    const waveform = waveforms.subarray(index * binCount, (index + 1) * binCount);
+
+    for (let i = 0; i < fftSize; i++) {
+      const sample = samples[start + i] ?? 0;
+      real[i] = sample * blackman[i];
+      imag[i] = 0;
+      if (i < binCount) waveform[i] = Math.max(0, Math.min(255, Math.floor(128 * (sample + 1))));
+    }
+    fft(real, imag);
+
+    for (let k = 0; k < binCount; k++) {
+      const magnitude = Math.hypot(real[k], imag[k]) / fftSize;
+      smoothed[k] = smoothingTimeConstant * smoothed[k] + (1 - smoothingTimeConstant) * magnitude;
+      const db = 20 * Math.log10(smoothed[k]);
+      linear[k] = Math.max(0, Math.min(255, Math.floor(byteScale * (db - minDecibels))));
+    }
+
+    const frequency = frequencies.subarray(index * outputBins, (index + 1) * outputBins);
+    if (logBins) toLogBins(linear, sampleRate, frequency);
+    else frequency.set(linear);
+
+    bands.push(measureBands(linear, waveform, sampleRate, bandRanges));
+    beats.push(trackBeats(linear, (index / fps) * 1000));
+  }
+
+  const silence: AudioData = {
+    frequency: new Uint8Array(outputBins),
+    waveform: new Uint8Array(binCount).fill(128),
+    amplitude: 0,
+    bass: 0,
+    mid: 0,
+    high: 0,
+    bands: Object.fromEntries(Object.keys(bandRanges).map((name) => [name, 0])),
+    isBeat: false,
+    onsetStrength: 0,
+    bpm: 0,
+    beatPhase: 0,
+  };
+
+  function getFrame(index: number): AudioData {
+    const frame = Math.floor(index);
+    if (frame < 0 || frame >= frameCount) return silence;
+    return {
+      frequency: frequencies.subarray(frame * outputBins, (frame + 1) * outputBins),
+      waveform: waveforms.subarray(frame * binCount, (frame + 1) * binCount),
+      ...bands[frame],
+      ...beats[frame],
+    };
+  }
+
+  return {
+    sampleRate,
+    channels: audio.channels,
+    duration: audio.duration,
+    fps,
+    frameCount,
+    getFrame,
+    // Tolerate float error in times computed as index / fps
+    getData: (time) => getFrame(Math.floor(time * fps + 1e-6)),
+  };
+}
@@ -1,10 +1,11 @@
 /**
  * Audio Analysis Service
- * Provides real-time audio analysis using Web Audio API
+ * Provides real-time audio analysis using Web Audio API, from an audio
+ * file or a live input stream (microphone, audio interface, system audio)
  */
 
 export interface AudioData {
-  /** FFT frequency bins (0-255 per bin) */
+  /** FFT frequency bins, or log-spaced bins when configured (0-255 per bin) */
   frequency: Uint8Array;
   /** Time domain waveform samples (0-255, 128 = silence) */
   waveform: Uint8Array;
@@ -16,22 +17,100 @@ export interface AudioData {
   mid: number;
   /** High frequency energy (0-1) */
   high: number;
-  /** Beat detected this frame */
+  /** Energy of every configured band by name, including bass, mid and high (0-1) */
+  bands: Record<string, number>;
+  /** Onset detected this frame */
   isBeat: boolean;
+  /** Spectral flux against the adaptive onset threshold (0-1, 0.5 at the threshold) */
+  onsetStrength: number;
+  /** Estimated tempo in beats per minute (0 until enough onsets are heard) */
+  bpm: number;
+  /** Position within the current beat: 0 on the beat, rising to 1 (0 without a tempo) */
+  beatPhase: number;
+}
+
+/** Frequency range in Hz: [min, max) */
+export type FrequencyBand = [number, number];
+
+/** Per-animation audio analysis settings */
+export interface AudioAnalysisConfig {
+  /** FFT window size, a power of two from 32 to 32768 (default: 256) */
+  fftSize?: number;
+  /** Averaging with the previous frame, 0-1 (default: 0.8) */
+  smoothingTimeConstant?: number;
+  /** dB mapped to 0 in the byte frequency data (default: -100) */
+  minDecibels?: number;
+  /** dB mapped to 255 in the byte frequency data (default: -30) */
+  maxDecibels?: number;
+  /**
+   * Named bands in Hz, merged over the default bass, mid and high.
+   * Their energies are reported in AudioData.bands.
+   */
+  bands?: Record<string, FrequencyBand>;
+  /** Spread `frequency` over this many log-spaced bins from 20Hz up (default: linear FFT bins) */
+  logBins?: number;
+}
+
+/** Bass, mid and high in Hz; the same bins as 5% / 30% / the rest of a 256-point FFT at 44.1kHz */
+const DEFAULT_BANDS: Record<string, FrequencyBand> = {
+  bass: [0, 1000],
+  mid: [1000, 6500],
+  high: [6500, 24000],
+};
+
+/** Lowest frequency of log-spaced bins */
+const LOG_MIN_FREQUENCY = 20;
+
+/** Fill in defaults and validate an audio config */
+export function resolveAudioConfig(config: AudioAnalysisConfig = {}): Required<AudioAnalysisConfig> {
+  const fftSize = config.fftSize ?? 256;
+  if (!Number.isInteger(Math.log2(fftSize)) || fftSize < 32 || fftSize > 32768) {
+    throw new Error(`fftSize must be a power of two from 32 to 32768, got ${fftSize}`);
+  }
+  return {
+    fftSize,
+    smoothingTimeConstant: config.smoothingTimeConstant ?? 0.8,
+    minDecibels: config.minDecibels ?? -100,
+    maxDecibels: config.maxDecibels ?? -30,
+    bands: { ...DEFAULT_BANDS, ...config.bands },
+    logBins: config.logBins ?? 0,
+  };
+}
+
+/** Where live input comes from */
+export interface LiveInputOptions {
+  /** An audio input device, or system/tab audio shared through screen capture (default: 'microphone') */
+  source?: 'microphone' | 'system';
+  /** Audio input device id from getAudioInputDevices() (default: the system default input) */
+  deviceId?: string;
 }
 
 export interface AudioAnalyzer {
-  /** Load an audio file */
+  /** Load an audio file; it plays through the speakers (monitor on) */
   load(file: File | string): Promise<void>;
+  /**
+   * Analyze a live stream instead of a file. The analyzer takes ownership
+   * and stops its tracks when replaced or destroyed. Monitoring starts off
+   * so a microphone never feeds back through the speakers.
+   */
+  loadStream(stream: MediaStream): Promise<void>;
+  /** Whether the current source is a live stream */
+  isLive(): boolean;
+  /** Input gain applied before analysis and monitoring (1 = unchanged) */
+  setGain(gain: number): void;
+  /** Route the input to the speakers */
+  setMonitor(enabled: boolean): void;
+  /** Check if the input is routed to the speakers */
+  isMonitoring(): boolean;
   /** Start playback */
   play(): void;
   /** Pause playback */
   pause(): void;
   /** Seek to time in seconds */
   seek(time: number): void;
-  /** Get current playback time in seconds */
+  /** Get current playback time in seconds (time since the stream started when live) */
   getTime(): number;
-  /** Get audio duration in seconds */
+  /** Get audio duration in seconds (Infinity when live) */
   getDuration(): number;
   /** Check if audio is playing */
   isPlaying(): boolean;
@@ -43,56 +122,302 @@ export interface AudioAnalyzer {
   destroy(): void;
 }
 
+function calculateRMS(data: Uint8Array, start: number, end: number): number {
+  let sum = 0;
+  const length = Math.min(end, data.length) - start;
+  if (length <= 0) return 0;
+  
+  for (let i = start; i < Math.min(end, data.length); i++) {
+    // Normalize to -1 to 1 range
+    const normalized = (data[i] - 128) / 128;
+    sum += normalized * normalized;
+  }
+  
+  return Math.sqrt(sum / length);
+}
+
+/** Average of the linear FFT bins whose center frequency is in a band, 0-1 */
+function calculateBandEnergy(
+  frequency: Uint8Array,
+  sampleRate: number,
+  [min, max]: FrequencyBand
+): number {
+  // Bin k is centered on k * sampleRate / fftSize, and fftSize is twice the bin count
+  const binWidth = sampleRate / (frequency.length * 2);
+  const start = Math.max(0, Math.ceil(min / binWidth));
+  const end = Math.min(frequency.length, Math.ceil(max / binWidth));
+  if (end <= start) {
+    // Band narrower than a bin: use the nearest one
+    const nearest = Math.min(frequency.length - 1, Math.round((min + max) / 2 / binWidth));
+    return frequency[nearest] / 255;
+  }
+  
+  let sum = 0;
+  for (let i = start; i < end; i++) {
+    sum += frequency[i];
+  }
+  
+  // Normalize to 0-1
+  return sum / ((end - start) * 255);
+}
+
+/**
+ * Get amplitude and band energies from one frame of linear byte frequency
+ * and waveform data
+ */
+export function measureBands(
+  frequency: Uint8Array,
+  waveform: Uint8Array,
+  sampleRate: number,
+  bandRanges: Record<string, FrequencyBand> = DEFAULT_BANDS
+): Pick<AudioData, 'amplitude' | 'bass' | 'mid' | 'high' | 'bands'> {
+  const bands: Record<string, number> = {};
+  for (const [name, range] of Object.entries(bandRanges)) {
+    bands[name] = calculateBandEnergy(frequency, sampleRate, range);
+  }
+  
+  // Calculate overall amplitude from waveform
+  const amplitude = calculateRMS(waveform, 0, waveform.length);
+  
+  return {
+    amplitude: Math.min(1, amplitude * 2), // Scale up for visibility
+    bass: bands.bass,
+    mid: bands.mid,
+    high: bands.high,
+    bands,
+  };
+}
+
+/**
+ * Resample linear FFT bins into `output`'s length of log-spaced bins from
+ * 20Hz to the Nyquist frequency, taking the loudest bin in each range
+ */
+export function toLogBins(frequency: Uint8Array, sampleRate: number, output: Uint8Array): Uint8Array {
+  const nyquist = sampleRate / 2;
+  const binWidth = nyquist / frequency.length;
+  const ratio = nyquist / LOG_MIN_FREQUENCY;
+  for (let i = 0; i < output.length; i++) {
+    const low = LOG_MIN_FREQUENCY * Math.pow(ratio, i / output.length);
+    const high = LOG_MIN_FREQUENCY * Math.pow(ratio, (i + 1) / output.length);
+    const start = Math.min(frequency.length - 1, Math.floor(low / binWidth));
+    const end = Math.min(frequency.length, Math.max(start + 1, Math.ceil(high / binWidth)));
+    let max = 0;
+    for (let k = start; k < end; k++) {
+      max = Math.max(max, frequency[k]);
+    }
+    output[i] = max;
+  }
+  return output;
+}
+
+/** Onset and tempo fields of AudioData */
+export type BeatData = Pick<AudioData, 'isBeat' | 'onsetStrength' | 'bpm' | 'beatPhase'>;
+
+// Onset detection
+const FLUX_WINDOW_MS = 1500;      // flux history the adaptive threshold looks at
+const THRESHOLD_DEVIATIONS = 1.5; // onsets stand this many deviations above the mean
+const MIN_FLUX = 0.004;           // floor so near-silence doesn't trigger onsets
+const MIN_ONSET_GAP_MS = 100;
+
+// Tempo estimation
+const TEMPO_WINDOW_MS = 8000;     // onsets kept for the tempo estimate
+const MAX_INTERVAL_MS = 2000;     // longest inter-onset interval that votes
+const MIN_BPM = 90;               // estimates are folded into MIN_BPM..2*MIN_BPM
+const MIN_TEMPO_VOTES = 3;
+
+/**
+ * Estimate tempo from a histogram of the intervals between onsets, folded
+ * into one octave so half and double tempos vote together
+ */
+function estimateTempo(onsets: number[]): number {
+  const votes = new Float64Array(MIN_BPM + 1);
+  const tempos: number[] = [];
+
+  for (let i = 0; i < onsets.length; i++) {
+    for (let j = i + 1; j < onsets.length && onsets[j] - onsets[i] <= MAX_INTERVAL_MS; j++) {
+      let tempo = 60000 / (onsets[j] - onsets[i]);
+      while (tempo < MIN_BPM) tempo *= 2;
+      while (tempo >= MIN_BPM * 2) tempo /= 2;
+      tempos.push(tempo);
+      const bin = Math.round(tempo) - MIN_BPM;
+      votes[bin] += 1;
+      if (bin > 0) votes[bin - 1] += 0.5;
+      if (bin < MIN_BPM) votes[bin + 1] += 0.5;
+    }
+  }
+
+  let best = 0;
+  for (let bin = 1; bin < votes.length; bin++) {
+    if (votes[bin] > votes[best]) best = bin;
+  }
+  if (votes[best] < MIN_TEMPO_VOTES) return 0;
+
+  // Average the intervals near the peak for a finer estimate
+  const peak = best + MIN_BPM;
+  const near = tempos.filter((tempo) => Math.abs(tempo - peak) <= 1.5);
+  return near.reduce((sum, tempo) => sum + tempo, 0) / near.length;
+}
+
+/**
+ * Create a beat tracker. Call it once per frame with the frame's byte
+ * frequency data and time in milliseconds.
+ *
+ * Onsets are peaks in spectral flux (the summed rise of every bin since the
+ * previous frame) above an adaptive threshold of the recent mean plus
+ * 1.5 standard deviations, so quiet and loud tracks both trigger. Intervals
+ * between onsets give the tempo; a beat grid at that tempo follows onsets
+ * that land near it, and beatPhase is the position on that grid.
+ * Going back in time (a seek) starts over.
+ */
+export function createBeatTracker(): (frequency: Uint8Array, timeMs: number) => BeatData {
+  let previous: Uint8Array | null = null;
+  let lastTime = -Infinity;
+  let lastOnset = -Infinity;
+  let fluxHistory: { time: number; flux: number }[] = [];
+  let onsets: number[] = [];
+  let bpm = 0;
+  let anchor: number | null = null;
+
+  function reset() {
+    previous = null;
+    lastOnset = -Infinity;
+    fluxHistory = [];
+    onsets = [];
+    bpm = 0;
+    anchor = null;
+  }
+
+  return (frequency, timeMs) => {
+    if (timeMs < lastTime) reset();
+    lastTime = timeMs;
+
+    let flux = 0;
+    if (previous && previous.length === frequency.length) {
+      for (let i = 0; i < frequency.length; i++) {
+        flux += Math.max(0, frequency[i] - previous[i]);
+      }
+      flux /= frequency.length * 255;
+    }
+    // Live analyzers reuse their buffer, so keep a copy
+    if (!previous || previous.length !== frequency.length) previous = new Uint8Array(frequency.length);
+    previous.set(frequency);
+
+    fluxHistory = fluxHistory.filter((entry) => entry.time >= timeMs - FLUX_WINDOW_MS);
+    const mean = fluxHistory.reduce((sum, entry) => sum + entry.flux, 0) / Math.max(1, fluxHistory.length);
+    const variance = fluxHistory.reduce((sum, entry) => sum + (entry.flux - mean) ** 2, 0)
+      / Math.max(1, fluxHistory.length);
+    fluxHistory.push({ time: timeMs, flux });
+    const threshold = Math.max(MIN_FLUX, mean + THRESHOLD_DEVIATIONS * Math.sqrt(variance));
+
+    // No two onsets closer than half a beat once the tempo is known
+    const period = bpm > 0 ? 60000 / bpm : 0;
+    const isBeat = flux > threshold && timeMs - lastOnset > Math.max(MIN_ONSET_GAP_MS, period / 2);
+
+    if (isBeat) {
+      lastOnset = timeMs;
+      onsets = onsets.filter((time) => time >= timeMs - TEMPO_WINDOW_MS);
+      onsets.push(timeMs);
+      bpm = estimateTempo(onsets) || bpm;
+
+      if (bpm > 0) {
+        const beatPeriod = 60000 / bpm;
+        if (anchor === null) {
+          anchor = timeMs;
+        } else {
+          // Nudge the grid toward onsets near a grid beat; ignore off-beat ones
+          const predicted = anchor + Math.round((timeMs - anchor) / beatPeriod) * beatPeriod;
+          const error = timeMs - predicted;
+          if (Math.abs(error) < beatPeriod / 4) anchor = predicted + error / 2;
+        }
+      }
+    }
+
+    const beatPhase = bpm > 0 && anchor !== null
+      ? ((((timeMs - anchor) * bpm) / 60000) % 1 + 1) % 1
+      : 0;
+
+    return {
+      isBeat,
+      onsetStrength: Math.min(1, flux / (threshold * 2)),
+      bpm,
+      beatPhase,
+    };
+  };
+}
+
 /**
- * Create an audio analyzer instance
+ * Create an audio analyzer instance. Bands and log bins are computed
+ * using the AudioContext's real sample rate.
  */
-export function createAudioAnalyzer(): AudioAnalyzer {
+export function createAudioAnalyzer(config?: AudioAnalysisConfig): AudioAnalyzer {
+  const settings = resolveAudioConfig(config);
   let audioContext: AudioContext | null = null;
   let analyser: AnalyserNode | null = null;
-  let sourceNode: MediaElementAudioSourceNode | null = null;
+  let inputGain: GainNode | null = null;
+  let monitorGain: GainNode | null = null;
+  let sourceNode: AudioNode | null = null;
   let audioElement: HTMLAudioElement | null = null;
+  let stream: MediaStream | null = null;
+  let gain = 1;
+  let monitoring = true;
   
   // Analysis buffers
   let frequencyData = new Uint8Array(0);
   let waveformData = new Uint8Array(0);
+  let logFrequencyData = new Uint8Array(settings.logBins);
   
-  // Beat detection state
-  let lastBeatTime = 0;
-  let beatThreshold = 0.6;
-  let beatCooldown = 150; // ms between beats
-  let previousBass = 0;
-  
-  // FFT size determines frequency resolution
-  const FFT_SIZE = 256;
+  const trackBeats = createBeatTracker();
   
+  // Source -> input gain -> analyser, and input gain -> monitor gain -> speakers
   function initAudioContext() {
     if (audioContext) return;
     
     audioContext = new AudioContext();
     analyser = audioContext.createAnalyser();
-    analyser.fftSize = FFT_SIZE;
-    analyser.smoothingTimeConstant = 0.8;
+    // FFT size determines frequency resolution
+    analyser.fftSize = settings.fftSize;
+    analyser.smoothingTimeConstant = settings.smoothingTimeConstant;
+    analyser.minDecibels = settings.minDecibels;
+    analyser.maxDecibels = settings.maxDecibels;
     
     const bufferLength = analyser.frequencyBinCount;
     frequencyData = new Uint8Array(bufferLength);
     waveformData = new Uint8Array(bufferLength);
     
-    analyser.connect(audioContext.destination);
+    inputGain = audioContext.createGain();
+    inputGain.gain.value = gain;
+    monitorGain = audioContext.createGain();
+    monitorGain.gain.value = monitoring ? 1 : 0;
+    inputGain.connect(analyser);
+    inputGain.connect(monitorGain);
+    monitorGain.connect(audioContext.destination);
   }
   
-  async function load(file: File | string): Promise<void> {
-    initAudioContext();
-    
-    // Clean up existing audio
+  // Disconnect and release the current file or stream
+  function releaseSource() {
     if (sourceNode) {
       sourceNode.disconnect();
       sourceNode = null;
     }
     if (audioElement) {
       audioElement.pause();
+      if (audioElement.src.startsWith('blob:')) {
+        URL.revokeObjectURL(audioElement.src);
+      }
       audioElement.src = '';
       audioElement = null;
     }
+    if (stream) {
+      stream.getTracks().forEach((track) => track.stop());
+      stream = null;
+    }
+  }
+  
+  async function load(file: File | string): Promise<void> {
+    initAudioContext();
+    
+    // Clean up existing audio
+    releaseSource();
     
     // Create new audio element
     audioElement = new Audio();
@@ -114,10 +439,36 @@ export function createAudioAnalyzer(): AudioAnalyzer {
     });
     
     // Connect to analyser
-    if (audioContext && analyser && audioElement) {
+    if (audioContext && inputGain && audioElement) {
       sourceNode = audioContext.createMediaElementSource(audioElement);
-      sourceNode.connect(analyser);
+      sourceNode.connect(inputGain);
     }
+    setMonitor(true);
+  }
+  
+  async function loadStream(input: MediaStream): Promise<void> {
+    initAudioContext();
+    releaseSource();
+    setMonitor(false);
+    
+    stream = input;
+    if (audioContext && inputGain) {
+      sourceNode = audioContext.createMediaStreamSource(input);
+      sourceNode.connect(inputGain);
+      if (audioContext.state === 'suspended') {
+        await audioContext.resume();
+      }
+    }
+  }
+  
+  function setGain(value: number): void {
+    gain = Math.max(0, value);
+    if (inputGain) inputGain.gain.value = gain;
+  }
+  
+  function setMonitor(enabled: boolean): void {
+    monitoring = enabled;
+    if (monitorGain) monitorGain.gain.value = enabled ? 1 : 0;
   }
   
   function play(): void {
@@ -138,61 +489,41 @@ export function createAudioAnalyzer(): AudioAnalyzer {
   }
   
   function getTime(): number {
+    if (stream) return audioContext?.currentTime ?? 0;
     return audioElement?.currentTime ?? 0;
   }
   
   function getDuration(): number {
+    if (stream) return Infinity;
     return audioElement?.duration ?? 0;
   }
   
   function isPlaying(): boolean {
+    if (stream) return stream.active;
     return audioElement ? !audioElement.paused : false;
   }
   
   function isLoaded(): boolean {
-    return audioElement !== null && audioElement.readyState >= 2;
-  }
-  
-  function calculateRMS(data: Uint8Array, start: number, end: number): number {
-    let sum = 0;
-    const length = Math.min(end, data.length) - start;
-    if (length <= 0) return 0;
-    
-    for (let i = start; i < Math.min(end, data.length); i++) {
-      // Normalize to -1 to 1 range
-      const normalized = (data[i] - 128) / 128;
-      sum += normalized * normalized;
-    }
-    
-    return Math.sqrt(sum / length);
-  }
-  
-  function calculateBandEnergy(data: Uint8Array, start: number, end: number): number {
-    let sum = 0;
-    const length = Math.min(end, data.length) - start;
-    if (length <= 0) return 0;
-    
-    for (let i = start; i < Math.min(end, data.length); i++) {
-      sum += data[i];
-    }
-    
-    // Normalize to 0-1
-    return sum / (length * 255);
+    return stream !== null || (audioElement !== null && audioElement.readyState >= 2);
   }
   
   function getData(): AudioData {
     // Default empty data
     const emptyData: AudioData = {
-      frequency: frequencyData,
+      frequency: settings.logBins ? logFrequencyData : frequencyData,
       waveform: waveformData,
       amplitude: 0,
       bass: 0,
       mid: 0,
       high: 0,
+      bands: Object.fromEntries(Object.keys(settings.bands).map((name) => [name, 0])),
       isBeat: false,
+      onsetStrength: 0,
+      bpm: 0,
+      beatPhase: 0,
     };
     
-    if (!analyser || !audioElement) {
+    if (!analyser || (!audioElement && !stream)) {
       return emptyData;
     }
     
@@ -200,70 +531,40 @@ export function createAudioAnalyzer(): AudioAnalyzer {
     analyser.getByteFrequencyData(frequencyData);
     analyser.getByteTimeDomainData(waveformData);
     
-    const binCount = analyser.frequencyBinCount;
-    
-    // Calculate frequency band boundaries
-    // Assuming 44.1kHz sample rate:
-    // Each bin = sampleRate / fftSize = 44100 / 256 = 172.3 Hz per bin
-    // Bass: 0-300Hz (bins 0-2)
-    // Mid: 300-2000Hz (bins 2-12)  
-    // High: 2000-20000Hz (bins 12+)
-    const bassEnd = Math.floor(binCount * 0.05);  // ~5% of bins for bass
-    const midEnd = Math.floor(binCount * 0.3);    // 5-30% for mids
-    
-    const bass = calculateBandEnergy(frequencyData, 0, bassEnd);
-    const mid = calculateBandEnergy(frequencyData, bassEnd, midEnd);
-    const high = calculateBandEnergy(frequencyData, midEnd, binCount);
-    
-    // Calculate overall amplitude from waveform
-    const amplitude = calculateRMS(waveformData, 0, waveformData.length);
-    
-    // Beat detection based on bass energy spike
-    const now = performance.now();
-    let isBeat = false;
-    
-    if (bass > beatThreshold && bass > previousBass * 1.2 && now - lastBeatTime > beatCooldown) {
-      isBeat = true;
-      lastBeatTime = now;
-    }
-    
-    previousBass = bass;
+    const { sampleRate } = analyser.context;
     
     return {
-      frequency: frequencyData,
+      frequency: settings.logBins
+        ? toLogBins(frequencyData, sampleRate, logFrequencyData)
+        : frequencyData,
       waveform: waveformData,
-      amplitude: Math.min(1, amplitude * 2), // Scale up for visibility
-      bass,
-      mid,
-      high,
-      isBeat,
+      ...measureBands(frequencyData, waveformData, sampleRate, settings.bands),
+      // Track on the audio clock so seeks restart the tracker
+      ...trackBeats(frequencyData, getTime() * 1000),
     };
   }
   
   function destroy(): void {
-    if (sourceNode) {
-      sourceNode.disconnect();
-      sourceNode = null;
-    }
-    if (audioElement) {
-      audioElement.pause();
-      if (audioElement.src.startsWith('blob:')) {
-        URL.revokeObjectURL(audioElement.src);
-      }
-      audioElement.src = '';
-      audioElement = null;
-    }
+    releaseSource();
     if (audioContext) {
       audioContext.close();
       audioContext = null;
     }
     analyser = null;
+    inputGain = null;
+    monitorGain = null;
     frequencyData = new Uint8Array(0);
     waveformData = new Uint8Array(0);
+    logFrequencyData = new Uint8Array(0);
   }
   
   return {
     load,
+    loadStream,
+    isLive: () => stream !== null,
+    setGain,
+    setMonitor,
+    isMonitoring: () => monitoring,
     play,
     pause,
     seek,
@@ -276,27 +577,74 @@ export function createAudioAnalyzer(): AudioAnalyzer {
   };
 }
 
+/**
+ * List audio input devices. Labels are empty until the page has been
+ * granted microphone access once.
+ */
+export async function getAudioInputDevices(): Promise<MediaDeviceInfo[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter((device) => device.kind === 'audioinput');
+}
+
+/**
+ * Open a live input stream. Browser voice processing is turned off so
+ * music reaches the analyzer unchanged. System audio is shared through the
+ * screen capture dialog, whose video track is dropped.
+ */
+export async function openLiveInput(options: LiveInputOptions = {}): Promise<MediaStream> {
+  if (!navigator.mediaDevices) {
+    throw new Error('Live audio input needs a secure context (https or localhost)');
+  }
+  
+  const processing = {
+    echoCancellation: false,
+    noiseSuppression: false,
+    autoGainControl: false,
+  };
+  
+  if (options.source === 'system') {
+    const capture = await navigator.mediaDevices.getDisplayMedia({ video: true, audio: processing });
+    capture.getVideoTracks().forEach((track) => track.stop());
+    const audioTracks = capture.getAudioTracks();
+    if (audioTracks.length === 0) {
+      throw new Error('No audio was shared; enable audio sharing in the capture dialog');
+    }
+    return new MediaStream(audioTracks);
+  }
+  
+  return navigator.mediaDevices.getUserMedia({
+    audio: {
+      ...processing,
+      deviceId: options.deviceId ? { exact: options.deviceId } : undefined,
+    },
+  });
+}
+
 /**
  * Generate synthetic audio data for demo/preview mode
  * Creates fake audio data based on time for animations without audio
  */
-export function generateSyntheticAudioData(time: number): AudioData {
-  const frequencyBins = 128;
+export function generateSyntheticAudioData(time: number, config?: AudioAnalysisConfig): AudioData {
+  const settings = resolveAudioConfig(config);
+  const frequencyBins = settings.logBins || settings.fftSize / 2;
+  const waveformLength = settings.fftSize / 2;
   const frequency = new Uint8Array(frequencyBins);
-  const waveform = new Uint8Array(frequencyBins);
+  const waveform = new Uint8Array(waveformLength);
   
-  // Generate fake frequency spectrum
+  // Generate fake frequency spectrum; the pattern spans 128 bins at any size
   for (let i = 0; i < frequencyBins; i++) {
     // Create a pattern that varies with time
-    const phase = time * 2 + i * 0.1;
-    const bassInfluence = Math.max(0, 1 - i / 10);
+    const x = (i * 128) / frequencyBins;
+    const phase = time * 2 + x * 0.1;
+    const bassInfluence = Math.max(0, 1 - x / 10);
     const value = Math.sin(phase) * 0.3 + Math.sin(phase * 2.7) * 0.2 + 0.5;
     frequency[i] = Math.floor((value * bassInfluence + 0.2) * 255);
   }
   
   // Generate fake waveform (sine wave with noise)
-  for (let i = 0; i < frequencyBins; i++) {
-    const phase = time * 5 + i * 0.2;
+  for (let i = 0; i < waveformLength; i++) {
+    const phase = time * 5 + ((i * 128) / waveformLength) * 0.2;
     const value = Math.sin(phase) * 0.3 + Math.sin(phase * 3.7) * 0.15;
     waveform[i] = Math.floor((value + 0.5) * 255);
   }
@@ -307,8 +655,17 @@ export function generateSyntheticAudioData(time: number): AudioData {
   const mid = Math.sin(time * 4 + 1) * 0.25 + 0.35;
   const high = Math.sin(time * 6 + 2) * 0.2 + 0.3;
   
-  // Beat on every ~0.5 seconds
+  // Other named bands drift at a rate set by their center frequency
+  const bands: Record<string, number> = {};
+  for (const [name, [min, max]] of Object.entries(settings.bands)) {
+    const rate = 2 + Math.log2(Math.max(20, (min + max) / 2) / 20) * 0.5;
+    bands[name] = Math.sin(time * rate + min * 0.001) * 0.25 + 0.4;
+  }
+  Object.assign(bands, { bass, mid, high });
+  
+  // Beat on every ~0.5 seconds (120 BPM), with onsets decaying after each one
   const isBeat = Math.floor(time * 2) !== Math.floor((time - 0.016) * 2);
+  const beatPhase = (time * 2) % 1;
   
   return {
     frequency,
@@ -317,6 +674,10 @@ export function generateSyntheticAudioData(time: number): AudioData {
     bass,
     mid,
     high,
+    bands,
     isBeat,
+    onsetStrength: Math.exp(-beatPhase * 8),
+    bpm: 120,
+    beatPhase,
   };
 }
@@ -0,0 +1,340 @@
+/**
+ * Compositions
+ * A composition places other animations as layers, each with its own
+ * transform, opacity, timing and params. resolveComposition turns it into
+ * a regular AnimationDefinition, so the player and every exporter can use
+ * it like any other animation.
+ *
+ * @example
+ * const intro: CompositionDefinition = {
+ *   id: 'product-intro',
+ *   name: 'Product Intro',
+ *   width: 1920,
+ *   height: 1080,
+ *   layers: [
+ *     { animation: 'grid-repulsion' },
+ *     { animation: 'clueso-logo', scale: 2, timeOffset: 0.5, params: { backgroundColor: 'transparent' } },
+ *   ],
+ * };
+ */
+
+import type { AnimationDefinition, AnyAnimationDefinition, RenderContext } from './types';
+import { isSimpleAnimation } from './types';
+import { getLoopDurationMs, getProgress } from './frames';
+import { resolveKeyframes } from './keyframes';
+import { createRandom } from './random';
+import { createSimulation, type Simulation } from './simulation';
+
+export interface CompositionLayer {
+  /** Registered animation id, or an imported definition */
+  animation: string | AnyAnimationDefinition | CompositionDefinition;
+  /** Layer center, x in composition pixels (default: composition center) */
+  x?: number;
+  /** Layer center, y in composition pixels (default: composition center) */
+  y?: number;
+  /** Scale of the layer's canvas size (default: 1) */
+  scale?: number;
+  /** Rotation in degrees around the layer center (default: 0) */
+  rotation?: number;
+  /** Opacity, 0-1 (default: 1) */
+  opacity?: number;
+  /** Composition time in seconds when the layer starts (default: 0) */
+  timeOffset?: number;
+  /** Playback rate of the layer (default: 1) */
+  timeScale?: number;
+  /** Repeat finite layers instead of holding their last frame (default: false) */
+  loop?: boolean;
+  /** Param overrides, merged over the layer's defaults */
+  params?: Record<string, unknown>;
+}
+
+/** Animation built from layers of other animations */
+export interface CompositionDefinition {
+  /** Unique identifier for the composition */
+  id: string;
+  /** Display name */
+  name: string;
+  /** Target frames per second (default: 60) */
+  fps?: number;
+  /** Duration in milliseconds (default: until the last finite layer ends) */
+  durationMs?: number;
+  /** Background color (default: transparent) */
+  background?: string;
+  /** Canvas width (default: 800) */
+  width?: number;
+  /** Canvas height (default: 600) */
+  height?: number;
+  /** Layers, bottom to top */
+  layers: CompositionLayer[];
+}
+
+/** Look up an animation or composition by registered id */
+export type AnimationResolver = (id: string) => AnyAnimationDefinition | CompositionDefinition | undefined;
+
+/** An animation drawn inside another one, with its params resolved */
+export interface NestedAnimation {
+  animation: AnyAnimationDefinition;
+  params: Record<string, unknown>;
+  /** Opacity-adjusted contexts by target context */
+  contexts: WeakMap<CanvasRenderingContext2D, CanvasRenderingContext2D>;
+  /** State from the animation's setup(), stepped by its update() */
+  state?: unknown;
+  simulation?: Simulation<unknown, RenderContext>;
+}
+
+export interface NestedRenderOptions {
+  /** Opacity, 0-1 (default: 1) */
+  opacity?: number;
+  /** Playback rate, applied to deltaTime (default: 1) */
+  timeScale?: number;
+  /** Fill the animation's own background first (default: false) */
+  background?: boolean;
+}
+
+/** A layer with its animation resolved */
+interface CompositionLayerAnimation {
+  layer: CompositionLayer;
+  animation: AnyAnimationDefinition;
+}
+
+/** A layer prepared for one run: setup() makes these, so runs don't share layer state */
+interface ResolvedLayer extends NestedAnimation {
+  layer: CompositionLayer;
+}
+
+/** Type guard for composition definitions */
+export function isComposition(value: unknown): value is CompositionDefinition {
+  return typeof value === 'object' && value !== null
+    && Array.isArray((value as { layers?: unknown }).layers)
+    && !('render' in value);
+}
+
+/** Whether an animation has a fixed loop length */
+export function isFiniteAnimation(animation: AnyAnimationDefinition): boolean {
+  return isSimpleAnimation(animation) || animation.durationMs !== undefined;
+}
+
+/** Prepare an animation for drawing inside another one */
+export function createNestedAnimation(
+  animation: AnyAnimationDefinition,
+  params?: Record<string, unknown>
+): NestedAnimation {
+  return {
+    animation,
+    params: isSimpleAnimation(animation)
+      ? {}
+      : { ...(animation as AnimationDefinition<Record<string, unknown>>).params.defaults, ...params },
+    contexts: new WeakMap(),
+  };
+}
+
+/**
+ * Context whose globalAlpha is relative to the layer opacity. Animations
+ * set globalAlpha outright, which would otherwise drop the layer opacity.
+ */
+function createOpacityContext(ctx: CanvasRenderingContext2D, opacity: number): CanvasRenderingContext2D {
+  const methods = new Map<PropertyKey, unknown>();
+  return new Proxy(ctx, {
+    get(target, key) {
+      if (key === 'globalAlpha') return target.globalAlpha / opacity;
+      const value: unknown = Reflect.get(target, key, target);
+      if (typeof value !== 'function') return value;
+      // Canvas methods must be called on the real context
+      if (!methods.has(key)) methods.set(key, value.bind(target));
+      return methods.get(key);
+    },
+    set(target, key, value) {
+      if (key === 'globalAlpha') target.globalAlpha = value * opacity;
+      else Reflect.set(target, key, value, target);
+      return true;
+    },
+  });
+}
+
+function createNestedContext(
+  nested: NestedAnimation,
+  context: RenderContext,
+  time: number,
+  timeScale = 1
+): RenderContext {
+  const { animation, params } = nested;
+  const progress = getProgress(animation, time);
+  const keyframes = isSimpleAnimation(animation) ? undefined : animation.keyframes;
+  const frame = Math.floor(time * (animation.fps ?? 60));
+  // Nested animations keep their own seed, or share the host's
+  const seed = (isSimpleAnimation(animation) ? undefined : animation.seed) ?? context.random.seed;
+  return {
+    ...context,
+    time,
+    progress,
+    deltaTime: context.deltaTime * timeScale,
+    width: animation.width ?? 800,
+    height: animation.height ?? 600,
+    params: resolveKeyframes(params, keyframes, progress),
+    frame,
+    random: createRandom(seed, frame),
+  };
+}
+
+/** Run a nested animation's setup(), and start its simulation if it has update() */
+export function setupNestedAnimation(nested: NestedAnimation, context: RenderContext): void {
+  if (isSimpleAnimation(nested.animation)) return;
+  const full = nested.animation as AnimationDefinition<Record<string, unknown>, unknown>;
+  nested.state = full.setup?.(createNestedContext(nested, context, 0));
+  if (full.update) {
+    nested.simulation = createSimulation(nested.state, full.update, full.updateRate ?? full.fps ?? 60);
+  }
+}
+
+/**
+ * Draw a nested animation at `time` (its own seconds) into its own canvas
+ * area at the current origin, clipped to that area. Transform the context
+ * first to place it.
+ */
+export function renderNestedAnimation(
+  nested: NestedAnimation,
+  context: RenderContext,
+  time: number,
+  options: NestedRenderOptions = {}
+): void {
+  const { animation } = nested;
+  const { ctx } = context;
+  const opacity = options.opacity ?? 1;
+  if (opacity <= 0) return;
+
+  const nestedContext = createNestedContext(nested, context, time, options.timeScale);
+  const { width, height, progress } = nestedContext;
+  if (opacity < 1) {
+    let nestedCtx = nested.contexts.get(ctx);
+    if (!nestedCtx) {
+      nestedCtx = createOpacityContext(ctx, opacity);
+      nested.contexts.set(ctx, nestedCtx);
+    }
+    nestedContext.ctx = nestedCtx;
+  }
+
+  ctx.save();
+  ctx.globalAlpha *= opacity;
+
+  // Each nested animation only sees its own canvas area
+  ctx.beginPath();
+  ctx.rect(0, 0, width, height);
+  ctx.clip();
+
+  if (options.background && animation.background) {
+    ctx.fillStyle = animation.background;
+    ctx.fillRect(0, 0, width, height);
+  }
+
+  if (isSimpleAnimation(animation)) {
+    animation.render(nestedContext.ctx, { width, height, progress });
+  } else {
+    const full = animation as AnimationDefinition<Record<string, unknown>, unknown>;
+    if (nested.simulation) {
+      const dt = 1 / (full.updateRate ?? full.fps ?? 60);
+      nested.state = nested.simulation.stateAt(time, (stepTime) => ({
+        ...createNestedContext(nested, context, stepTime),
+        deltaTime: dt,
+      }));
+    }
+    full.render(nestedContext, nested.state);
+  }
+  ctx.restore();
+}
+
+/**
+ * Layer time in seconds for a composition time, or null before the layer
+ * starts. Finite layers loop or hold their last frame.
+ */
+function getLayerTime(resolved: CompositionLayerAnimation, time: number): number | null {
+  const { layer, animation } = resolved;
+  const local = (time - (layer.timeOffset ?? 0)) * (layer.timeScale ?? 1);
+  if (local < 0) return null;
+  if (!isFiniteAnimation(animation)) return local;
+
+  const durationSec = getLoopDurationMs(animation) / 1000;
+  return layer.loop ? local % durationSec : Math.min(local, durationSec);
+}
+
+/** Default duration: when the last finite layer has played once */
+function getCompositionDurationMs(layers: CompositionLayerAnimation[]): number | undefined {
+  const ends = layers
+    .filter(({ animation }) => isFiniteAnimation(animation))
+    .map(({ layer, animation }) =>
+      (layer.timeOffset ?? 0) * 1000 + getLoopDurationMs(animation) / (layer.timeScale ?? 1)
+    );
+  return ends.length > 0 ? Math.max(...ends) : undefined;
+}
+
+function drawLayer(resolved: ResolvedLayer, context: RenderContext, compositionWidth: number, compositionHeight: number) {
+  const { layer, animation } = resolved;
+  const time = getLayerTime(resolved, context.time);
+  if (time === null) return;
+
+  const { ctx } = context;
+  const scale = layer.scale ?? 1;
+  ctx.save();
+  ctx.translate(layer.x ?? compositionWidth / 2, layer.y ?? compositionHeight / 2);
+  ctx.rotate(((layer.rotation ?? 0) * Math.PI) / 180);
+  ctx.scale(scale, scale);
+  ctx.translate(-(animation.width ?? 800) / 2, -(animation.height ?? 600) / 2);
+  renderNestedAnimation(resolved, { ...context, dpr: context.dpr * scale }, time, {
+    opacity: layer.opacity,
+    timeScale: layer.timeScale,
+  });
+  ctx.restore();
+}
+
+/**
+ * Resolve a composition's layers and return an AnimationDefinition that
+ * draws them. Layer backgrounds are not drawn; override a layer's
+ * background param to let lower layers show through.
+ * Throws if a layer id can't be resolved or compositions nest in a cycle.
+ */
+export function resolveComposition(
+  composition: CompositionDefinition,
+  resolve?: AnimationResolver,
+  resolving: string[] = []
+): AnimationDefinition<Record<string, unknown>, unknown> {
+  if (resolving.includes(composition.id)) {
+    throw new Error(`Composition cycle: ${[...resolving, composition.id].join(' -> ')}`);
+  }
+  const path = [...resolving, composition.id];
+
+  const layers: CompositionLayerAnimation[] = composition.layers.map((layer) => {
+    const found = typeof layer.animation === 'string' ? resolve?.(layer.animation) : layer.animation;
+    if (!found) {
+      throw new Error(`Unknown animation "${layer.animation}" in composition "${composition.id}"`);
+    }
+    const animation = isComposition(found) ? resolveComposition(found, resolve, path) : found;
+    return { layer, animation };
+  });
+
+  const width = composition.width ?? 800;
+  const height = composition.height ?? 600;
+
+  const definition: AnimationDefinition<Record<string, unknown>, ResolvedLayer[]> = {
+    id: composition.id,
+    name: composition.name,
+    fps: composition.fps,
+    durationMs: composition.durationMs ?? getCompositionDurationMs(layers),
+    background: composition.background,
+    width,
+    height,
+    params: { defaults: {}, schema: {} },
+    // The definition is shared by every player and export, so layer state lives in each run's state
+    setup(context) {
+      return layers.map(({ layer, animation }) => {
+        const resolved = { layer, ...createNestedAnimation(animation, layer.params) };
+        setupNestedAnimation(resolved, context);
+        return resolved;
+      });
+    },
+    render(context, resolvedLayers) {
+      for (const resolved of resolvedLayers) {
+        drawLayer(resolved, context, width, height);
+      }
+    },
+  };
+  return definition;
+}
@@ -0,0 +1,217 @@
+/**
+ * External controls
+ * Drives params from hardware knobs, faders and pads: MIDI controllers
+ * through the Web MIDI API, or OSC-style JSON messages sent to the dev
+ * server's WebSocket bridge at /api/controls (see scripts/send-controls.ts).
+ * Every message becomes a control id and a value from 0 to 1, which a
+ * ControlMapping turns into a param value.
+ *
+ * @example
+ * const stop = await connectMidi(({ control, value }) => {
+ *   if (control === mapping.control) onChange('speed', applyControl(schema.speed, mapping, value));
+ * });
+ */
+
+/** A control moved to a value from 0 to 1 */
+export interface ControlMessage {
+  /** 'midi:<channel>:cc:<number>', 'midi:<channel>:note:<number>', 'midi:<channel>:pitch' or 'osc:<address>' */
+  control: string;
+  value: number;
+}
+
+export type ControlListener = (message: ControlMessage) => void;
+
+/** A param bound to a control */
+export interface ControlMapping {
+  control: string;
+  /** Param value at control value 0 (default: the param's min) */
+  min?: number;
+  /** Param value at control value 1 (default: the param's max) */
+  max?: number;
+}
+
+/** Control mappings by param key */
+export type ControlMappings = Record<string, ControlMapping>;
+
+/** Param types a control can drive */
+export type MappableParam =
+  | { value: number; min?: number; max?: number; step?: number; label?: string }
+  | { value: boolean; label?: string }
+  | { value: string; options: string[] | { label: string; value: string }[]; label?: string };
+
+const BRIDGE_PATH = '/api/controls';
+const RECONNECT_MS = 2000;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * Parse a MIDI message into a control message. Control changes and pitch
+ * bend map to their position; notes are gates, 1 while held and 0 on release.
+ * Returns null for other messages (clock, sysex, aftertouch...).
+ */
+export function parseMidiMessage(data: ArrayLike<number>): ControlMessage | null {
+  const status = data[0] ?? 0;
+  const type = status & 0xf0;
+  const channel = (status & 0x0f) + 1;
+  const data1 = data[1] ?? 0;
+  const data2 = data[2] ?? 0;
+
+  switch (type) {
+    case 0xb0:
+      return { control: `midi:${channel}:cc:${data1}`, value: data2 / 127 };
+    case 0x90:
+      return { control: `midi:${channel}:note:${data1}`, value: data2 > 0 ? 1 : 0 };
+    case 0x80:
+      return { control: `midi:${channel}:note:${data1}`, value: 0 };
+    case 0xe0:
+      return { control: `midi:${channel}:pitch`, value: ((data2 << 7) | data1) / 16383 };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Parse a bridge message. Accepts OSC-like `{ address, value }` or
+ * `{ address, args: [value] }` with a 0-1 number or a boolean, and raw
+ * `{ midi: [status, data1, data2] }` bytes.
+ */
+export function parseBridgeMessage(text: string): ControlMessage | null {
+  let message: unknown;
+  try {
+    message = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!message || typeof message !== 'object') return null;
+
+  const { address, value, args, midi } = message as {
+    address?: unknown;
+    value?: unknown;
+    args?: unknown;
+    midi?: unknown;
+  };
+  if (Array.isArray(midi)) return parseMidiMessage(midi.map(Number));
+  if (typeof address !== 'string' || !address) return null;
+
+  const raw = value ?? (Array.isArray(args) ? args[0] : undefined);
+  const number = typeof raw === 'boolean' ? Number(raw) : raw;
+  if (typeof number !== 'number' || !Number.isFinite(number)) return null;
+  return { control: `osc:${address}`, value: clamp01(number) };
+}
+
+/**
+ * Listen to every connected MIDI input, including ones plugged in later.
+ * Rejects if Web MIDI is unsupported or access is denied. Resolves to a
+ * function that stops listening.
+ */
+export async function connectMidi(listener: ControlListener): Promise<() => void> {
+  if (typeof navigator === 'undefined' || !navigator.requestMIDIAccess) {
+    throw new Error('Web MIDI is not supported in this browser');
+  }
+  const access = await navigator.requestMIDIAccess();
+
+  const handleMessage = (event: MIDIMessageEvent) => {
+    const message = event.data && parseMidiMessage(event.data);
+    if (message) listener(message);
+  };
+  // Adding the same listener twice is a no-op, so new inputs can re-run this
+  const attach = () => {
+    access.inputs.forEach((input) => input.addEventListener('midimessage', handleMessage));
+  };
+
+  attach();
+  access.addEventListener('statechange', attach);
+  return () => {
+    access.removeEventListener('statechange', attach);
+    access.inputs.forEach((input) => input.removeEventListener('midimessage', handleMessage));
+  };
+}
+
+/**
+ * Listen to the dev server's control bridge, reconnecting while it is
+ * down. Returns a function that disconnects.
+ */
+export function connectControlBridge(listener: ControlListener, url?: string): () => void {
+  const target = url ?? `${location.protocol === 'https:' ? 'wss' : 'ws'}://${location.host}${BRIDGE_PATH}`;
+  let socket: WebSocket | null = null;
+  let retry: ReturnType<typeof setTimeout> | undefined;
+  let stopped = false;
+
+  const open = () => {
+    socket = new WebSocket(target);
+    socket.addEventListener('message', (event) => {
+      if (typeof event.data !== 'string') return;
+      const message = parseBridgeMessage(event.data);
+      if (message) listener(message);
+    });
+    socket.addEventListener('close', () => {
+      if (!stopped) retry = setTimeout(open, RECONNECT_MS);
+    });
+  };
+
+  open();
+  return () => {
+    stopped = true;
+    clearTimeout(retry);
+    socket?.close();
+  };
+}
+
+/** Whether a param can be driven by a control */
+export function isMappableParam(param: unknown): param is MappableParam {
+  if (!param || typeof param !== 'object' || !('value' in param)) return false;
+  const { value } = param as { value: unknown };
+  if ('options' in param) return Array.isArray(param.options) && param.options.length > 0;
+  return typeof value === 'number' || typeof value === 'boolean';
+}
+
+/** Mappable params by key, walking into folders */
+export function collectMappableParams(
+  schema: Record<string, unknown>,
+  params: Record<string, MappableParam> = {}
+): Record<string, MappableParam> {
+  for (const [key, param] of Object.entries(schema)) {
+    if (param && typeof param === 'object' && 'schema' in param && param.schema && typeof param.schema === 'object') {
+      collectMappableParams(param.schema as Record<string, unknown>, params);
+    } else if (isMappableParam(param)) {
+      params[key] = param;
+    }
+  }
+  return params;
+}
+
+/**
+ * Param value for a control value from 0 to 1. Numbers scale between the
+ * mapping's min and max (swap them to invert) and snap to the param's step,
+ * booleans switch on past halfway, and selects divide the range evenly
+ * between their options.
+ */
+export function applyControl(param: MappableParam, mapping: ControlMapping, value: number): number | boolean | string {
+  const t = clamp01(value);
+
+  if ('options' in param) {
+    const options = param.options.map((option) => (typeof option === 'string' ? option : option.value));
+    return options[Math.min(options.length - 1, Math.floor(t * options.length))];
+  }
+  if (typeof param.value === 'boolean') return t >= 0.5;
+
+  const numberParam = param as { min?: number; max?: number; step?: number };
+  const min = mapping.min ?? numberParam.min ?? 0;
+  const max = mapping.max ?? numberParam.max ?? 100;
+  const step = numberParam.step ?? 1;
+  const raw = min + (max - min) * t;
+  // Snap from the lower end so both ends of the range stay reachable
+  const low = Math.min(min, max);
+  const snapped = low + Math.round((raw - low) / step) * step;
+  return Number(Math.min(Math.max(min, max), snapped).toFixed(6));
+}
+
+/** Short display name for a control id */
+export function formatControl(control: string): string {
+  const [source, ...rest] = control.split(':');
+  if (source === 'osc') return rest.join(':');
+  if (source !== 'midi') return control;
+  const [channel, kind, number] = rest;
+  const name = kind === 'cc' ? `CC ${number}` : kind === 'note' ? `Note ${number}` : 'Pitch';
+  return channel === '1' ? name : `${name} ch${channel}`;
+}
@@ -0,0 +1,232 @@
+/**
+ * Easing and tween helpers
+ * Easings map t in 0-1 to eased progress (back, elastic and spring
+ * overshoot). Import only what an animation uses; the Simple Format export
+ * inlines just those helpers.
+ *
+ * @example
+ * import { easeOutCubic, tween, stagger } from '../../runtime/easing';
+ *
+ * const t = tween(progress, ...stagger(i, count, 0.6), easeOutCubic);
+ */
+
+export type Easing = (t: number) => number;
+
+/** Clamp a value to 0-1 */
+export const clamp01 = (t: number): number => Math.min(1, Math.max(0, t));
+
+/** Clamp a value to a range */
+export const clamp = (value: number, min: number, max: number): number =>
+  Math.min(max, Math.max(min, value));
+
+/** Blend from a to b */
+export const lerp = (a: number, b: number, t: number): number => a + (b - a) * t;
+
+export const linear: Easing = (t) => t;
+
+// Quad
+export const easeInQuad: Easing = (t) => t * t;
+export const easeOutQuad: Easing = (t) => 1 - (1 - t) * (1 - t);
+export const easeInOutQuad: Easing = (t) =>
+  t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2;
+
+// Cubic
+export const easeInCubic: Easing = (t) => t * t * t;
+export const easeOutCubic: Easing = (t) => 1 - Math.pow(1 - t, 3);
+export const easeInOutCubic: Easing = (t) =>
+  t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+
+// Quart
+export const easeInQuart: Easing = (t) => t * t * t * t;
+export const easeOutQuart: Easing = (t) => 1 - Math.pow(1 - t, 4);
+export const easeInOutQuart: Easing = (t) =>
+  t < 0.5 ? 8 * t * t * t * t : 1 - Math.pow(-2 * t + 2, 4) / 2;
+
+// Quint
+export const easeInQuint: Easing = (t) => t * t * t * t * t;
+export const easeOutQuint: Easing = (t) => 1 - Math.pow(1 - t, 5);
+export const easeInOutQuint: Easing = (t) =>
+  t < 0.5 ? 16 * t * t * t * t * t : 1 - Math.pow(-2 * t + 2, 5) / 2;
+
+// Sine
+export const easeInSine: Easing = (t) => 1 - Math.cos((t * Math.PI) / 2);
+export const easeOutSine: Easing = (t) => Math.sin((t * Math.PI) / 2);
+export const easeInOutSine: Easing = (t) => -(Math.cos(Math.PI * t) - 1) / 2;
+
+// Expo
+export const easeInExpo: Easing = (t) => (t === 0 ? 0 : Math.pow(2, 10 * t - 10));
+export const easeOutExpo: Easing = (t) => (t === 1 ? 1 : 1 - Math.pow(2, -10 * t));
+export const easeInOutExpo: Easing = (t) =>
+  t === 0 ? 0
+    : t === 1 ? 1
+      : t < 0.5 ? Math.pow(2, 20 * t - 10) / 2
+        : (2 - Math.pow(2, -20 * t + 10)) / 2;
+
+// Circ
+export const easeInCirc: Easing = (t) => 1 - Math.sqrt(1 - Math.pow(t, 2));
+export const easeOutCirc: Easing = (t) => Math.sqrt(1 - Math.pow(t - 1, 2));
+export const easeInOutCirc: Easing = (t) =>
+  t < 0.5
+    ? (1 - Math.sqrt(1 - Math.pow(2 * t, 2))) / 2
+    : (Math.sqrt(1 - Math.pow(-2 * t + 2, 2)) + 1) / 2;
+
+// Back
+const BACK = 1.70158;
+const BACK_IN_OUT = BACK * 1.525;
+export const easeInBack: Easing = (t) => (BACK + 1) * t * t * t - BACK * t * t;
+export const easeOutBack: Easing = (t) =>
+  1 + (BACK + 1) * Math.pow(t - 1, 3) + BACK * Math.pow(t - 1, 2);
+export const easeInOutBack: Easing = (t) =>
+  t < 0.5
+    ? (Math.pow(2 * t, 2) * ((BACK_IN_OUT + 1) * 2 * t - BACK_IN_OUT)) / 2
+    : (Math.pow(2 * t - 2, 2) * ((BACK_IN_OUT + 1) * (t * 2 - 2) + BACK_IN_OUT) + 2) / 2;
+
+// Elastic
+const ELASTIC = (2 * Math.PI) / 3;
+const ELASTIC_IN_OUT = (2 * Math.PI) / 4.5;
+export const easeInElastic: Easing = (t) =>
+  t === 0 ? 0
+    : t === 1 ? 1
+      : -Math.pow(2, 10 * t - 10) * Math.sin((t * 10 - 10.75) * ELASTIC);
+export const easeOutElastic: Easing = (t) =>
+  t === 0 ? 0
+    : t === 1 ? 1
+      : Math.pow(2, -10 * t) * Math.sin((t * 10 - 0.75) * ELASTIC) + 1;
+export const easeInOutElastic: Easing = (t) =>
+  t === 0 ? 0
+    : t === 1 ? 1
+      : t < 0.5
+        ? -(Math.pow(2, 20 * t - 10) * Math.sin((20 * t - 11.125) * ELASTIC_IN_OUT)) / 2
+        : (Math.pow(2, -20 * t + 10) * Math.sin((20 * t - 11.125) * ELASTIC_IN_OUT)) / 2 + 1;
+
+// Bounce
+export const easeOutBounce: Easing = (t) => {
+  const n = 7.5625;
+  const d = 2.75;
+  if (t < 1 / d) return n * t * t;
+  if (t < 2 / d) return n * (t -= 1.5 / d) * t + 0.75;
+  if (t < 2.5 / d) return n * (t -= 2.25 / d) * t + 0.9375;
+  return n * (t -= 2.625 / d) * t + 0.984375;
+};
+export const easeInBounce: Easing = (t) => 1 - easeOutBounce(1 - t);
+export const easeInOutBounce: Easing = (t) =>
+  t < 0.5 ? (1 - easeOutBounce(1 - 2 * t)) / 2 : (1 + easeOutBounce(2 * t - 1)) / 2;
+
+/**
+ * CSS-style cubic-bezier(x1, y1, x2, y2) curve.
+ * x is solved with Newton's method, falling back to bisection.
+ */
+export function cubicBezier(x1: number, y1: number, x2: number, y2: number): Easing {
+  const cx = 3 * x1;
+  const bx = 3 * (x2 - x1) - cx;
+  const ax = 1 - cx - bx;
+  const cy = 3 * y1;
+  const by = 3 * (y2 - y1) - cy;
+  const ay = 1 - cy - by;
+
+  const sampleX = (s: number) => ((ax * s + bx) * s + cx) * s;
+  const sampleY = (s: number) => ((ay * s + by) * s + cy) * s;
+  const slopeX = (s: number) => (3 * ax * s + 2 * bx) * s + cx;
+
+  const solveX = (x: number) => {
+    let s = x;
+    for (let i = 0; i < 8; i++) {
+      const error = sampleX(s) - x;
+      if (Math.abs(error) < 1e-6) return s;
+      const slope = slopeX(s);
+      if (Math.abs(slope) < 1e-6) break;
+      s -= error / slope;
+    }
+    let low = 0;
+    let high = 1;
+    s = x;
+    while (low < high) {
+      const value = sampleX(s);
+      if (Math.abs(value - x) < 1e-6) return s;
+      if (x > value) low = s;
+      else high = s;
+      s = (low + high) / 2;
+      if (high - low < 1e-7) break;
+    }
+    return s;
+  };
+
+  return (t) => (t <= 0 ? 0 : t >= 1 ? 1 : sampleY(solveX(t)));
+}
+
+export interface SpringOptions {
+  /** Spring stiffness (default: 100) */
+  stiffness?: number;
+  /** Damping; lower values oscillate more (default: 10) */
+  damping?: number;
+  /** Mass (default: 1) */
+  mass?: number;
+  /** Initial velocity towards the target (default: 0) */
+  velocity?: number;
+}
+
+/**
+ * Damped spring from 0 to 1. The curve is stretched so t = 1 is where the
+ * spring has settled, and it lands exactly on 1 there.
+ */
+export function spring({ stiffness = 100, damping = 10, mass = 1, velocity = 0 }: SpringOptions = {}): Easing {
+  const w0 = Math.sqrt(stiffness / mass);
+  const zeta = damping / (2 * Math.sqrt(stiffness * mass));
+  // Time for the envelope to decay to 0.1%
+  const settle = -Math.log(0.001) / (Math.min(zeta, 1) * w0);
+
+  const position = (time: number) => {
+    if (zeta < 1) {
+      const wd = w0 * Math.sqrt(1 - zeta * zeta);
+      return 1 - Math.exp(-zeta * w0 * time)
+        * (Math.cos(wd * time) + ((zeta * w0 - velocity) / wd) * Math.sin(wd * time));
+    }
+    // Critically damped (over-damped springs are treated the same)
+    return 1 - Math.exp(-w0 * time) * (1 + (w0 - velocity) * time);
+  };
+
+  return (t) => (t <= 0 ? 0 : t >= 1 ? 1 : position(t * settle));
+}
+
+/**
+ * CSS-style steps(count, position). 'end' holds each value until the
+ * step ends, 'start' jumps at the start, 'both' and 'none' add or drop a jump.
+ */
+export function steps(count: number, position: 'start' | 'end' | 'both' | 'none' = 'end'): Easing {
+  const n = Math.max(1, Math.floor(count));
+  return (t) => {
+    if (t >= 1) return 1;
+    if (t <= 0) return position === 'start' || position === 'both' ? 1 / (position === 'both' ? n + 1 : n) : 0;
+    const step = Math.floor(t * n);
+    switch (position) {
+      case 'start':
+        return Math.min(1, (step + 1) / n);
+      case 'both':
+        return (step + 1) / (n + 1);
+      case 'none':
+        return n === 1 ? 0 : step / (n - 1);
+      default:
+        return step / n;
+    }
+  };
+}
+
+/**
+ * Eased local progress of a window [start, end] within the overall
+ * progress: 0 before start, 1 after end.
+ */
+export function tween(progress: number, start: number, end: number, ease: Easing = linear): number {
+  if (end <= start) return progress < start ? 0 : 1;
+  return ease(clamp01((progress - start) / (end - start)));
+}
+
+/**
+ * Window [start, end] for item `index` of `count` staggered across 0-1.
+ * overlap 0 plays items one after another, 1 plays them all at once.
+ */
+export function stagger(index: number, count: number, overlap = 0.5): [number, number] {
+  const offset = 1 - clamp01(overlap);
+  const duration = 1 / (1 + Math.max(0, count - 1) * offset);
+  const start = index * duration * offset;
+  return [start, start + duration];
+}
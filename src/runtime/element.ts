@@ -0,0 +1,163 @@
+/**
+ * Embeddable web component
+ * Wraps createPlayer in a custom element so a bundled animation can be
+ * dropped into any page:
+ *
+ *   <script src="my-animation.js"></script>
+ *   <motion-canvas-animation primary-color="#ff0066"></motion-canvas-animation>
+ *
+ * Params can be set as kebab-case attributes or as a JSON `params`
+ * attribute/property. Add `paused` to start without playing.
+ */
+
+import type { AnyAnimationDefinition } from './types';
+import { isSimpleAnimation } from './types';
+import { createPlayer, type PlayerControls } from './player';
+import type { CompositionDefinition } from './composition';
+import { resolveDefinition, type DefinitionResolver, type SequenceDefinition } from './sequencer';
+
+export const DEFAULT_ELEMENT_TAG = 'motion-canvas-animation';
+
+/** Attributes handled by the element itself rather than mapped to params */
+const RESERVED_ATTRIBUTES = ['params', 'paused'];
+
+function toKebabCase(key: string): string {
+  return key.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`);
+}
+
+/** Parse an attribute string using the param's default value as the type */
+function parseAttribute(value: string, fallback: unknown): unknown {
+  if (typeof fallback === 'number') {
+    const parsed = parseFloat(value);
+    return Number.isFinite(parsed) ? parsed : fallback;
+  }
+  if (typeof fallback === 'boolean') {
+    return value !== 'false' && value !== '0';
+  }
+  if (fallback && typeof fallback === 'object') {
+    // Vectors accept "x,y" or JSON
+    const parts = value.split(',').map((p) => parseFloat(p));
+    if (parts.length === 2 && parts.every(Number.isFinite)) {
+      return { x: parts[0], y: parts[1] };
+    }
+    try {
+      return JSON.parse(value);
+    } catch {
+      return fallback;
+    }
+  }
+  return value;
+}
+
+/**
+ * Register a custom element that plays the animation with createPlayer.
+ * Compositions and sequences look up their animations with `resolveAnimation`.
+ * Does nothing if the tag is already defined.
+ */
+export function defineAnimationElement(
+  definition: AnyAnimationDefinition | CompositionDefinition | SequenceDefinition,
+  tagName = DEFAULT_ELEMENT_TAG,
+  resolveAnimation?: DefinitionResolver
+): void {
+  if (customElements.get(tagName)) return;
+
+  const animation = resolveDefinition(definition, resolveAnimation);
+
+  const defaults: Record<string, unknown> = isSimpleAnimation(animation)
+    ? {}
+    : { ...animation.params.defaults };
+  const attributeKeys = new Map(Object.keys(defaults).map((key) => [toKebabCase(key), key]));
+
+  class AnimationElement extends HTMLElement {
+    static get observedAttributes() {
+      return [...RESERVED_ATTRIBUTES, ...attributeKeys.keys()];
+    }
+
+    private canvas: HTMLCanvasElement;
+    private player: PlayerControls | null = null;
+    private propertyParams: Record<string, unknown> = {};
+
+    constructor() {
+      super();
+      const root = this.attachShadow({ mode: 'open' });
+      const style = document.createElement('style');
+      style.textContent = ':host { display: inline-block; } canvas { display: block; }';
+      this.canvas = document.createElement('canvas');
+      root.append(style, this.canvas);
+    }
+
+    /** Params from the JSON property, overridden by individual attributes */
+    get params(): Record<string, unknown> {
+      const resolved: Record<string, unknown> = { ...defaults, ...this.propertyParams };
+      const json = this.getAttribute('params');
+      if (json) {
+        try {
+          Object.assign(resolved, JSON.parse(json));
+        } catch {
+          console.warn(`<${tagName}>: ignoring invalid params JSON`);
+        }
+      }
+      for (const [attribute, key] of attributeKeys) {
+        const value = this.getAttribute(attribute);
+        if (value !== null) resolved[key] = parseAttribute(value, defaults[key]);
+      }
+      return resolved;
+    }
+
+    set params(value: Record<string, unknown> | string) {
+      this.propertyParams = typeof value === 'string' ? JSON.parse(value) : { ...value };
+      this.player?.setParams(this.params);
+    }
+
+    get playing(): boolean {
+      return this.player?.isPlaying() ?? false;
+    }
+
+    connectedCallback() {
+      this.player = createPlayer({
+        canvas: this.canvas,
+        animation,
+        params: this.params,
+      });
+      if (!this.hasAttribute('paused')) this.player.play();
+    }
+
+    disconnectedCallback() {
+      this.player?.destroy();
+      this.player = null;
+    }
+
+    attributeChangedCallback(name: string, previous: string | null, value: string | null) {
+      if (!this.player || previous === value) return;
+      if (name === 'paused') {
+        if (value === null) this.player.play();
+        else this.player.pause();
+        return;
+      }
+      this.player.setParams(this.params);
+    }
+
+    play() {
+      this.player?.play();
+    }
+
+    pause() {
+      this.player?.pause();
+    }
+
+    toggle() {
+      this.player?.toggle();
+    }
+
+    restart() {
+      this.player?.restart();
+    }
+
+    /** Seek to a time in seconds */
+    seek(time: number) {
+      this.player?.seek(time);
+    }
+  }
+
+  customElements.define(tagName, AnimationElement);
+}
@@ -0,0 +1,175 @@
+/**
+ * Animated PNG export
+ * Encodes one loop of an animation as a looping APNG in the browser.
+ * Unlike GIF, APNG keeps full 8-bit alpha for transparent animations.
+ */
+
+import { zlibSync } from 'fflate';
+import type { AnyAnimationDefinition } from '../types';
+import { createByteWriter } from './bytes';
+import { captureFrames, nextTick, throwIfAborted } from './capture';
+import { applyPalette, quantize, type DitherMode, type Palette } from './palette';
+
+export interface ApngExportOptions {
+  /** Frames per second */
+  fps: number;
+  /** Resolution multiplier applied to the animation size (default: 1) */
+  scale?: number;
+  /** Number of palette colors, 2-256, or 0 for full-color RGBA (default: 256) */
+  paletteSize?: number;
+  /** Dithering applied when mapping to the palette (default: floyd-steinberg) */
+  dither?: DitherMode;
+  /** Called as frames are rendered and encoded */
+  onProgress?: (done: number, total: number) => void;
+  /** Abort the export between frames */
+  signal?: AbortSignal;
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/** Big-endian chunk field builder */
+function fields(...values: [number, 2 | 4 | 1][]): number[] {
+  const out: number[] = [];
+  for (const [value, size] of values) {
+    for (let i = size - 1; i >= 0; i--) out.push((value >>> (i * 8)) & 0xff);
+  }
+  return out;
+}
+
+/**
+ * Prefix each scanline with a PNG filter byte. Indexed rows are stored
+ * unfiltered; RGBA rows use the Sub filter, which compresses flat areas well.
+ */
+function filterScanlines(pixels: Uint8Array, width: number, height: number, bytesPerPixel: number): Uint8Array {
+  const stride = width * bytesPerPixel;
+  const out = new Uint8Array((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    const row = y * stride;
+    const target = y * (stride + 1);
+    if (bytesPerPixel === 1) {
+      out[target] = 0;
+      out.set(pixels.subarray(row, row + stride), target + 1);
+      continue;
+    }
+    out[target] = 1;
+    for (let x = 0; x < stride; x++) {
+      const left = x >= bytesPerPixel ? pixels[row + x - bytesPerPixel] : 0;
+      out[target + 1 + x] = (pixels[row + x] - left) & 0xff;
+    }
+  }
+  return out;
+}
+
+/**
+ * Encode frames as a looping APNG. Pass a palette for indexed frames
+ * (one byte per pixel) or null for RGBA frames (four bytes per pixel).
+ */
+export function encodeApng(
+  width: number,
+  height: number,
+  frames: Uint8Array[],
+  palette: Palette | null,
+  fps: number
+): Uint8Array<ArrayBuffer> {
+  const out = createByteWriter();
+  let sequence = 0;
+
+  const chunk = (type: string, data: ArrayLike<number>) => {
+    const body = new Uint8Array(4 + data.length);
+    for (let i = 0; i < 4; i++) body[i] = type.charCodeAt(i);
+    body.set(data, 4);
+    out.bytes(fields([data.length, 4]));
+    out.bytes(body);
+    out.bytes(fields([crc32(body), 4]));
+  };
+
+  out.bytes(PNG_SIGNATURE);
+  // Color type 3 = indexed, 6 = truecolor with alpha
+  chunk('IHDR', [...fields([width, 4], [height, 4], [8, 1], [palette ? 3 : 6, 1]), 0, 0, 0]);
+  chunk('acTL', fields([frames.length, 4], [0, 4]));
+
+  if (palette) {
+    chunk('PLTE', palette.colors.flatMap(([r, g, b]) => [r, g, b]));
+    const alpha = palette.colors.map((c) => c[3]);
+    // tRNS may omit trailing opaque entries
+    while (alpha.length && alpha[alpha.length - 1] === 255) alpha.pop();
+    if (alpha.length) chunk('tRNS', alpha);
+  }
+
+  frames.forEach((pixels, i) => {
+    // fcTL: full-frame region, delay of 1/fps, no dispose, replace pixels
+    chunk('fcTL', fields(
+      [sequence++, 4],
+      [width, 4],
+      [height, 4],
+      [0, 4],
+      [0, 4],
+      [1, 2],
+      [Math.round(fps), 2],
+      [0, 1],
+      [0, 1]
+    ));
+
+    const data = zlibSync(filterScanlines(pixels, width, height, palette ? 1 : 4), { level: 9 });
+    if (i === 0) {
+      chunk('IDAT', data);
+    } else {
+      const frameData = new Uint8Array(4 + data.length);
+      frameData.set(fields([sequence++, 4]));
+      frameData.set(data, 4);
+      chunk('fdAT', frameData);
+    }
+  });
+
+  chunk('IEND', []);
+  return out.toBytes();
+}
+
+/**
+ * Render one loop of an animation and encode it as an animated PNG
+ */
+export async function exportApng(
+  animation: AnyAnimationDefinition,
+  params: Record<string, unknown>,
+  options: ApngExportOptions
+): Promise<Blob> {
+  const { fps, scale = 1, paletteSize = 256, dither = 'floyd-steinberg', signal, onProgress } = options;
+
+  // Rendering and encoding each count for half of the progress
+  const captured = await captureFrames(animation, params, {
+    fps,
+    scale,
+    signal,
+    onProgress: (done, total) => onProgress?.(done, total * 2),
+  });
+  const { width, height, frames } = captured;
+
+  const palette = paletteSize > 0 ? quantize(frames, { size: paletteSize, alpha: true }) : null;
+  const encoded: Uint8Array[] = [];
+  for (const data of frames) {
+    throwIfAborted(signal);
+    encoded.push(palette
+      ? applyPalette(data, width, height, palette, dither, true)
+      : new Uint8Array(data.buffer, data.byteOffset, data.byteLength));
+    onProgress?.(frames.length + encoded.length, frames.length * 2);
+    await nextTick();
+  }
+
+  return new Blob([encodeApng(width, height, encoded, palette, fps)], { type: 'image/apng' });
+}
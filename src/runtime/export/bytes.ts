@@ -0,0 +1,55 @@
+/**
+ * Byte buffer helper for binary file encoders
+ */
+
+/** Growable byte buffer */
+export interface ByteWriter {
+  byte(value: number): void;
+  word(value: number): void;
+  bytes(values: ArrayLike<number>): void;
+  string(value: string): void;
+  toBytes(): Uint8Array<ArrayBuffer>;
+}
+
+export function createByteWriter(initialSize = 1 << 16): ByteWriter {
+  let buffer = new Uint8Array(initialSize);
+  let length = 0;
+
+  function ensure(extra: number) {
+    if (length + extra <= buffer.length) return;
+    let size = buffer.length;
+    while (size < length + extra) size *= 2;
+    const next = new Uint8Array(size);
+    next.set(buffer.subarray(0, length));
+    buffer = next;
+  }
+
+  function byte(value: number) {
+    ensure(1);
+    buffer[length++] = value;
+  }
+
+  // Little-endian 16-bit value
+  function word(value: number) {
+    byte(value & 0xff);
+    byte((value >> 8) & 0xff);
+  }
+
+  function bytes(values: ArrayLike<number>) {
+    ensure(values.length);
+    buffer.set(values, length);
+    length += values.length;
+  }
+
+  function string(value: string) {
+    for (let i = 0; i < value.length; i++) byte(value.charCodeAt(i));
+  }
+
+  return {
+    byte,
+    word,
+    bytes,
+    string,
+    toBytes: () => buffer.slice(0, length),
+  };
+}
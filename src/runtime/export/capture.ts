@@ -0,0 +1,67 @@
+/**
+ * Frame capture for image exporters
+ * Renders an animation offline and collects raw RGBA pixels for each frame
+ */
+
+import type { AnyAnimationDefinition } from '../types';
+import { getFrameCount, renderFrames, type RenderFramesOptions } from '../frames';
+
+export interface CaptureOptions extends Omit<RenderFramesOptions, 'canvas'> {
+  /** Called after each captured frame */
+  onProgress?: (done: number, total: number) => void;
+  /** Abort the capture between frames */
+  signal?: AbortSignal;
+}
+
+export interface CapturedFrames {
+  /** Frame width in device pixels */
+  width: number;
+  /** Frame height in device pixels */
+  height: number;
+  /** Frames per second the frames were sampled at */
+  fps: number;
+  /** Unpremultiplied RGBA pixels, one array per frame */
+  frames: Uint8ClampedArray[];
+}
+
+/** Yield to the event loop so progress UI can repaint */
+export function nextTick(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+/** Throw an AbortError if the signal has fired */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) throw new DOMException('Export aborted', 'AbortError');
+}
+
+/**
+ * Render the requested frame range and read back each frame's pixels
+ */
+export async function captureFrames(
+  animation: AnyAnimationDefinition,
+  params: Record<string, unknown>,
+  options: CaptureOptions = {}
+): Promise<CapturedFrames> {
+  const { onProgress, signal, ...renderOptions } = options;
+  const fps = renderOptions.fps ?? animation.fps ?? 60;
+  const from = renderOptions.from ?? 0;
+  const to = renderOptions.to ?? getFrameCount(animation, fps);
+  const total = Math.max(1, to - from);
+  const frames: Uint8ClampedArray[] = [];
+  let width = 0;
+  let height = 0;
+
+  for (const frame of renderFrames(animation, params, { ...renderOptions, fps, to })) {
+    throwIfAborted(signal);
+
+    const context = frame.canvas.getContext('2d') as CanvasRenderingContext2D;
+    width = frame.canvas.width;
+    height = frame.canvas.height;
+    frames.push(context.getImageData(0, 0, width, height).data);
+
+    onProgress?.(frames.length, total);
+    await nextTick();
+  }
+
+  return { width, height, fps, frames };
+}
@@ -0,0 +1,113 @@
+/**
+ * CSS color parsing for vector exporters
+ */
+
+/** Color as [r, g, b, a] with channels 0-255 and alpha 0-1 */
+export type RGBA = [number, number, number, number];
+
+const NAMED_COLORS: Record<string, RGBA> = {
+  transparent: [0, 0, 0, 0],
+  black: [0, 0, 0, 1],
+  white: [255, 255, 255, 1],
+  red: [255, 0, 0, 1],
+  green: [0, 128, 0, 1],
+  lime: [0, 255, 0, 1],
+  blue: [0, 0, 255, 1],
+  yellow: [255, 255, 0, 1],
+  cyan: [0, 255, 255, 1],
+  aqua: [0, 255, 255, 1],
+  magenta: [255, 0, 255, 1],
+  fuchsia: [255, 0, 255, 1],
+  gray: [128, 128, 128, 1],
+  grey: [128, 128, 128, 1],
+  silver: [192, 192, 192, 1],
+  orange: [255, 165, 0, 1],
+  purple: [128, 0, 128, 1],
+  pink: [255, 192, 203, 1],
+  navy: [0, 0, 128, 1],
+  teal: [0, 128, 128, 1],
+};
+
+let scratch: CanvasRenderingContext2D | null | undefined;
+
+/** Let the browser normalize colors we don't parse ourselves */
+function normalizeWithCanvas(value: string): string | null {
+  if (scratch === undefined) {
+    scratch = typeof document !== 'undefined'
+      ? document.createElement('canvas').getContext('2d')
+      : null;
+  }
+  if (!scratch) return null;
+  scratch.fillStyle = '#000001';
+  scratch.fillStyle = value;
+  const normalized = scratch.fillStyle;
+  return typeof normalized === 'string' && normalized !== '#000001' ? normalized : null;
+}
+
+function parseChannel(value: string, max: number): number {
+  return value.endsWith('%') ? (parseFloat(value) / 100) * max : parseFloat(value);
+}
+
+function hslToRgb(h: number, s: number, l: number): [number, number, number] {
+  const k = (n: number) => (n + h / 30) % 12;
+  const a = s * Math.min(l, 1 - l);
+  const f = (n: number) => l - a * Math.max(-1, Math.min(k(n) - 3, Math.min(9 - k(n), 1)));
+  return [Math.round(f(0) * 255), Math.round(f(8) * 255), Math.round(f(4) * 255)];
+}
+
+/**
+ * Parse a CSS color string. Returns null for values that can't be parsed.
+ */
+export function parseColor(value: string, fallback = true): RGBA | null {
+  const input = value.trim().toLowerCase();
+
+  if (input in NAMED_COLORS) return [...NAMED_COLORS[input]];
+
+  if (input.startsWith('#')) {
+    let hex = input.slice(1);
+    if (hex.length === 3 || hex.length === 4) {
+      hex = hex.split('').map((c) => c + c).join('');
+    }
+    if (/^[0-9a-f]{6}([0-9a-f]{2})?$/.test(hex)) {
+      return [
+        parseInt(hex.slice(0, 2), 16),
+        parseInt(hex.slice(2, 4), 16),
+        parseInt(hex.slice(4, 6), 16),
+        hex.length === 8 ? parseInt(hex.slice(6, 8), 16) / 255 : 1,
+      ];
+    }
+  }
+
+  const fn = input.match(/^(rgba?|hsla?)\((.*)\)$/);
+  if (fn) {
+    const parts = fn[2].split(/[\s,/]+/).filter(Boolean);
+    if (parts.length >= 3) {
+      const alpha = parts[3] !== undefined ? parseChannel(parts[3], 1) : 1;
+      if (fn[1].startsWith('rgb')) {
+        return [
+          Math.round(parseChannel(parts[0], 255)),
+          Math.round(parseChannel(parts[1], 255)),
+          Math.round(parseChannel(parts[2], 255)),
+          alpha,
+        ];
+      }
+      const [r, g, b] = hslToRgb(
+        parseFloat(parts[0]),
+        parseFloat(parts[1]) / 100,
+        parseFloat(parts[2]) / 100
+      );
+      return [r, g, b, alpha];
+    }
+  }
+
+  if (fallback) {
+    const normalized = normalizeWithCanvas(value);
+    if (normalized) return parseColor(normalized, false);
+  }
+  return null;
+}
+
+/** Format a color as #rrggbb (alpha is handled separately as opacity) */
+export function toHex([r, g, b]: RGBA): string {
+  return '#' + [r, g, b].map((c) => Math.round(c).toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,183 @@
+/**
+ * Animated GIF export
+ * Encodes one loop of an animation as a looping GIF89a in the browser
+ */
+
+import type { AnyAnimationDefinition } from '../types';
+import { createByteWriter, type ByteWriter } from './bytes';
+import { captureFrames, nextTick, throwIfAborted } from './capture';
+import { applyPalette, quantize, type DitherMode, type Palette } from './palette';
+
+export interface GifExportOptions {
+  /** Frames per second (GIF delays are in 1/100s, so 50 is the practical max) */
+  fps: number;
+  /** Resolution multiplier applied to the animation size (default: 1) */
+  scale?: number;
+  /** Number of palette colors, 2-256 (default: 256) */
+  paletteSize?: number;
+  /** Dithering applied when mapping to the palette (default: floyd-steinberg) */
+  dither?: DitherMode;
+  /** Called as frames are rendered and encoded */
+  onProgress?: (done: number, total: number) => void;
+  /** Abort the export between frames */
+  signal?: AbortSignal;
+}
+
+/**
+ * LZW-compress palette indices and write them as GIF data sub-blocks
+ */
+function writeLzw(out: ByteWriter, indices: Uint8Array, minCodeSize: number) {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  const table = new Map<number, number>();
+
+  const block: number[] = [];
+  let bits = 0;
+  let bitCount = 0;
+
+  const flushBlock = () => {
+    out.byte(block.length);
+    out.bytes(block);
+    block.length = 0;
+  };
+
+  const emit = (code: number) => {
+    bits |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      block.push(bits & 0xff);
+      if (block.length === 255) flushBlock();
+      bits >>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  out.byte(minCodeSize);
+  emit(clearCode);
+
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const key = (prefix << 8) | k;
+    const existing = table.get(key);
+    if (existing !== undefined) {
+      prefix = existing;
+      continue;
+    }
+
+    emit(prefix);
+    if (nextCode === 4096) {
+      emit(clearCode);
+      table.clear();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = k;
+  }
+
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) block.push(bits & 0xff);
+  if (block.length > 0) flushBlock();
+  out.byte(0);
+}
+
+/**
+ * Encode indexed frames as a looping GIF
+ */
+export function encodeGif(
+  width: number,
+  height: number,
+  frames: Uint8Array[],
+  palette: Palette,
+  fps: number
+): Uint8Array<ArrayBuffer> {
+  const out = createByteWriter();
+
+  // Global color table size must be a power of two (2^(n+1))
+  let tableBits = 1;
+  while (1 << tableBits < palette.colors.length) tableBits++;
+  const minCodeSize = Math.max(2, tableBits);
+
+  out.string('GIF89a');
+  out.word(width);
+  out.word(height);
+  out.byte(0x80 | ((tableBits - 1) << 4) | (tableBits - 1));
+  out.byte(0); // background color index
+  out.byte(0); // pixel aspect ratio
+
+  for (let i = 0; i < 1 << tableBits; i++) {
+    const [r, g, b] = palette.colors[i] ?? [0, 0, 0];
+    out.byte(r);
+    out.byte(g);
+    out.byte(b);
+  }
+
+  // NETSCAPE2.0 extension: loop forever
+  out.bytes([0x21, 0xff, 0x0b]);
+  out.string('NETSCAPE2.0');
+  out.bytes([0x03, 0x01, 0x00, 0x00, 0x00]);
+
+  const transparent = palette.transparentIndex !== -1;
+  frames.forEach((indices, i) => {
+    // Spread rounding across frames so the loop keeps its exact duration
+    const delay = Math.round(((i + 1) * 100) / fps) - Math.round((i * 100) / fps);
+
+    // Graphic control extension; restore to background so transparent
+    // areas don't show the previous frame
+    out.bytes([0x21, 0xf9, 0x04]);
+    out.byte(((transparent ? 2 : 1) << 2) | (transparent ? 1 : 0));
+    out.word(delay);
+    out.byte(transparent ? palette.transparentIndex : 0);
+    out.byte(0);
+
+    // Image descriptor covering the full canvas
+    out.byte(0x2c);
+    out.word(0);
+    out.word(0);
+    out.word(width);
+    out.word(height);
+    out.byte(0);
+
+    writeLzw(out, indices, minCodeSize);
+  });
+
+  out.byte(0x3b);
+  return out.toBytes();
+}
+
+/**
+ * Render one loop of an animation and encode it as an animated GIF
+ */
+export async function exportGif(
+  animation: AnyAnimationDefinition,
+  params: Record<string, unknown>,
+  options: GifExportOptions
+): Promise<Blob> {
+  const { fps, scale = 1, paletteSize = 256, dither = 'floyd-steinberg', signal, onProgress } = options;
+
+  // Rendering and encoding each count for half of the progress
+  const captured = await captureFrames(animation, params, {
+    fps,
+    scale,
+    signal,
+    onProgress: (done, total) => onProgress?.(done, total * 2),
+  });
+  const { width, height, frames } = captured;
+
+  const palette = quantize(frames, { size: paletteSize });
+  const indexed: Uint8Array[] = [];
+  for (const data of frames) {
+    throwIfAborted(signal);
+    indexed.push(applyPalette(data, width, height, palette, dither));
+    onProgress?.(frames.length + indexed.length, frames.length * 2);
+    await nextTick();
+  }
+
+  return new Blob([encodeGif(width, height, indexed, palette, fps)], { type: 'image/gif' });
+}
@@ -0,0 +1,343 @@
+/**
+ * Lottie export
+ * Records the Canvas2D calls an animation makes each frame and converts
+ * them to Lottie shape layers. Best effort: paths, fills, strokes,
+ * gradients and opacity are exported; images, filters, text and clipping
+ * are not, and are listed as warnings.
+ */
+
+import type { AnyAnimationDefinition } from '../types';
+import {
+  createWarningLog,
+  recordAnimation,
+  type ExportWarning,
+  type GradientStop,
+  type Paint,
+  type PathCommand,
+  type RecordedFrame,
+  type RecordedShape,
+} from './recorder';
+
+export interface LottieExportOptions {
+  /** Frames per second to sample at */
+  fps: number;
+  /** Called after each recorded frame */
+  onProgress?: (done: number, total: number) => void;
+  /** Abort the export between frames */
+  signal?: AbortSignal;
+}
+
+export interface LottieExportResult {
+  blob: Blob;
+  /** Canvas features that could not be exported */
+  warnings: ExportWarning[];
+}
+
+/** Lottie bezier shape: vertices with in/out tangents relative to each vertex */
+interface LottieShape {
+  c: boolean;
+  v: number[][];
+  i: number[][];
+  o: number[][];
+}
+
+type Value = number | number[] | LottieShape;
+
+/** Lottie property: static value or one keyframe per frame */
+type LottieProperty = { a: 0; k: unknown } | { a: 1; k: unknown[] };
+
+const LOTTIE_WARNINGS: Record<string, string> = {
+  fillText: 'Text is not exported to Lottie',
+  strokeText: 'Text is not exported to Lottie',
+  clip: 'Clipping is not exported to Lottie; clipped shapes are drawn in full',
+};
+
+const round = (n: number) => Math.round(n * 1000) / 1000;
+
+/** Convert canvas-space path commands to Lottie shapes, one per subpath */
+function toLottieShapes(path: PathCommand[]): LottieShape[] {
+  const shapes: LottieShape[] = [];
+  let shape: LottieShape | null = null;
+
+  const finish = () => {
+    if (!shape) return;
+    if (shape.c && shape.v.length > 1) {
+      // Canvas closes back to the start point; Lottie closes implicitly
+      const first = shape.v[0];
+      const last = shape.v[shape.v.length - 1];
+      if (Math.abs(first[0] - last[0]) < 1e-3 && Math.abs(first[1] - last[1]) < 1e-3) {
+        shape.i[0] = shape.i[shape.i.length - 1];
+        shape.v.pop();
+        shape.i.pop();
+        shape.o.pop();
+      }
+    }
+    if (shape.v.length > 1) shapes.push(shape);
+    shape = null;
+  };
+
+  for (const command of path) {
+    if (command.type === 'M') {
+      finish();
+      shape = { c: false, v: [[round(command.x), round(command.y)]], i: [[0, 0]], o: [[0, 0]] };
+      continue;
+    }
+    if (!shape) continue;
+    if (command.type === 'Z') {
+      shape.c = true;
+      finish();
+      continue;
+    }
+
+    const last = shape.v[shape.v.length - 1];
+    if (command.type === 'L') {
+      shape.v.push([round(command.x), round(command.y)]);
+      shape.i.push([0, 0]);
+    } else {
+      shape.o[shape.o.length - 1] = [round(command.x1 - last[0]), round(command.y1 - last[1])];
+      shape.v.push([round(command.x), round(command.y)]);
+      shape.i.push([round(command.x2 - command.x), round(command.y2 - command.y)]);
+    }
+    shape.o.push([0, 0]);
+  }
+  finish();
+  return shapes;
+}
+
+/** Remap stops so offset 0 sits at the inner circle of a two-circle radial gradient */
+function gradientStops(paint: Exclude<Paint, { type: 'color' }>): GradientStop[] {
+  if (paint.type !== 'radial' || paint.r0 === 0 || paint.r1 === 0) return paint.stops;
+  const ratio = paint.r0 / paint.r1;
+  return paint.stops.map((stop) => ({ ...stop, offset: ratio + stop.offset * (1 - ratio) }));
+}
+
+/** Lottie gradient data: [offset, r, g, b]... followed by [offset, alpha]... */
+function gradientColors(stops: GradientStop[]): number[] {
+  const colors = stops.flatMap((s) => [round(s.offset), ...s.color.slice(0, 3).map((c) => round(c / 255))]);
+  const alphas = stops.flatMap((s) => [round(s.offset), round(s.color[3])]);
+  return [...colors, ...alphas];
+}
+
+/**
+ * Describe what is animatable in a shape. Frames whose ops share a
+ * signature become keyframes of the same layer.
+ */
+function shapeSignature(op: RecordedShape): string {
+  const subpaths = toLottieShapes(op.path).map((s) => `${s.v.length}${s.c ? 'c' : 'o'}`).join(',');
+  const paint = op.fill?.paint ?? op.stroke!.paint;
+  const stops = paint.type === 'color' ? '' : paint.stops.length;
+  const style = op.fill
+    ? `f${op.fill.rule}`
+    : `s${op.stroke!.cap}${op.stroke!.join}${op.stroke!.dash.length}`;
+  return `${subpaths}|${paint.type}${stops}|${style}`;
+}
+
+function frameSignature(frame: RecordedFrame): string {
+  return frame.ops
+    .filter((op): op is RecordedShape => op.type === 'shape')
+    .map(shapeSignature)
+    .join(';');
+}
+
+/** Build a property from per-frame values, dropping keyframes that don't change */
+function animated(values: Value[], frames: number[]): LottieProperty {
+  const keys = values.map((v) => JSON.stringify(v));
+  if (keys.every((k) => k === keys[0])) return { a: 0, k: values[0] };
+
+  const keyframes: unknown[] = [];
+  values.forEach((value, i) => {
+    // Skip frames in the middle of a run of equal values
+    if (i > 0 && i < values.length - 1 && keys[i] === keys[i - 1] && keys[i] === keys[i + 1]) return;
+    keyframes.push({
+      t: frames[i],
+      s: Array.isArray(value) ? value : [value],
+      i: { x: [1], y: [1] },
+      o: { x: [0], y: [0] },
+    });
+  });
+  return { a: 1, k: keyframes };
+}
+
+/** Build a Lottie group for one draw op across a run of frames */
+function createGroup(ops: RecordedShape[], frames: number[], index: number) {
+  const first = ops[0];
+  const items: Record<string, unknown>[] = [];
+  const shapes = ops.map((op) => toLottieShapes(op.path));
+
+  shapes[0].forEach((_, i) => {
+    items.push({
+      ty: 'sh',
+      nm: `Path ${i + 1}`,
+      ks: animated(shapes.map((s) => s[i]), frames),
+    });
+  });
+
+  const paints = ops.map((op) => op.fill?.paint ?? op.stroke!.paint);
+  const paint = paints[0];
+  const color = (p: Paint) => p.type === 'color'
+    ? [...p.color.slice(0, 3).map((c) => round(c / 255)), 1]
+    : [0, 0, 0, 1];
+  const alpha = (p: Paint) => (p.type === 'color' ? round(p.color[3] * 100) : 100);
+
+  if (paint.type === 'color') {
+    const style = {
+      c: animated(paints.map(color), frames),
+      o: animated(paints.map(alpha), frames),
+    };
+    if (first.fill) {
+      items.push({ ty: 'fl', nm: 'Fill', ...style, r: first.fill.rule === 'evenodd' ? 2 : 1 });
+    }
+    if (first.stroke) items.push(strokeItem(ops, frames, 'st', style));
+  } else {
+    const gradients = paints as Exclude<Paint, { type: 'color' }>[];
+    const start = gradients.map((p) => p.type === 'linear'
+      ? [round(p.x0), round(p.y0)]
+      : [round(p.x1), round(p.y1)]);
+    const end = gradients.map((p) => p.type === 'linear'
+      ? [round(p.x1), round(p.y1)]
+      : [round(p.x1 + p.r1), round(p.y1)]);
+    const style = {
+      t: paint.type === 'linear' ? 1 : 2,
+      s: animated(start, frames),
+      e: animated(end, frames),
+      g: { p: paint.stops.length, k: animated(gradients.map((p) => gradientColors(gradientStops(p))), frames) },
+      o: { a: 0, k: 100 },
+      h: { a: 0, k: 0 },
+      a: { a: 0, k: 0 },
+    };
+    if (first.fill) {
+      items.push({ ty: 'gf', nm: 'Gradient Fill', ...style, r: first.fill.rule === 'evenodd' ? 2 : 1 });
+    }
+    if (first.stroke) items.push(strokeItem(ops, frames, 'gs', style));
+  }
+
+  items.push({
+    ty: 'tr',
+    p: { a: 0, k: [0, 0] },
+    a: { a: 0, k: [0, 0] },
+    s: { a: 0, k: [100, 100] },
+    r: { a: 0, k: 0 },
+    o: animated(ops.map((op) => round(op.opacity * 100)), frames),
+    sk: { a: 0, k: 0 },
+    sa: { a: 0, k: 0 },
+  });
+
+  return { ty: 'gr', nm: `Shape ${index + 1}`, it: items };
+}
+
+const LINE_CAPS: Record<CanvasLineCap, number> = { butt: 1, round: 2, square: 3 };
+const LINE_JOINS: Record<CanvasLineJoin, number> = { miter: 1, round: 2, bevel: 3 };
+
+function strokeItem(
+  ops: RecordedShape[],
+  frames: number[],
+  type: 'st' | 'gs',
+  style: Record<string, unknown>
+) {
+  const stroke = ops[0].stroke!;
+  const dashes = stroke.dash.flatMap((_, i) => [{
+    n: i % 2 ? 'g' : 'd',
+    nm: i % 2 ? 'gap' : 'dash',
+    v: animated(ops.map((op) => round(op.stroke!.dash[i])), frames),
+  }]);
+  if (dashes.length) {
+    dashes.push({ n: 'o', nm: 'offset', v: animated(ops.map((op) => round(op.stroke!.dashOffset)), frames) });
+  }
+
+  return {
+    ty: type,
+    nm: 'Stroke',
+    ...style,
+    w: animated(ops.map((op) => round(op.stroke!.width)), frames),
+    lc: LINE_CAPS[stroke.cap],
+    lj: LINE_JOINS[stroke.join],
+    ml: stroke.miterLimit,
+    ...(dashes.length ? { d: dashes } : {}),
+  };
+}
+
+/** Split frames into runs with the same draw structure */
+function splitRuns(frames: RecordedFrame[]): RecordedFrame[][] {
+  const runs: RecordedFrame[][] = [];
+  let previous: string | null = null;
+  for (const frame of frames) {
+    const signature = frameSignature(frame);
+    if (signature === previous) {
+      runs[runs.length - 1].push(frame);
+    } else {
+      runs.push([frame]);
+      previous = signature;
+    }
+  }
+  return runs;
+}
+
+/**
+ * Record one loop of an animation and convert it to Lottie JSON
+ */
+export async function exportLottie(
+  animation: AnyAnimationDefinition,
+  params: Record<string, unknown>,
+  options: LottieExportOptions
+): Promise<LottieExportResult> {
+  const { fps, signal, onProgress } = options;
+  const recording = await recordAnimation(animation, params, { fps, signal, onProgress });
+  const warnings = createWarningLog();
+
+  const layers = splitRuns(recording.frames).map((run, layerIndex) => {
+    const frames = run.map((f) => f.index);
+    const shapeOps = run.map((f) => f.ops.filter((op): op is RecordedShape => op.type === 'shape'));
+    const groups = shapeOps[0].map((_, i) => createGroup(shapeOps.map((ops) => ops[i]), frames, i));
+    const start = frames[0];
+    const end = frames[frames.length - 1] + 1;
+
+    return {
+      ddd: 0,
+      ind: layerIndex + 1,
+      ty: 4,
+      nm: `Frames ${start}-${end - 1}`,
+      sr: 1,
+      ks: {
+        o: { a: 0, k: 100 },
+        r: { a: 0, k: 0 },
+        p: { a: 0, k: [0, 0, 0] },
+        a: { a: 0, k: [0, 0, 0] },
+        s: { a: 0, k: [100, 100, 100] },
+      },
+      ao: 0,
+      // Lottie draws the first shape on top; canvas draws the last op on top
+      shapes: groups.reverse(),
+      ip: start,
+      op: end,
+      st: 0,
+      bm: 0,
+    };
+  });
+
+  // Features the recorder captured but Lottie output drops
+  for (const frame of recording.frames) {
+    for (const op of frame.ops) {
+      if (op.type === 'text') warnings.add(op.fill ? 'fillText' : 'strokeText');
+      if (op.clips.length) warnings.add('clip');
+    }
+  }
+
+  const frameCount = recording.frames.length;
+  const lottie = {
+    v: '5.7.4',
+    fr: fps,
+    ip: recording.frames[0]?.index ?? 0,
+    op: (recording.frames[0]?.index ?? 0) + frameCount,
+    w: recording.width,
+    h: recording.height,
+    nm: animation.name ?? 'Animation',
+    ddd: 0,
+    assets: [],
+    layers,
+  };
+
+  return {
+    blob: new Blob([JSON.stringify(lottie)], { type: 'application/json' }),
+    warnings: [...recording.warnings, ...warnings.list(LOTTIE_WARNINGS)],
+  };
+}
@@ -0,0 +1,216 @@
+/**
+ * Palette quantization and dithering for indexed-color exporters (GIF, APNG)
+ */
+
+export type DitherMode = 'none' | 'floyd-steinberg' | 'bayer';
+
+export interface Palette {
+  /** Palette entries as [r, g, b, a] */
+  colors: [number, number, number, number][];
+  /** Index reserved for fully transparent pixels, or -1 */
+  transparentIndex: number;
+}
+
+export interface QuantizeOptions {
+  /** Maximum number of colors including the transparent entry (2-256) */
+  size: number;
+  /** Quantize alpha as a channel (APNG) instead of a 1-bit cutout (GIF) */
+  alpha?: boolean;
+  /** Upper bound on sampled pixels across all frames (default: 250k) */
+  maxSamples?: number;
+}
+
+/** Alpha below this is treated as fully transparent */
+const ALPHA_CUTOFF = 128;
+
+/** 4x4 Bayer matrix, normalized to -0.5..0.5 */
+const BAYER_4X4 = [0, 8, 2, 10, 12, 4, 14, 6, 3, 11, 1, 9, 15, 7, 13, 5].map(
+  (v) => (v + 0.5) / 16 - 0.5
+);
+
+type Box = { pixels: number[][]; range: number; channel: number };
+
+function measureBox(pixels: number[][], channels: number): Box {
+  let range = -1;
+  let channel = 0;
+  for (let c = 0; c < channels; c++) {
+    let min = 255;
+    let max = 0;
+    for (const p of pixels) {
+      if (p[c] < min) min = p[c];
+      if (p[c] > max) max = p[c];
+    }
+    if (max - min > range) {
+      range = max - min;
+      channel = c;
+    }
+  }
+  return { pixels, range, channel };
+}
+
+/**
+ * Build a palette for a set of frames using median cut
+ */
+export function quantize(frames: Uint8ClampedArray[], options: QuantizeOptions): Palette {
+  const size = Math.max(2, Math.min(256, Math.floor(options.size)));
+  const channels = options.alpha ? 4 : 3;
+  const totalPixels = frames.reduce((sum, f) => sum + f.length / 4, 0);
+  const stride = Math.max(1, Math.floor(totalPixels / (options.maxSamples ?? 250_000)));
+
+  const samples: number[][] = [];
+  let hasTransparency = false;
+  for (const data of frames) {
+    for (let i = 0; i < data.length; i += 4 * stride) {
+      if (data[i + 3] < ALPHA_CUTOFF) {
+        hasTransparency = true;
+        if (!options.alpha) continue;
+      }
+      samples.push(options.alpha
+        ? [data[i], data[i + 1], data[i + 2], data[i + 3]]
+        : [data[i], data[i + 1], data[i + 2]]);
+    }
+  }
+
+  // GIF reserves one palette slot for its transparent color
+  const reserveTransparent = !options.alpha && hasTransparency;
+  const target = reserveTransparent ? size - 1 : size;
+
+  const boxes: Box[] = samples.length ? [measureBox(samples, channels)] : [];
+  while (boxes.length < target) {
+    // Split the box with the widest channel spread, weighted by population
+    let best = -1;
+    let bestScore = 0;
+    boxes.forEach((box, i) => {
+      const score = box.range * Math.sqrt(box.pixels.length);
+      if (box.pixels.length > 1 && box.range > 0 && score > bestScore) {
+        best = i;
+        bestScore = score;
+      }
+    });
+    if (best === -1) break;
+
+    const { pixels, channel } = boxes[best];
+    pixels.sort((a, b) => a[channel] - b[channel]);
+    const mid = pixels.length >> 1;
+    boxes.splice(
+      best,
+      1,
+      measureBox(pixels.slice(0, mid), channels),
+      measureBox(pixels.slice(mid), channels)
+    );
+  }
+
+  const colors: Palette['colors'] = boxes.map(({ pixels }) => {
+    const sum = [0, 0, 0, 0];
+    for (const p of pixels) {
+      for (let c = 0; c < channels; c++) sum[c] += p[c];
+    }
+    const n = pixels.length;
+    return [
+      Math.round(sum[0] / n),
+      Math.round(sum[1] / n),
+      Math.round(sum[2] / n),
+      options.alpha ? Math.round(sum[3] / n) : 255,
+    ];
+  });
+
+  let transparentIndex = -1;
+  if (reserveTransparent) {
+    transparentIndex = colors.length;
+    colors.push([0, 0, 0, 0]);
+  }
+  if (colors.length === 0) colors.push([0, 0, 0, 255]);
+
+  return { colors, transparentIndex };
+}
+
+/**
+ * Map RGBA pixels to palette indices with optional dithering
+ */
+export function applyPalette(
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  palette: Palette,
+  dither: DitherMode = 'none',
+  alpha = false
+): Uint8Array {
+  const { colors, transparentIndex } = palette;
+  const channels = alpha ? 4 : 3;
+  const indices = new Uint8Array(width * height);
+
+  // Cache nearest-color lookups on 5 bits (RGB) or 4 bits (RGBA) per channel
+  const shift = alpha ? 4 : 3;
+  const cacheBits = (8 - shift) * channels;
+  const cache = new Int16Array(1 << cacheBits).fill(-1);
+
+  const nearest = (r: number, g: number, b: number, a: number): number => {
+    let key = ((r >> shift) << ((8 - shift) * 2)) | ((g >> shift) << (8 - shift)) | (b >> shift);
+    if (alpha) key = (key << (8 - shift)) | (a >> shift);
+    const cached = cache[key];
+    if (cached !== -1) return cached;
+
+    let best = 0;
+    let bestDistance = Infinity;
+    for (let i = 0; i < colors.length; i++) {
+      if (i === transparentIndex) continue;
+      const c = colors[i];
+      const dr = r - c[0];
+      const dg = g - c[1];
+      const db = b - c[2];
+      const da = alpha ? a - c[3] : 0;
+      const distance = dr * dr * 2 + dg * dg * 4 + db * db * 3 + da * da * 3;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = i;
+      }
+    }
+    cache[key] = best;
+    return best;
+  };
+
+  // Floyd-Steinberg error buffers for the current and next row
+  let errors = new Float32Array((width + 2) * channels);
+  let nextErrors = new Float32Array((width + 2) * channels);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = (y * width + x) * 4;
+
+      if (!alpha && data[p + 3] < ALPHA_CUTOFF && transparentIndex !== -1) {
+        indices[y * width + x] = transparentIndex;
+        continue;
+      }
+
+      const value = [data[p], data[p + 1], data[p + 2], data[p + 3]];
+      if (dither === 'bayer') {
+        const offset = BAYER_4X4[(y & 3) * 4 + (x & 3)] * 48;
+        for (let c = 0; c < channels; c++) value[c] += offset;
+      } else if (dither === 'floyd-steinberg') {
+        for (let c = 0; c < channels; c++) value[c] += errors[(x + 1) * channels + c];
+      }
+      for (let c = 0; c < 4; c++) value[c] = Math.max(0, Math.min(255, Math.round(value[c])));
+
+      const index = nearest(value[0], value[1], value[2], value[3]);
+      indices[y * width + x] = index;
+
+      if (dither === 'floyd-steinberg') {
+        const chosen = colors[index];
+        for (let c = 0; c < channels; c++) {
+          const error = value[c] - chosen[c];
+          errors[(x + 2) * channels + c] += (error * 7) / 16;
+          nextErrors[x * channels + c] += (error * 3) / 16;
+          nextErrors[(x + 1) * channels + c] += (error * 5) / 16;
+          nextErrors[(x + 2) * channels + c] += error / 16;
+        }
+      }
+    }
+
+    if (dither === 'floyd-steinberg') {
+      [errors, nextErrors] = [nextErrors, errors];
+      nextErrors.fill(0);
+    }
+  }
+
+  return indices;
+}
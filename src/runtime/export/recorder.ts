@@ -0,0 +1,902 @@
+/**
+ * Canvas call recorder
+ * A stand-in CanvasRenderingContext2D that records what an animation draws
+ * as vector shapes instead of pixels, for the Lottie and SVG exporters.
+ * Calls without a vector equivalent are counted as export warnings.
+ */
+
+import type { AnyAnimationDefinition } from '../types';
+import { getFrameCount, renderFrames } from '../frames';
+import { getPath2DCalls } from '../path2d';
+import { nextTick, throwIfAborted } from './capture';
+import { parseColor, type RGBA } from './color';
+import { replaySvgPath, type PathSink } from './svg-path';
+
+/** 2D affine matrix as [a, b, c, d, e, f], like DOMMatrix */
+export type Matrix = [number, number, number, number, number, number];
+
+/** Path segment in canvas pixel space; arcs are converted to cubics */
+export type PathCommand =
+  | { type: 'M'; x: number; y: number }
+  | { type: 'L'; x: number; y: number }
+  | { type: 'C'; x1: number; y1: number; x2: number; y2: number; x: number; y: number }
+  | { type: 'Z' };
+
+export interface GradientStop {
+  offset: number;
+  color: RGBA;
+}
+
+/** Fill or stroke paint, with gradient geometry in canvas pixel space */
+export type Paint =
+  | { type: 'color'; color: RGBA }
+  | { type: 'linear'; x0: number; y0: number; x1: number; y1: number; stops: GradientStop[] }
+  | {
+      type: 'radial';
+      x0: number; y0: number; r0: number;
+      x1: number; y1: number; r1: number;
+      stops: GradientStop[];
+    };
+
+export interface RecordedStroke {
+  paint: Paint;
+  /** Line width in canvas pixels */
+  width: number;
+  cap: CanvasLineCap;
+  join: CanvasLineJoin;
+  miterLimit: number;
+  dash: number[];
+  dashOffset: number;
+}
+
+/** A filled or stroked path */
+export interface RecordedShape {
+  type: 'shape';
+  path: PathCommand[];
+  fill?: { paint: Paint; rule: CanvasFillRule };
+  stroke?: RecordedStroke;
+  /** globalAlpha at draw time */
+  opacity: number;
+  /** Clip paths in effect, outermost first */
+  clips: PathCommand[][];
+}
+
+/** A fillText/strokeText call */
+export interface RecordedText {
+  type: 'text';
+  text: string;
+  x: number;
+  y: number;
+  font: string;
+  align: CanvasTextAlign;
+  baseline: CanvasTextBaseline;
+  /** Transform from text coordinates to canvas pixels */
+  transform: Matrix;
+  fill?: Paint;
+  stroke?: RecordedStroke;
+  opacity: number;
+  clips: PathCommand[][];
+}
+
+export type RecordedOp = RecordedShape | RecordedText;
+
+export interface RecordedFrame {
+  index: number;
+  time: number;
+  /** Draw operations in paint order (first is bottom-most) */
+  ops: RecordedOp[];
+}
+
+/** A canvas feature an export could not reproduce, with how often it was hit */
+export interface ExportWarning {
+  operation: string;
+  count: number;
+  message: string;
+}
+
+export interface Recording {
+  width: number;
+  height: number;
+  fps: number;
+  frames: RecordedFrame[];
+  warnings: ExportWarning[];
+}
+
+export interface RecordOptions {
+  /** Frames per second to sample at */
+  fps: number;
+  /** First frame index, inclusive (default: 0) */
+  from?: number;
+  /** Last frame index, exclusive (default: one full loop) */
+  to?: number;
+  /** Called after each recorded frame */
+  onProgress?: (done: number, total: number) => void;
+  /** Abort between frames */
+  signal?: AbortSignal;
+}
+
+/** Why each unsupported operation can't be exported */
+const WARNING_MESSAGES: Record<string, string> = {
+  drawImage: 'Images are not exported',
+  createPattern: 'Pattern fills are not exported',
+  createConicGradient: 'Conic gradients are not exported',
+  getImageData: 'Pixel reads return empty data',
+  putImageData: 'Pixel writes are not exported',
+  measureText: 'Text layout depends on fonts available where the export is played',
+  filter: 'CSS filters are not exported',
+  shadow: 'Shadows are not exported',
+  globalCompositeOperation: 'Blend and composite modes are drawn as source-over',
+  clearRect: 'Partial clears are not exported',
+  Path2D: 'Path2D objects created before tracking was installed are skipped',
+};
+
+/** Collects warning counts by operation */
+export function createWarningLog() {
+  const counts = new Map<string, number>();
+  return {
+    add(operation: string) {
+      counts.set(operation, (counts.get(operation) ?? 0) + 1);
+    },
+    list(messages: Record<string, string> = {}): ExportWarning[] {
+      return [...counts].map(([operation, count]) => ({
+        operation,
+        count,
+        message: messages[operation] ?? WARNING_MESSAGES[operation] ?? 'Not supported by this export',
+      }));
+    },
+  };
+}
+
+type WarningLog = ReturnType<typeof createWarningLog>;
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+const TAU = Math.PI * 2;
+
+export function multiply(m: Matrix, t: Matrix): Matrix {
+  return [
+    m[0] * t[0] + m[2] * t[1],
+    m[1] * t[0] + m[3] * t[1],
+    m[0] * t[2] + m[2] * t[3],
+    m[1] * t[2] + m[3] * t[3],
+    m[0] * t[4] + m[2] * t[5] + m[4],
+    m[1] * t[4] + m[3] * t[5] + m[5],
+  ];
+}
+
+export function applyMatrix(m: Matrix, x: number, y: number): [number, number] {
+  return [m[0] * x + m[2] * y + m[4], m[1] * x + m[3] * y + m[5]];
+}
+
+function invert(m: Matrix): Matrix | null {
+  const det = m[0] * m[3] - m[1] * m[2];
+  if (!det) return null;
+  return [
+    m[3] / det,
+    -m[1] / det,
+    -m[2] / det,
+    m[0] / det,
+    (m[2] * m[5] - m[3] * m[4]) / det,
+    (m[1] * m[4] - m[0] * m[5]) / det,
+  ];
+}
+
+/** Average scale factor of a matrix, used for line widths and radii */
+function matrixScale(m: Matrix): number {
+  return Math.sqrt(Math.abs(m[0] * m[3] - m[1] * m[2]));
+}
+
+function toMatrix(init: DOMMatrix2DInit | undefined): Matrix {
+  if (!init) return IDENTITY;
+  return [
+    init.a ?? init.m11 ?? 1,
+    init.b ?? init.m12 ?? 0,
+    init.c ?? init.m21 ?? 0,
+    init.d ?? init.m22 ?? 1,
+    init.e ?? init.m41 ?? 0,
+    init.f ?? init.m42 ?? 0,
+  ];
+}
+
+/** Path construction API shared by the context and Path2D replay */
+interface PathBuilder extends PathSink {
+  commands: PathCommand[];
+  arc(x: number, y: number, r: number, start: number, end: number, ccw?: boolean): void;
+  arcTo(x1: number, y1: number, x2: number, y2: number, r: number): void;
+  rect(x: number, y: number, w: number, h: number): void;
+  roundRect(x: number, y: number, w: number, h: number, radii?: number | DOMPointInit | (number | DOMPointInit)[]): void;
+}
+
+/**
+ * Build a canvas-space path. Points are transformed by the matrix current
+ * at each call, matching how canvas applies transforms to path segments.
+ */
+function createPathBuilder(getMatrix: () => Matrix, commands: PathCommand[] = []): PathBuilder {
+  // Current point and subpath start, in canvas space
+  let current: [number, number] | null = null;
+  let start: [number, number] | null = null;
+  // After closePath the next segment starts a new subpath at `start`
+  let reopen = false;
+
+  const ensureOpen = () => {
+    if (reopen && start) {
+      commands.push({ type: 'M', x: start[0], y: start[1] });
+      reopen = false;
+    }
+  };
+
+  const moveToCanvas = (x: number, y: number) => {
+    commands.push({ type: 'M', x, y });
+    current = [x, y];
+    start = [x, y];
+    reopen = false;
+  };
+
+  const lineToCanvas = (x: number, y: number) => {
+    if (!current) {
+      moveToCanvas(x, y);
+      return;
+    }
+    ensureOpen();
+    commands.push({ type: 'L', x, y });
+    current = [x, y];
+  };
+
+  const cubicToCanvas = (x1: number, y1: number, x2: number, y2: number, x: number, y: number) => {
+    ensureOpen();
+    commands.push({ type: 'C', x1, y1, x2, y2, x, y });
+    current = [x, y];
+  };
+
+  const ellipse: PathBuilder['ellipse'] = (cx, cy, rx, ry, rotation, startAngle, endAngle, ccw = false) => {
+    if (rx < 0 || ry < 0) return;
+    let sweep = endAngle - startAngle;
+    if (!ccw) {
+      sweep = sweep >= TAU ? TAU : ((sweep % TAU) + TAU) % TAU;
+    } else {
+      sweep = -sweep >= TAU ? -TAU : ((sweep % TAU) - TAU) % TAU;
+    }
+
+    const m = getMatrix();
+    const cos = Math.cos(rotation);
+    const sin = Math.sin(rotation);
+    const point = (t: number) => applyMatrix(
+      m,
+      cx + rx * Math.cos(t) * cos - ry * Math.sin(t) * sin,
+      cy + rx * Math.cos(t) * sin + ry * Math.sin(t) * cos
+    );
+    // Derivative in user space, transformed without translation
+    const tangent = (t: number): [number, number] => {
+      const dx = -rx * Math.sin(t) * cos - ry * Math.cos(t) * sin;
+      const dy = -rx * Math.sin(t) * sin + ry * Math.cos(t) * cos;
+      return [m[0] * dx + m[2] * dy, m[1] * dx + m[3] * dy];
+    };
+
+    const [sx, sy] = point(startAngle);
+    lineToCanvas(sx, sy);
+    if (sweep === 0) return;
+
+    // Split into segments of at most 90° for an accurate cubic fit
+    const segments = Math.ceil(Math.abs(sweep) / (Math.PI / 2) - 1e-9);
+    const delta = sweep / segments;
+    const k = (4 / 3) * Math.tan(delta / 4);
+    for (let i = 0; i < segments; i++) {
+      const t0 = startAngle + i * delta;
+      const t1 = t0 + delta;
+      const [x0, y0] = point(t0);
+      const [x1, y1] = point(t1);
+      const [dx0, dy0] = tangent(t0);
+      const [dx1, dy1] = tangent(t1);
+      cubicToCanvas(x0 + k * dx0, y0 + k * dy0, x1 - k * dx1, y1 - k * dy1, x1, y1);
+    }
+  };
+
+  const builder: PathBuilder = {
+    commands,
+    moveTo(x, y) {
+      const [px, py] = applyMatrix(getMatrix(), x, y);
+      moveToCanvas(px, py);
+    },
+    lineTo(x, y) {
+      const [px, py] = applyMatrix(getMatrix(), x, y);
+      lineToCanvas(px, py);
+    },
+    bezierCurveTo(x1, y1, x2, y2, x, y) {
+      const m = getMatrix();
+      if (!current) builder.moveTo(x1, y1);
+      const [c1x, c1y] = applyMatrix(m, x1, y1);
+      const [c2x, c2y] = applyMatrix(m, x2, y2);
+      const [px, py] = applyMatrix(m, x, y);
+      cubicToCanvas(c1x, c1y, c2x, c2y, px, py);
+    },
+    quadraticCurveTo(x1, y1, x, y) {
+      const m = getMatrix();
+      if (!current) builder.moveTo(x1, y1);
+      const [x0, y0] = current!;
+      const [qx, qy] = applyMatrix(m, x1, y1);
+      const [px, py] = applyMatrix(m, x, y);
+      // Degree elevation: affine transforms preserve it, so do it in canvas space
+      cubicToCanvas(
+        x0 + (2 / 3) * (qx - x0), y0 + (2 / 3) * (qy - y0),
+        px + (2 / 3) * (qx - px), py + (2 / 3) * (qy - py),
+        px, py
+      );
+    },
+    arc(x, y, r, startAngle, endAngle, ccw) {
+      ellipse(x, y, r, r, 0, startAngle, endAngle, ccw);
+    },
+    arcTo(x1, y1, x2, y2, r) {
+      const inverse = invert(getMatrix());
+      if (!current || !inverse) {
+        builder.moveTo(x1, y1);
+        return;
+      }
+      const [x0, y0] = applyMatrix(inverse, current[0], current[1]);
+      const v1x = x0 - x1;
+      const v1y = y0 - y1;
+      const v2x = x2 - x1;
+      const v2y = y2 - y1;
+      const len1 = Math.hypot(v1x, v1y);
+      const len2 = Math.hypot(v2x, v2y);
+      const cross = v1x * v2y - v1y * v2x;
+      if (r === 0 || len1 === 0 || len2 === 0 || Math.abs(cross) < 1e-9) {
+        builder.lineTo(x1, y1);
+        return;
+      }
+
+      const ux = v1x / len1;
+      const uy = v1y / len1;
+      const wx = v2x / len2;
+      const wy = v2y / len2;
+      const angle = Math.acos(Math.max(-1, Math.min(1, ux * wx + uy * wy)));
+      const distance = r / Math.tan(angle / 2);
+      const bx = ux + wx;
+      const by = uy + wy;
+      const bisector = Math.hypot(bx, by);
+      const centerDistance = r / Math.sin(angle / 2);
+      const cx = x1 + (bx / bisector) * centerDistance;
+      const cy = y1 + (by / bisector) * centerDistance;
+
+      const t1x = x1 + ux * distance;
+      const t1y = y1 + uy * distance;
+      const t2x = x1 + wx * distance;
+      const t2y = y1 + wy * distance;
+      builder.lineTo(t1x, t1y);
+      ellipse(
+        cx, cy, r, r, 0,
+        Math.atan2(t1y - cy, t1x - cx),
+        Math.atan2(t2y - cy, t2x - cx),
+        cross > 0
+      );
+    },
+    rect(x, y, w, h) {
+      builder.moveTo(x, y);
+      builder.lineTo(x + w, y);
+      builder.lineTo(x + w, y + h);
+      builder.lineTo(x, y + h);
+      builder.closePath();
+      builder.moveTo(x, y);
+    },
+    roundRect(x, y, w, h, radii = 0) {
+      const list = Array.isArray(radii) ? radii : [radii];
+      const corners = list.map((r) =>
+        typeof r === 'number' ? { x: r, y: r } : { x: r.x ?? 0, y: r.y ?? 0 }
+      );
+      // Expand to [top-left, top-right, bottom-right, bottom-left] like CSS
+      const [tl, tr, br, bl] =
+        corners.length === 1 ? [corners[0], corners[0], corners[0], corners[0]]
+        : corners.length === 2 ? [corners[0], corners[1], corners[0], corners[1]]
+        : corners.length === 3 ? [corners[0], corners[1], corners[2], corners[1]]
+        : corners.slice(0, 4);
+
+      // Scale radii down when adjacent corners would overlap
+      const aw = Math.abs(w);
+      const ah = Math.abs(h);
+      const factor = Math.min(
+        1,
+        aw / (tl.x + tr.x || 1),
+        aw / (bl.x + br.x || 1),
+        ah / (tl.y + bl.y || 1),
+        ah / (tr.y + br.y || 1)
+      );
+      const r = [tl, tr, br, bl].map((c) => ({ x: c.x * factor, y: c.y * factor }));
+
+      builder.moveTo(x + r[0].x, y);
+      builder.lineTo(x + w - r[1].x, y);
+      ellipse(x + w - r[1].x, y + r[1].y, r[1].x, r[1].y, 0, -Math.PI / 2, 0);
+      builder.lineTo(x + w, y + h - r[2].y);
+      ellipse(x + w - r[2].x, y + h - r[2].y, r[2].x, r[2].y, 0, 0, Math.PI / 2);
+      builder.lineTo(x + r[3].x, y + h);
+      ellipse(x + r[3].x, y + h - r[3].y, r[3].x, r[3].y, 0, Math.PI / 2, Math.PI);
+      builder.lineTo(x, y + r[0].y);
+      ellipse(x + r[0].x, y + r[0].y, r[0].x, r[0].y, 0, Math.PI, Math.PI * 1.5);
+      builder.closePath();
+      builder.moveTo(x, y);
+    },
+    ellipse,
+    closePath() {
+      if (!current || reopen) return;
+      commands.push({ type: 'Z' });
+      current = start;
+      reopen = true;
+    },
+  };
+
+  return builder;
+}
+
+/** Replay a tracked Path2D into canvas-space commands */
+function pathFromPath2D(path: Path2D, matrix: Matrix, warnings: WarningLog): PathCommand[] {
+  const commands: PathCommand[] = [];
+  let current = matrix;
+  const builder = createPathBuilder(() => current, commands);
+
+  const replay = (source: Path2D) => {
+    const calls = getPath2DCalls(source);
+    if (!calls) {
+      warnings.add('Path2D');
+      return;
+    }
+    for (const call of calls) {
+      if (call.method === 'svg') {
+        replaySvgPath(call.data, builder);
+      } else if (call.method === 'addPath') {
+        const previous = current;
+        current = multiply(previous, toMatrix(call.transform));
+        replay(call.path);
+        current = previous;
+      } else {
+        (builder[call.method] as (...args: unknown[]) => void)(...call.args);
+      }
+    }
+  };
+
+  replay(path);
+  return commands;
+}
+
+interface GradientDefinition {
+  type: 'linear' | 'radial';
+  coords: number[];
+  stops: GradientStop[];
+}
+
+/** Drawing state saved and restored by save()/restore() */
+interface DrawState {
+  matrix: Matrix;
+  fillStyle: unknown;
+  strokeStyle: unknown;
+  lineWidth: number;
+  lineCap: CanvasLineCap;
+  lineJoin: CanvasLineJoin;
+  miterLimit: number;
+  lineDash: number[];
+  lineDashOffset: number;
+  globalAlpha: number;
+  globalCompositeOperation: string;
+  font: string;
+  textAlign: CanvasTextAlign;
+  textBaseline: CanvasTextBaseline;
+  shadowBlur: number;
+  shadowColor: string;
+  shadowOffsetX: number;
+  shadowOffsetY: number;
+  filter: string;
+  clips: PathCommand[][];
+  /** Other context properties, stored but not interpreted */
+  extra: Record<string, unknown>;
+}
+
+function createDefaultState(): DrawState {
+  return {
+    matrix: IDENTITY,
+    fillStyle: '#000000',
+    strokeStyle: '#000000',
+    lineWidth: 1,
+    lineCap: 'butt',
+    lineJoin: 'miter',
+    miterLimit: 10,
+    lineDash: [],
+    lineDashOffset: 0,
+    globalAlpha: 1,
+    globalCompositeOperation: 'source-over',
+    font: '10px sans-serif',
+    textAlign: 'start',
+    textBaseline: 'alphabetic',
+    shadowBlur: 0,
+    shadowColor: 'rgba(0, 0, 0, 0)',
+    shadowOffsetX: 0,
+    shadowOffsetY: 0,
+    filter: 'none',
+    clips: [],
+    extra: {},
+  };
+}
+
+/** Properties the recorder validates like a real context does */
+function acceptsValue(key: keyof DrawState, value: unknown): boolean {
+  switch (key) {
+    case 'lineWidth':
+    case 'miterLimit':
+      return typeof value === 'number' && Number.isFinite(value) && value > 0;
+    case 'globalAlpha':
+      return typeof value === 'number' && value >= 0 && value <= 1;
+    case 'shadowBlur':
+      return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+    case 'lineDashOffset':
+    case 'shadowOffsetX':
+    case 'shadowOffsetY':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'fillStyle':
+    case 'strokeStyle':
+      return value !== null && value !== undefined;
+    default:
+      return true;
+  }
+}
+
+const STATE_KEYS = new Set(Object.keys(createDefaultState()).filter((k) => k !== 'extra' && k !== 'matrix' && k !== 'clips' && k !== 'lineDash'));
+
+let measureContext: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null | undefined;
+
+function getMeasureContext() {
+  if (measureContext === undefined) {
+    if (typeof OffscreenCanvas !== 'undefined') {
+      measureContext = new OffscreenCanvas(1, 1).getContext('2d');
+    } else if (typeof document !== 'undefined') {
+      measureContext = document.createElement('canvas').getContext('2d');
+    } else {
+      measureContext = null;
+    }
+  }
+  return measureContext;
+}
+
+/** Whether a name is a method on the real 2d context */
+function isContextMethod(name: string): boolean {
+  if (typeof CanvasRenderingContext2D === 'undefined') return false;
+  const descriptor = Object.getOwnPropertyDescriptor(CanvasRenderingContext2D.prototype, name);
+  return typeof descriptor?.value === 'function';
+}
+
+export interface RecordingContext {
+  /** The context to hand to animations */
+  ctx: CanvasRenderingContext2D;
+  /** Take the operations drawn since the last call */
+  takeOps(): RecordedOp[];
+  warnings: WarningLog;
+}
+
+/**
+ * Create a recording context. Its canvas is a plain object whose width and
+ * height can be set like a real canvas.
+ */
+export function createRecordingContext(width: number, height: number): RecordingContext {
+  const canvas = { width, height } as HTMLCanvasElement;
+  const warnings = createWarningLog();
+  const gradients = new WeakMap<object, GradientDefinition>();
+  const stack: DrawState[] = [];
+  let state = createDefaultState();
+  let ops: RecordedOp[] = [];
+  let path = createPathBuilder(() => state.matrix);
+
+  const setMatrix = (matrix: Matrix) => {
+    if (matrix.every(Number.isFinite)) state.matrix = matrix;
+  };
+
+  const resolvePaint = (style: unknown): Paint | null => {
+    if (typeof style === 'string') {
+      const color = parseColor(style);
+      return color ? { type: 'color', color } : null;
+    }
+    const gradient = typeof style === 'object' && style ? gradients.get(style) : undefined;
+    if (!gradient) return null;
+
+    const m = state.matrix;
+    const stops = [...gradient.stops].sort((a, b) => a.offset - b.offset);
+    const [x0, y0] = applyMatrix(m, gradient.coords[0], gradient.coords[1]);
+    if (gradient.type === 'linear') {
+      const [x1, y1] = applyMatrix(m, gradient.coords[2], gradient.coords[3]);
+      return { type: 'linear', x0, y0, x1, y1, stops };
+    }
+    const [x1, y1] = applyMatrix(m, gradient.coords[3], gradient.coords[4]);
+    const scale = matrixScale(m);
+    return {
+      type: 'radial',
+      x0, y0, r0: gradient.coords[2] * scale,
+      x1, y1, r1: gradient.coords[5] * scale,
+      stops,
+    };
+  };
+
+  const resolveStroke = (): RecordedStroke | null => {
+    const paint = resolvePaint(state.strokeStyle);
+    if (!paint) return null;
+    const scale = matrixScale(state.matrix);
+    return {
+      paint,
+      width: state.lineWidth * scale,
+      cap: state.lineCap,
+      join: state.lineJoin,
+      miterLimit: state.miterLimit,
+      dash: state.lineDash.map((d) => d * scale),
+      dashOffset: state.lineDashOffset * scale,
+    };
+  };
+
+  /** Count state that changes how a draw call looks but isn't exported */
+  const noteEffects = () => {
+    const shadow = parseColor(state.shadowColor);
+    if (shadow && shadow[3] > 0 && (state.shadowBlur > 0 || state.shadowOffsetX || state.shadowOffsetY)) {
+      warnings.add('shadow');
+    }
+    if (state.filter && state.filter !== 'none') warnings.add('filter');
+    if (state.globalCompositeOperation !== 'source-over') warnings.add('globalCompositeOperation');
+  };
+
+  const pathArgument = (args: unknown[]): { commands: PathCommand[]; rule: CanvasFillRule } => {
+    const [first, second] = args;
+    if (first && typeof first === 'object') {
+      return {
+        commands: pathFromPath2D(first as Path2D, state.matrix, warnings),
+        rule: (second as CanvasFillRule) ?? 'nonzero',
+      };
+    }
+    return { commands: [...path.commands], rule: (first as CanvasFillRule) ?? 'nonzero' };
+  };
+
+  const pushShape = (shape: Omit<RecordedShape, 'type' | 'opacity' | 'clips'>) => {
+    if (!shape.path.some((c) => c.type !== 'M')) return;
+    noteEffects();
+    ops.push({ type: 'shape', ...shape, opacity: state.globalAlpha, clips: state.clips });
+  };
+
+  const rectPath = (x: number, y: number, w: number, h: number) => {
+    const builder = createPathBuilder(() => state.matrix);
+    builder.rect(x, y, w, h);
+    return builder.commands;
+  };
+
+  const pushText = (text: string, x: number, y: number, fill: boolean) => {
+    noteEffects();
+    const paint = fill ? resolvePaint(state.fillStyle) : null;
+    const stroke = fill ? null : resolveStroke();
+    if (!paint && !stroke) return;
+    ops.push({
+      type: 'text',
+      text: String(text),
+      x,
+      y,
+      font: state.font,
+      align: state.textAlign,
+      baseline: state.textBaseline,
+      transform: state.matrix,
+      fill: paint ?? undefined,
+      stroke: stroke ?? undefined,
+      opacity: state.globalAlpha,
+      clips: state.clips,
+    });
+  };
+
+  const createGradient = (type: GradientDefinition['type'], coords: number[]) => {
+    const definition: GradientDefinition = { type, coords, stops: [] };
+    const gradient = {
+      addColorStop(offset: number, color: string) {
+        const parsed = parseColor(color);
+        if (parsed) definition.stops.push({ offset, color: parsed });
+      },
+    };
+    gradients.set(gradient, definition);
+    return gradient as CanvasGradient;
+  };
+
+  const methods: Record<string, (...args: never[]) => unknown> = {
+    save() {
+      stack.push({ ...state, extra: { ...state.extra } });
+    },
+    restore() {
+      const previous = stack.pop();
+      if (previous) state = previous;
+    },
+    reset() {
+      stack.length = 0;
+      state = createDefaultState();
+      path = createPathBuilder(() => state.matrix);
+      ops = [];
+    },
+
+    translate(x: number, y: number) {
+      setMatrix(multiply(state.matrix, [1, 0, 0, 1, x, y]));
+    },
+    scale(x: number, y: number) {
+      setMatrix(multiply(state.matrix, [x, 0, 0, y, 0, 0]));
+    },
+    rotate(angle: number) {
+      const cos = Math.cos(angle);
+      const sin = Math.sin(angle);
+      setMatrix(multiply(state.matrix, [cos, sin, -sin, cos, 0, 0]));
+    },
+    transform(a: number, b: number, c: number, d: number, e: number, f: number) {
+      setMatrix(multiply(state.matrix, [a, b, c, d, e, f]));
+    },
+    setTransform(...args: (number | DOMMatrix2DInit)[]) {
+      setMatrix(typeof args[0] === 'number' ? args.slice(0, 6) as Matrix : toMatrix(args[0]));
+    },
+    resetTransform() {
+      state.matrix = IDENTITY;
+    },
+    getTransform() {
+      return new DOMMatrix(state.matrix);
+    },
+
+    beginPath() {
+      path = createPathBuilder(() => state.matrix);
+    },
+    moveTo: (x: number, y: number) => path.moveTo(x, y),
+    lineTo: (x: number, y: number) => path.lineTo(x, y),
+    bezierCurveTo: (x1: number, y1: number, x2: number, y2: number, x: number, y: number) =>
+      path.bezierCurveTo(x1, y1, x2, y2, x, y),
+    quadraticCurveTo: (x1: number, y1: number, x: number, y: number) =>
+      path.quadraticCurveTo(x1, y1, x, y),
+    arc: (x: number, y: number, r: number, start: number, end: number, ccw?: boolean) =>
+      path.arc(x, y, r, start, end, ccw),
+    arcTo: (x1: number, y1: number, x2: number, y2: number, r: number) =>
+      path.arcTo(x1, y1, x2, y2, r),
+    ellipse: (...args: Parameters<PathBuilder['ellipse']>) => path.ellipse(...args),
+    rect: (x: number, y: number, w: number, h: number) => path.rect(x, y, w, h),
+    roundRect: (...args: Parameters<PathBuilder['roundRect']>) => path.roundRect(...args),
+    closePath: () => path.closePath(),
+
+    fill(...args: unknown[]) {
+      const paint = resolvePaint(state.fillStyle);
+      const { commands, rule } = pathArgument(args);
+      if (paint) pushShape({ path: commands, fill: { paint, rule } });
+    },
+    stroke(...args: unknown[]) {
+      const stroke = resolveStroke();
+      const { commands } = pathArgument(args);
+      if (stroke) pushShape({ path: commands, stroke });
+    },
+    clip(...args: unknown[]) {
+      const { commands } = pathArgument(args);
+      state.clips = [...state.clips, commands];
+    },
+    fillRect(x: number, y: number, w: number, h: number) {
+      const paint = resolvePaint(state.fillStyle);
+      if (paint) pushShape({ path: rectPath(x, y, w, h), fill: { paint, rule: 'nonzero' } });
+    },
+    strokeRect(x: number, y: number, w: number, h: number) {
+      const stroke = resolveStroke();
+      if (stroke) pushShape({ path: rectPath(x, y, w, h), stroke });
+    },
+    clearRect(x: number, y: number, w: number, h: number) {
+      const m = state.matrix;
+      const [x0, y0] = applyMatrix(m, x, y);
+      const [x1, y1] = applyMatrix(m, x + w, y + h);
+      const covers = m[1] === 0 && m[2] === 0
+        && Math.min(x0, x1) <= 0 && Math.min(y0, y1) <= 0
+        && Math.max(x0, x1) >= canvas.width && Math.max(y0, y1) >= canvas.height;
+      if (covers) {
+        ops = [];
+      } else {
+        warnings.add('clearRect');
+      }
+    },
+
+    fillText(text: string, x: number, y: number) {
+      pushText(text, x, y, true);
+    },
+    strokeText(text: string, x: number, y: number) {
+      pushText(text, x, y, false);
+    },
+    measureText(text: string) {
+      warnings.add('measureText');
+      const measure = getMeasureContext();
+      if (!measure) return { width: 0 } as TextMetrics;
+      measure.font = state.font;
+      measure.textAlign = state.textAlign;
+      measure.textBaseline = state.textBaseline;
+      return measure.measureText(text);
+    },
+
+    setLineDash(segments: number[]) {
+      if (segments.every((s) => Number.isFinite(s) && s >= 0)) {
+        state.lineDash = segments.length % 2 ? [...segments, ...segments] : [...segments];
+      }
+    },
+    getLineDash() {
+      return [...state.lineDash];
+    },
+
+    createLinearGradient: (x0: number, y0: number, x1: number, y1: number) =>
+      createGradient('linear', [x0, y0, x1, y1]),
+    createRadialGradient: (x0: number, y0: number, r0: number, x1: number, y1: number, r1: number) =>
+      createGradient('radial', [x0, y0, r0, x1, y1, r1]),
+    createConicGradient() {
+      warnings.add('createConicGradient');
+      return createGradient('linear', [0, 0, 0, 0]);
+    },
+    createPattern() {
+      warnings.add('createPattern');
+      return null;
+    },
+    drawImage() {
+      warnings.add('drawImage');
+    },
+    getImageData(_x: number, _y: number, w: number, h: number) {
+      warnings.add('getImageData');
+      return new ImageData(Math.max(1, Math.abs(w)), Math.max(1, Math.abs(h)));
+    },
+    putImageData() {
+      warnings.add('putImageData');
+    },
+    createImageData(w: number | ImageData, h?: number) {
+      return typeof w === 'number' ? new ImageData(w, h ?? w) : new ImageData(w.width, w.height);
+    },
+    isPointInPath: () => false,
+    isPointInStroke: () => false,
+    getContextAttributes: () => ({ alpha: true }),
+  };
+
+  // A Proxy lets the recorder stand in for the full context API: known
+  // methods and state are handled above, anything else is stored or counted
+  const ctx = new Proxy({} as CanvasRenderingContext2D, {
+    get(_, prop) {
+      if (typeof prop !== 'string') return undefined;
+      if (prop === 'canvas') return canvas;
+      if (prop in methods) return methods[prop];
+      if (STATE_KEYS.has(prop)) return state[prop as keyof DrawState];
+      if (prop in state.extra) return state.extra[prop];
+      if (isContextMethod(prop)) {
+        return () => warnings.add(prop);
+      }
+      return undefined;
+    },
+    set(_, prop, value) {
+      if (typeof prop !== 'string') return false;
+      if (STATE_KEYS.has(prop)) {
+        const key = prop as keyof DrawState;
+        if (acceptsValue(key, value)) (state as unknown as Record<string, unknown>)[key] = value;
+      } else {
+        state.extra[prop] = value;
+      }
+      return true;
+    },
+  });
+
+  return {
+    ctx,
+    takeOps() {
+      const taken = ops;
+      ops = [];
+      return taken;
+    },
+    warnings,
+  };
+}
+
+/**
+ * Render an animation frame-by-frame into a recording context
+ */
+export async function recordAnimation(
+  animation: AnyAnimationDefinition,
+  params: Record<string, unknown>,
+  options: RecordOptions
+): Promise<Recording> {
+  const { fps, signal, onProgress } = options;
+  const from = Math.max(0, Math.floor(options.from ?? 0));
+  const to = Math.max(from + 1, Math.floor(options.to ?? getFrameCount(animation, fps)));
+  const width = animation.width ?? 800;
+  const height = animation.height ?? 600;
+  const recorder = createRecordingContext(width, height);
+  const frames: RecordedFrame[] = [];
+
+  for (const frame of renderFrames(animation, params, { fps, from, to, context: recorder.ctx })) {
+    throwIfAborted(signal);
+    frames.push({ index: frame.index, time: frame.time, ops: recorder.takeOps() });
+    onProgress?.(frames.length, to - from);
+    // Recording is cheap; only yield to the UI every few frames
+    if (frames.length % 10 === 0) await nextTick();
+  }
+
+  return { width, height, fps, frames, warnings: recorder.warnings.list() };
+}
@@ -0,0 +1,228 @@
+/**
+ * SVG path data parser
+ * Replays `d` attribute strings (as passed to new Path2D()) as canvas path calls
+ */
+
+/** The subset of the canvas path API SVG path data maps onto */
+export interface PathSink {
+  moveTo(x: number, y: number): void;
+  lineTo(x: number, y: number): void;
+  bezierCurveTo(x1: number, y1: number, x2: number, y2: number, x: number, y: number): void;
+  quadraticCurveTo(x1: number, y1: number, x: number, y: number): void;
+  ellipse(
+    x: number, y: number, rx: number, ry: number,
+    rotation: number, start: number, end: number, counterclockwise?: boolean
+  ): void;
+  closePath(): void;
+}
+
+/** Number of arguments each command consumes */
+const ARG_COUNTS: Record<string, number> = {
+  m: 2, l: 2, h: 1, v: 1, c: 6, s: 4, q: 4, t: 2, a: 7, z: 0,
+};
+
+const NUMBER = /[-+]?(?:\d*\.\d+|\d+\.?)(?:[eE][-+]?\d+)?/y;
+const COMMAND = /[MmLlHhVvCcSsQqTtAaZz]/;
+
+/**
+ * Cursor over path data. Arc flags are read as single characters, since
+ * minified paths often write them without separators ("a2 2 0 012 2").
+ */
+function createScanner(data: string) {
+  let pos = 0;
+
+  const skip = () => {
+    while (pos < data.length && /[\s,]/.test(data[pos])) pos++;
+  };
+
+  return {
+    done() {
+      skip();
+      return pos >= data.length;
+    },
+    command(): string | null {
+      skip();
+      return COMMAND.test(data[pos] ?? '') ? data[pos++] : null;
+    },
+    number(): number | null {
+      skip();
+      NUMBER.lastIndex = pos;
+      const match = NUMBER.exec(data);
+      if (!match) return null;
+      pos += match[0].length;
+      return parseFloat(match[0]);
+    },
+    flag(): number | null {
+      skip();
+      const c = data[pos];
+      if (c !== '0' && c !== '1') return null;
+      pos++;
+      return c === '1' ? 1 : 0;
+    },
+  };
+}
+
+/**
+ * Convert an SVG endpoint arc to canvas ellipse() arguments (SVG spec F.6.5)
+ */
+function arcToEllipse(
+  sink: PathSink,
+  x1: number, y1: number,
+  rx: number, ry: number, angleDeg: number,
+  largeArc: boolean, sweep: boolean,
+  x2: number, y2: number
+) {
+  if (rx === 0 || ry === 0 || (x1 === x2 && y1 === y2)) {
+    sink.lineTo(x2, y2);
+    return;
+  }
+  rx = Math.abs(rx);
+  ry = Math.abs(ry);
+  const phi = (angleDeg * Math.PI) / 180;
+  const cos = Math.cos(phi);
+  const sin = Math.sin(phi);
+
+  const dx = (x1 - x2) / 2;
+  const dy = (y1 - y2) / 2;
+  const x1p = cos * dx + sin * dy;
+  const y1p = -sin * dx + cos * dy;
+
+  // Scale radii up if they can't span the endpoints
+  const lambda = (x1p * x1p) / (rx * rx) + (y1p * y1p) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+
+  const numerator = rx * rx * ry * ry - rx * rx * y1p * y1p - ry * ry * x1p * x1p;
+  const denominator = rx * rx * y1p * y1p + ry * ry * x1p * x1p;
+  let coef = Math.sqrt(Math.max(0, numerator / denominator));
+  if (largeArc === sweep) coef = -coef;
+  const cxp = (coef * rx * y1p) / ry;
+  const cyp = (-coef * ry * x1p) / rx;
+
+  const cx = cos * cxp - sin * cyp + (x1 + x2) / 2;
+  const cy = sin * cxp + cos * cyp + (y1 + y2) / 2;
+
+  const angle = (ux: number, uy: number, vx: number, vy: number) =>
+    Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+  const start = angle(1, 0, (x1p - cxp) / rx, (y1p - cyp) / ry);
+  let delta = angle((x1p - cxp) / rx, (y1p - cyp) / ry, (-x1p - cxp) / rx, (-y1p - cyp) / ry);
+  if (!sweep && delta > 0) delta -= Math.PI * 2;
+  if (sweep && delta < 0) delta += Math.PI * 2;
+
+  sink.ellipse(cx, cy, rx, ry, phi, start, start + delta, delta < 0);
+}
+
+/**
+ * Parse SVG path data and replay it onto a path sink
+ */
+export function replaySvgPath(data: string, sink: PathSink): void {
+  const scanner = createScanner(data);
+  let command = '';
+  let x = 0;
+  let y = 0;
+  let startX = 0;
+  let startY = 0;
+  // Last control point, for S/T reflection
+  let controlX = 0;
+  let controlY = 0;
+  let previous = '';
+
+  while (!scanner.done()) {
+    const next = scanner.command();
+    if (next) {
+      command = next;
+      if (command.toLowerCase() === 'z') {
+        sink.closePath();
+        x = startX;
+        y = startY;
+        previous = 'z';
+        continue;
+      }
+    } else if (!command || command.toLowerCase() === 'z') {
+      // Numbers without a command are invalid; stop like browsers do
+      break;
+    }
+
+    const lower = command.toLowerCase();
+    const args: number[] = [];
+    for (let n = 0; n < ARG_COUNTS[lower]; n++) {
+      const value = lower === 'a' && (n === 3 || n === 4) ? scanner.flag() : scanner.number();
+      if (value === null) return;
+      args.push(value);
+    }
+
+    const relative = command !== command.toUpperCase();
+    const ox = relative ? x : 0;
+    const oy = relative ? y : 0;
+
+    switch (lower) {
+      case 'm':
+        x = ox + args[0];
+        y = oy + args[1];
+        startX = x;
+        startY = y;
+        sink.moveTo(x, y);
+        // Subsequent pairs are implicit lineTo commands
+        command = relative ? 'l' : 'L';
+        break;
+      case 'l':
+        x = ox + args[0];
+        y = oy + args[1];
+        sink.lineTo(x, y);
+        break;
+      case 'h':
+        x = ox + args[0];
+        sink.lineTo(x, y);
+        break;
+      case 'v':
+        y = oy + args[0];
+        sink.lineTo(x, y);
+        break;
+      case 'c':
+        sink.bezierCurveTo(ox + args[0], oy + args[1], ox + args[2], oy + args[3], ox + args[4], oy + args[5]);
+        controlX = ox + args[2];
+        controlY = oy + args[3];
+        x = ox + args[4];
+        y = oy + args[5];
+        break;
+      case 's': {
+        const reflect = previous === 'c' || previous === 's';
+        const x1 = reflect ? 2 * x - controlX : x;
+        const y1 = reflect ? 2 * y - controlY : y;
+        sink.bezierCurveTo(x1, y1, ox + args[0], oy + args[1], ox + args[2], oy + args[3]);
+        controlX = ox + args[0];
+        controlY = oy + args[1];
+        x = ox + args[2];
+        y = oy + args[3];
+        break;
+      }
+      case 'q':
+        sink.quadraticCurveTo(ox + args[0], oy + args[1], ox + args[2], oy + args[3]);
+        controlX = ox + args[0];
+        controlY = oy + args[1];
+        x = ox + args[2];
+        y = oy + args[3];
+        break;
+      case 't': {
+        const reflect = previous === 'q' || previous === 't';
+        controlX = reflect ? 2 * x - controlX : x;
+        controlY = reflect ? 2 * y - controlY : y;
+        x = ox + args[0];
+        y = oy + args[1];
+        sink.quadraticCurveTo(controlX, controlY, x, y);
+        break;
+      }
+      case 'a': {
+        const endX = ox + args[5];
+        const endY = oy + args[6];
+        arcToEllipse(sink, x, y, args[0], args[1], args[2], args[3] !== 0, args[4] !== 0, endX, endY);
+        x = endX;
+        y = endY;
+        break;
+      }
+    }
+    previous = lower;
+  }
+}
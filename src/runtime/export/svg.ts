@@ -0,0 +1,292 @@
+/**
+ * SVG export
+ * Records the Canvas2D calls an animation makes and writes them out as SVG:
+ * either a single static frame, or N sampled keyframes shown in turn with
+ * SMIL or CSS animation so the file plays without a canvas runtime.
+ */
+
+import type { AnyAnimationDefinition } from '../types';
+import { getLoopDurationMs } from '../frames';
+import { toHex } from './color';
+import {
+  recordAnimation,
+  type ExportWarning,
+  type Matrix,
+  type Paint,
+  type PathCommand,
+  type RecordedFrame,
+  type RecordedOp,
+  type RecordedStroke,
+} from './recorder';
+
+/** static: one frame; smil/css: keyframes flipped with SMIL or CSS animation */
+export type SvgMode = 'static' | 'smil' | 'css';
+
+export interface SvgExportOptions {
+  mode: SvgMode;
+  /** Frame index to export in static mode (default: 0) */
+  frame?: number;
+  /** Frames per second used to pick the static frame (default: animation fps, or 60) */
+  fps?: number;
+  /** Number of keyframes sampled over one loop in animated modes (default: 24) */
+  keyframes?: number;
+  /** Called after each recorded frame */
+  onProgress?: (done: number, total: number) => void;
+  /** Abort the export between frames */
+  signal?: AbortSignal;
+}
+
+export interface SvgExportResult {
+  blob: Blob;
+  /** Canvas features that could not be exported */
+  warnings: ExportWarning[];
+}
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function pathData(path: PathCommand[]): string {
+  return path
+    .map((c) => {
+      switch (c.type) {
+        case 'M':
+        case 'L':
+          return `${c.type}${round(c.x)} ${round(c.y)}`;
+        case 'C':
+          return `C${round(c.x1)} ${round(c.y1)} ${round(c.x2)} ${round(c.y2)} ${round(c.x)} ${round(c.y)}`;
+        case 'Z':
+          return 'Z';
+      }
+    })
+    .join('');
+}
+
+function attributes(values: Record<string, string | number | undefined>): string {
+  return Object.entries(values)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => ` ${key}="${typeof value === 'string' ? escapeXml(value) : value}"`)
+    .join('');
+}
+
+const TEXT_ANCHORS: Record<CanvasTextAlign, string> = {
+  start: 'start',
+  left: 'start',
+  center: 'middle',
+  right: 'end',
+  end: 'end',
+};
+
+const BASELINES: Record<CanvasTextBaseline, string> = {
+  alphabetic: 'alphabetic',
+  top: 'text-before-edge',
+  hanging: 'hanging',
+  middle: 'central',
+  ideographic: 'ideographic',
+  bottom: 'text-after-edge',
+};
+
+/**
+ * Write recorded ops as SVG elements. Gradients and clip paths go into a
+ * shared <defs>, deduplicated by content.
+ */
+function createSvgWriter() {
+  const defs: string[] = [];
+  const defIds = new Map<string, string>();
+
+  const define = (prefix: string, key: string, body: (id: string) => string) => {
+    let id = defIds.get(key);
+    if (!id) {
+      id = `${prefix}${defIds.size + 1}`;
+      defIds.set(key, id);
+      defs.push(body(id));
+    }
+    return id;
+  };
+
+  const paintAttributes = (paint: Paint, kind: 'fill' | 'stroke') => {
+    if (paint.type === 'color') {
+      return {
+        [kind]: toHex(paint.color),
+        [`${kind}-opacity`]: paint.color[3] < 1 ? round(paint.color[3]) : undefined,
+      };
+    }
+
+    const stops = paint.stops
+      .map((s) => `<stop${attributes({
+        offset: round(s.offset),
+        'stop-color': toHex(s.color),
+        'stop-opacity': s.color[3] < 1 ? round(s.color[3]) : undefined,
+      })}/>`)
+      .join('');
+    const geometry = paint.type === 'linear'
+      ? { x1: round(paint.x0), y1: round(paint.y0), x2: round(paint.x1), y2: round(paint.y1) }
+      : {
+          cx: round(paint.x1), cy: round(paint.y1), r: round(paint.r1),
+          fx: round(paint.x0), fy: round(paint.y0), fr: round(paint.r0),
+        };
+    const tag = paint.type === 'linear' ? 'linearGradient' : 'radialGradient';
+    const id = define('g', JSON.stringify(paint), (gid) =>
+      `<${tag}${attributes({ id: gid, gradientUnits: 'userSpaceOnUse', ...geometry })}>${stops}</${tag}>`
+    );
+    return { [kind]: `url(#${id})` };
+  };
+
+  const strokeAttributes = (stroke: RecordedStroke) => ({
+    ...paintAttributes(stroke.paint, 'stroke'),
+    'stroke-width': round(stroke.width),
+    'stroke-linecap': stroke.cap === 'butt' ? undefined : stroke.cap,
+    'stroke-linejoin': stroke.join === 'miter' ? undefined : stroke.join,
+    'stroke-miterlimit': stroke.miterLimit === 4 ? undefined : stroke.miterLimit,
+    'stroke-dasharray': stroke.dash.length ? stroke.dash.map(round).join(' ') : undefined,
+    'stroke-dashoffset': stroke.dashOffset ? round(stroke.dashOffset) : undefined,
+  });
+
+  const clip = (element: string, clips: PathCommand[][]) =>
+    clips.reduceRight((inner, path) => {
+      const d = pathData(path);
+      const id = define('c', `clip:${d}`, (cid) => `<clipPath id="${cid}"><path d="${d}"/></clipPath>`);
+      return `<g clip-path="url(#${id})">${inner}</g>`;
+    }, element);
+
+  const transform = (m: Matrix) =>
+    m[0] === 1 && m[1] === 0 && m[2] === 0 && m[3] === 1 && m[4] === 0 && m[5] === 0
+      ? undefined
+      : `matrix(${m.map((v) => Math.round(v * 1e5) / 1e5).join(' ')})`;
+
+  const element = (op: RecordedOp): string => {
+    const opacity = op.opacity < 1 ? round(op.opacity) : undefined;
+
+    if (op.type === 'shape') {
+      const style = op.fill
+        ? {
+            ...paintAttributes(op.fill.paint, 'fill'),
+            'fill-rule': op.fill.rule === 'evenodd' ? 'evenodd' : undefined,
+          }
+        : { fill: 'none', ...strokeAttributes(op.stroke!) };
+      return clip(`<path${attributes({ d: pathData(op.path), ...style, opacity })}/>`, op.clips);
+    }
+
+    const style = op.fill
+      ? paintAttributes(op.fill, 'fill')
+      : { fill: 'none', ...strokeAttributes(op.stroke!) };
+    return clip(`<text${attributes({
+      x: round(op.x),
+      y: round(op.y),
+      transform: transform(op.transform),
+      style: `font: ${op.font}; white-space: pre`,
+      'text-anchor': TEXT_ANCHORS[op.align],
+      'dominant-baseline': BASELINES[op.baseline],
+      ...style,
+      opacity,
+    })}>${escapeXml(op.text)}</text>`, op.clips);
+  };
+
+  return {
+    elements: (ops: RecordedOp[]) => ops.map(element).join(''),
+    defs: () => (defs.length ? `<defs>${defs.join('')}</defs>` : ''),
+  };
+}
+
+/** Number of leading ops that are the same in every frame, e.g. the background */
+function sharedPrefixLength(frames: RecordedFrame[]): number {
+  const first = frames[0].ops.map((op) => JSON.stringify(op));
+  let length = first.length;
+  for (const frame of frames.slice(1)) {
+    let i = 0;
+    while (i < length && i < frame.ops.length && JSON.stringify(frame.ops[i]) === first[i]) i++;
+    length = i;
+  }
+  return length;
+}
+
+function wrapSvg(width: number, height: number, body: string): string {
+  return `<svg xmlns="http://www.w3.org/2000/svg"${attributes({
+    width,
+    height,
+    viewBox: `0 0 ${width} ${height}`,
+  })}>${body}</svg>\n`;
+}
+
+/**
+ * Record an animation and write it as a static or animated SVG
+ */
+export async function exportSvg(
+  animation: AnyAnimationDefinition,
+  params: Record<string, unknown>,
+  options: SvgExportOptions
+): Promise<SvgExportResult> {
+  const { mode, signal, onProgress } = options;
+  const durationMs = getLoopDurationMs(animation);
+
+  const recording = mode === 'static'
+    ? await recordAnimation(animation, params, {
+        fps: options.fps ?? animation.fps ?? 60,
+        from: options.frame ?? 0,
+        to: (options.frame ?? 0) + 1,
+        signal,
+        onProgress,
+      })
+    : await recordAnimation(animation, params, {
+        // Sample exactly `keyframes` frames over one loop
+        fps: (options.keyframes ?? 24) / (durationMs / 1000),
+        signal,
+        onProgress,
+      });
+
+  const { width, height, frames, warnings } = recording;
+  const writer = createSvgWriter();
+
+  if (mode === 'static' || frames.length === 1) {
+    const body = writer.elements(frames[0].ops);
+    return {
+      blob: new Blob([wrapSvg(width, height, writer.defs() + body)], { type: 'image/svg+xml' }),
+      warnings,
+    };
+  }
+
+  // Ops shared by every keyframe are written once, below the flipbook frames
+  const shared = sharedPrefixLength(frames);
+  const count = frames.length;
+  const dur = `${round(durationMs / 1000)}s`;
+
+  const keyTime = (i: number) => Math.round((i / count) * 1e4) / 1e4;
+
+  const frameGroups = frames.map((frame, i) => {
+    const content = writer.elements(frame.ops.slice(shared));
+    if (mode === 'css') {
+      return `<g class="frame" style="animation-delay: ${round((i * durationMs) / count)}ms">${content}</g>`;
+    }
+    // Discrete visibility: visible only between keyTimes i/N and (i+1)/N
+    const keyTimes = i === 0
+      ? `0;${keyTime(1)}`
+      : `0;${keyTime(i)};${keyTime(i + 1)}`;
+    const values = i === 0 ? 'visible;hidden' : 'hidden;visible;hidden';
+    return `<g visibility="hidden"><animate${attributes({
+      attributeName: 'visibility',
+      values,
+      keyTimes,
+      dur,
+      calcMode: 'discrete',
+      repeatCount: 'indefinite',
+    })}/>${content}</g>`;
+  });
+
+  const style = mode === 'css'
+    ? `<style>.frame{visibility:hidden;animation:frame ${dur} step-end infinite}`
+      + `@keyframes frame{0%{visibility:visible}${round(100 / count)}%{visibility:hidden}}</style>`
+    : '';
+  const background = writer.elements(frames[0].ops.slice(0, shared));
+  const body = style + background + frameGroups.join('');
+
+  return {
+    blob: new Blob([wrapSvg(width, height, writer.defs() + body)], { type: 'image/svg+xml' }),
+    warnings,
+  };
+}
@@ -0,0 +1,312 @@
+/**
+ * Video export
+ * Encodes animations to WebM (VP9) or MP4 (H.264) offline with WebCodecs,
+ * so heavy animations export without dropped frames. Loaded audio is
+ * analyzed at the export fps and muxed in as Opus or AAC.
+ */
+
+import { Muxer as Mp4Muxer, ArrayBufferTarget as Mp4Target } from 'mp4-muxer';
+import { Muxer as WebMMuxer, ArrayBufferTarget as WebMTarget } from 'webm-muxer';
+import type { AnyAnimationDefinition } from '../types';
+import { isSimpleAnimation } from '../types';
+import { getFrameCount, renderFrames } from '../frames';
+import { analyzeAudio, type DecodedAudio } from '../audio-track';
+
+export type VideoFormat = 'webm' | 'mp4';
+
+export interface VideoExportOptions {
+  /** Container and codec: WebM/VP9 or MP4/H.264 */
+  format: VideoFormat;
+  /** Output frames per second */
+  fps: number;
+  /** Resolution multiplier applied to the animation size (default: 1) */
+  scale?: number;
+  /** Number of times to repeat the loop (default: 1) */
+  loops?: number;
+  /** Target bitrate in bits per second (default: scaled from resolution) */
+  bitrate?: number;
+  /** Fill behind transparent animations, since video has no alpha (default: white) */
+  background?: string;
+  /** Audio to drive audio-reactive animations and mux into the file */
+  audio?: DecodedAudio;
+  /** Length in seconds, overriding loops, e.g. the audio duration */
+  durationSec?: number;
+  /** Called after each encoded frame */
+  onProgress?: (done: number, total: number) => void;
+  /** Abort the export between frames */
+  signal?: AbortSignal;
+}
+
+const MIME_TYPES: Record<VideoFormat, string> = {
+  webm: 'video/webm',
+  mp4: 'video/mp4',
+};
+
+/** WebCodecs codec strings for each format */
+const CODECS: Record<VideoFormat, string> = {
+  webm: 'vp09.00.41.08',
+  mp4: 'avc1.640033',
+};
+
+/** WebCodecs audio codec strings for each format */
+const AUDIO_CODECS: Record<VideoFormat, string> = {
+  webm: 'opus',
+  mp4: 'mp4a.40.2',
+};
+
+/** Seconds of audio per AudioData passed to the encoder */
+const AUDIO_CHUNK_SEC = 1;
+
+/**
+ * Check whether the browser can encode video offline
+ */
+export function isVideoExportSupported(): boolean {
+  return typeof VideoEncoder !== 'undefined' && typeof VideoFrame !== 'undefined';
+}
+
+/**
+ * Get the encoded output size. Codecs require even dimensions.
+ */
+export function getVideoSize(
+  animation: AnyAnimationDefinition,
+  scale = 1
+): { width: number; height: number } {
+  const even = (n: number) => Math.max(2, Math.round(n / 2) * 2);
+  return {
+    width: even((animation.width ?? 800) * scale),
+    height: even((animation.height ?? 600) * scale),
+  };
+}
+
+interface AudioTrackOptions {
+  numberOfChannels: number;
+  sampleRate: number;
+}
+
+function createMuxer(
+  format: VideoFormat,
+  width: number,
+  height: number,
+  fps: number,
+  audio?: AudioTrackOptions
+) {
+  if (format === 'mp4') {
+    const target = new Mp4Target();
+    const muxer = new Mp4Muxer({
+      target,
+      video: { codec: 'avc', width, height, frameRate: fps },
+      audio: audio && { codec: 'aac', ...audio },
+      fastStart: 'in-memory',
+    });
+    return {
+      addChunk: (chunk: EncodedVideoChunk, meta?: EncodedVideoChunkMetadata) =>
+        muxer.addVideoChunk(chunk, meta),
+      addAudioChunk: (chunk: EncodedAudioChunk, meta?: EncodedAudioChunkMetadata) =>
+        muxer.addAudioChunk(chunk, meta),
+      finalize: () => {
+        muxer.finalize();
+        return target.buffer;
+      },
+    };
+  }
+
+  const target = new WebMTarget();
+  const muxer = new WebMMuxer({
+    target,
+    video: { codec: 'V_VP9', width, height, frameRate: fps },
+    audio: audio && { codec: 'A_OPUS', ...audio },
+  });
+  return {
+    addChunk: (chunk: EncodedVideoChunk, meta?: EncodedVideoChunkMetadata) =>
+      muxer.addVideoChunk(chunk, meta),
+    addAudioChunk: (chunk: EncodedAudioChunk, meta?: EncodedAudioChunkMetadata) =>
+      muxer.addAudioChunk(chunk, meta),
+    finalize: () => {
+      muxer.finalize();
+      return target.buffer;
+    },
+  };
+}
+
+/**
+ * Get an AudioEncoder config for the format, or throw if the browser
+ * can't encode it. Encoders take at most two channels.
+ */
+async function getAudioConfig(format: VideoFormat, audio: DecodedAudio): Promise<AudioEncoderConfig> {
+  if (typeof AudioEncoder === 'undefined') {
+    throw new Error('This browser cannot encode audio; export without audio instead');
+  }
+  const config: AudioEncoderConfig = {
+    codec: AUDIO_CODECS[format],
+    numberOfChannels: Math.min(2, audio.channels.length),
+    sampleRate: audio.sampleRate,
+    bitrate: 192_000,
+  };
+  const support = await AudioEncoder.isConfigSupported(config);
+  if (!support.supported) {
+    const codec = format === 'mp4' ? 'AAC' : 'Opus';
+    throw new Error(`This browser cannot encode ${codec} audio at ${audio.sampleRate}Hz`);
+  }
+  return config;
+}
+
+/**
+ * Encode the first `durationSec` seconds of audio and pass the chunks to
+ * the muxer
+ */
+async function encodeAudio(
+  audio: DecodedAudio,
+  config: AudioEncoderConfig,
+  durationSec: number,
+  addChunk: (chunk: EncodedAudioChunk, meta?: EncodedAudioChunkMetadata) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  let encoderError: Error | null = null;
+  const encoder = new AudioEncoder({
+    output: addChunk,
+    error: (error) => {
+      encoderError = error;
+    },
+  });
+  encoder.configure(config);
+
+  const { sampleRate, numberOfChannels } = config;
+  const length = Math.min(audio.channels[0].length, Math.round(durationSec * sampleRate));
+  const chunkLength = Math.round(AUDIO_CHUNK_SEC * sampleRate);
+
+  try {
+    for (let offset = 0; offset < length; offset += chunkLength) {
+      if (signal?.aborted) throw new DOMException('Export aborted', 'AbortError');
+      if (encoderError) throw encoderError;
+
+      const numberOfFrames = Math.min(chunkLength, length - offset);
+      // Planar layout: each channel's samples one after another
+      const data = new Float32Array(numberOfFrames * numberOfChannels);
+      for (let c = 0; c < numberOfChannels; c++) {
+        data.set(audio.channels[c].subarray(offset, offset + numberOfFrames), c * numberOfFrames);
+      }
+      const audioData = new AudioData({
+        format: 'f32-planar',
+        sampleRate,
+        numberOfFrames,
+        numberOfChannels,
+        timestamp: Math.round((offset / sampleRate) * 1_000_000),
+        data,
+      });
+      encoder.encode(audioData);
+      audioData.close();
+    }
+
+    await encoder.flush();
+    if (encoderError) throw encoderError;
+  } finally {
+    if (encoder.state !== 'closed') encoder.close();
+  }
+}
+
+/**
+ * Wait until the encoder queue drains below a limit, yielding to the event
+ * loop so the UI stays responsive during long exports
+ */
+async function waitForEncoder(encoder: VideoEncoder, maxQueue = 8): Promise<void> {
+  do {
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  } while (encoder.encodeQueueSize > maxQueue);
+}
+
+/**
+ * Render an animation offline and encode it to a video file
+ */
+export async function exportVideo(
+  animation: AnyAnimationDefinition,
+  params: Record<string, unknown>,
+  options: VideoExportOptions
+): Promise<Blob> {
+  if (!isVideoExportSupported()) {
+    throw new Error('Video export requires WebCodecs, which this browser does not support');
+  }
+
+  const { format, fps, scale = 1, loops = 1, audio, durationSec, signal, onProgress } = options;
+  const { width, height } = getVideoSize(animation, scale);
+  const bitrate = options.bitrate ?? Math.round(width * height * fps * 0.15);
+  const total = durationSec !== undefined
+    ? Math.max(1, Math.ceil(durationSec * fps))
+    : getFrameCount(animation, fps) * Math.max(1, Math.floor(loops));
+  const frameDurationUs = 1_000_000 / fps;
+
+  const config: VideoEncoderConfig = {
+    codec: CODECS[format],
+    width,
+    height,
+    bitrate,
+    framerate: fps,
+  };
+  const support = await VideoEncoder.isConfigSupported(config);
+  if (!support.supported) {
+    throw new Error(`This browser cannot encode ${format.toUpperCase()} at ${width}x${height}`);
+  }
+
+  const audioConfig = audio && await getAudioConfig(format, audio);
+  const muxer = createMuxer(format, width, height, fps, audioConfig && {
+    numberOfChannels: audioConfig.numberOfChannels,
+    sampleRate: audioConfig.sampleRate,
+  });
+  if (audio && audioConfig) {
+    await encodeAudio(audio, audioConfig, total / fps, muxer.addAudioChunk, signal);
+  }
+  let encoderError: Error | null = null;
+  const encoder = new VideoEncoder({
+    output: (chunk, meta) => muxer.addChunk(chunk, meta),
+    error: (error) => {
+      encoderError = error;
+    },
+  });
+  encoder.configure(config);
+
+  // Video has no alpha channel, so composite each frame onto a solid fill
+  const output = new OffscreenCanvas(width, height);
+  const outputContext = output.getContext('2d');
+  if (!outputContext) throw new Error('Could not get 2d context');
+  const fill = animation.background ?? options.background ?? '#FFFFFF';
+
+  try {
+    const frames = renderFrames(animation, params, {
+      fps,
+      to: total,
+      width: width / scale,
+      height: height / scale,
+      scale,
+      audio: audio && analyzeAudio(audio, {
+        ...(isSimpleAnimation(animation) ? undefined : animation.audio),
+        fps,
+      }),
+    });
+
+    for (const frame of frames) {
+      if (signal?.aborted) throw new DOMException('Export aborted', 'AbortError');
+      if (encoderError) throw encoderError;
+
+      outputContext.fillStyle = fill;
+      outputContext.fillRect(0, 0, width, height);
+      outputContext.drawImage(frame.canvas, 0, 0, width, height);
+
+      const videoFrame = new VideoFrame(output, {
+        timestamp: Math.round(frame.index * frameDurationUs),
+        duration: Math.round(frameDurationUs),
+      });
+      // Keyframe every two seconds keeps files seekable
+      encoder.encode(videoFrame, { keyFrame: frame.index % Math.round(fps * 2) === 0 });
+      videoFrame.close();
+
+      onProgress?.(frame.index + 1, total);
+      await waitForEncoder(encoder);
+    }
+
+    await encoder.flush();
+    if (encoderError) throw encoderError;
+  } finally {
+    if (encoder.state !== 'closed') encoder.close();
+  }
+
+  return new Blob([muxer.finalize()], { type: MIME_TYPES[format] });
+}
@@ -0,0 +1,252 @@
+/**
+ * Deterministic frame rendering
+ * Renders animations frame-by-frame at an exact fps, independent of
+ * requestAnimationFrame, for exports, thumbnails and snapshot tests
+ */
+
+import type {
+  AnimationDefinition,
+  AnyAnimationDefinition,
+  RenderContext,
+} from './types';
+import { isSimpleAnimation } from './types';
+import { generateSyntheticAudioData } from './audio';
+import type { AudioTrack } from './audio-track';
+import { resolveKeyframes } from './keyframes';
+import { createRandom, DEFAULT_SEED } from './random';
+import { createSimulation } from './simulation';
+
+/** Canvas types that renderFrames can draw into */
+export type FrameCanvas = HTMLCanvasElement | OffscreenCanvas;
+
+export interface RenderFramesOptions {
+  /** Frames per second to sample at (default: animation fps, or 60) */
+  fps?: number;
+  /** First frame index, inclusive (default: 0) */
+  from?: number;
+  /** Last frame index, exclusive (default: one full loop) */
+  to?: number;
+  /**
+   * Wrap finite animations back to the start after one loop (default: true).
+   * false holds the end of the loop (progress 1), as the player does.
+   */
+  loop?: boolean;
+  /** Output width in CSS pixels (default: animation width) */
+  width?: number;
+  /** Output height in CSS pixels (default: animation height) */
+  height?: number;
+  /** Pixel ratio of the output, independent of devicePixelRatio (default: 1) */
+  scale?: number;
+  /** Canvas to draw into (default: a new OffscreenCanvas or <canvas>) */
+  canvas?: FrameCanvas;
+  /**
+   * Context to draw into instead of a canvas' own 2d context, e.g. a
+   * recording context for vector exports. Its `canvas` is resized and
+   * returned with each frame.
+   */
+  context?: CanvasRenderingContext2D;
+  /** Provide synthetic audio data to audio-reactive animations */
+  audioEnabled?: boolean;
+  /**
+   * Precomputed audio to feed audio-reactive animations, looked up by
+   * frame index (not wrapped to the loop) so frames stay in sync with it
+   */
+  audio?: AudioTrack;
+}
+
+/** A single rendered frame */
+export interface RenderedFrame {
+  /** Frame index in the rendered range (may exceed one loop) */
+  index: number;
+  /** Animation time in seconds (wraps for finite animations) */
+  time: number;
+  /** Animation progress from 0 to 1 */
+  progress: number;
+  /**
+   * Canvas holding the frame's pixels. The same canvas is reused for every
+   * frame, so read or encode it before requesting the next one.
+   */
+  canvas: FrameCanvas;
+}
+
+/**
+ * Get the duration of one loop in milliseconds.
+ * Simple animations default to 3s; infinite full animations use the 1s
+ * progress cycle the player applies to them.
+ */
+export function getLoopDurationMs(animation: AnyAnimationDefinition): number {
+  if (animation.durationMs) return animation.durationMs;
+  return isSimpleAnimation(animation) ? 3000 : 1000;
+}
+
+/**
+ * Get the number of frames in one loop at the given fps
+ */
+export function getFrameCount(animation: AnyAnimationDefinition, fps?: number): number {
+  const rate = fps ?? animation.fps ?? 60;
+  return Math.max(1, Math.round((getLoopDurationMs(animation) / 1000) * rate));
+}
+
+/**
+ * Calculate progress (0-1) for a time in seconds
+ */
+export function getProgress(animation: AnyAnimationDefinition, time: number): number {
+  const durationMs = animation.durationMs ?? (isSimpleAnimation(animation) ? 3000 : undefined);
+  return durationMs
+    ? Math.min(time / (durationMs / 1000), 1)
+    : (time % 1); // For infinite animations, loop every second
+}
+
+/**
+ * Clear the whole canvas, filling it with the animation background if set
+ */
+export function clearFrame(
+  context: CanvasRenderingContext2D,
+  animation: AnyAnimationDefinition
+): void {
+  const { canvas } = context;
+  context.save();
+  context.setTransform(1, 0, 0, 1, 0, 0);
+  if (animation.background) {
+    context.fillStyle = animation.background;
+    context.fillRect(0, 0, canvas.width, canvas.height);
+  } else {
+    context.clearRect(0, 0, canvas.width, canvas.height);
+  }
+  context.restore();
+}
+
+/**
+ * Clear the canvas and draw one frame of either animation format.
+ * `state` is passed on to render for stateful animations.
+ */
+export function drawFrame(
+  animation: AnyAnimationDefinition,
+  renderContext: RenderContext,
+  state?: unknown
+): void {
+  const { ctx, width, height, progress } = renderContext;
+
+  clearFrame(ctx, animation);
+  ctx.save();
+
+  if (isSimpleAnimation(animation)) {
+    animation.render(ctx, { width, height, progress });
+  } else {
+    (animation as AnimationDefinition<Record<string, unknown>, unknown>).render(renderContext, state);
+  }
+
+  ctx.restore();
+}
+
+function createFrameCanvas(width: number, height: number): FrameCanvas {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    return new OffscreenCanvas(width, height);
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+/**
+ * Render an animation frame-by-frame at an exact fps.
+ *
+ * `time`, `deltaTime`, `frame` and `progress` are derived from the frame
+ * index only, so a given index always produces the same RenderContext.
+ * Finite animations loop when `to` exceeds one loop, unless `loop` is false.
+ *
+ * @example
+ * for (const frame of renderFrames(animation, params, { fps: 30 })) {
+ *   await encoder.add(frame.canvas);
+ * }
+ */
+export function* renderFrames(
+  animation: AnyAnimationDefinition,
+  params: Record<string, unknown> = {},
+  options: RenderFramesOptions = {}
+): Generator<RenderedFrame> {
+  const fps = options.fps ?? animation.fps ?? 60;
+  const framesPerLoop = getFrameCount(animation, fps);
+  const finite = isSimpleAnimation(animation) || animation.durationMs !== undefined;
+  const loop = options.loop ?? true;
+  const from = Math.max(0, Math.floor(options.from ?? 0));
+  const to = Math.floor(options.to ?? framesPerLoop);
+
+  const width = options.width ?? animation.width ?? 800;
+  const height = options.height ?? animation.height ?? 600;
+  const scale = options.scale ?? 1;
+
+  const canvas = options.context?.canvas
+    ?? options.canvas
+    ?? createFrameCanvas(width * scale, height * scale);
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+
+  // OffscreenCanvasRenderingContext2D implements the drawing API animations use
+  const ctx = options.context ?? canvas.getContext('2d') as CanvasRenderingContext2D | null;
+  if (!ctx) throw new Error('Could not get 2d context');
+  const context = ctx;
+  context.setTransform(scale, 0, 0, scale, 0, 0);
+
+  const resolvedParams = isSimpleAnimation(animation)
+    ? {}
+    : { ...animation.params.defaults, ...params };
+
+  const keyframes = isSimpleAnimation(animation) ? undefined : animation.keyframes;
+  const audioConfig = isSimpleAnimation(animation) ? undefined : animation.audio;
+  const seed = (isSimpleAnimation(animation) ? undefined : animation.seed) ?? DEFAULT_SEED;
+
+  /** Context at an animation time; audio is looked up at the unwrapped time */
+  function createContextAt(time: number, audioTime: number, deltaTime: number): RenderContext {
+    const progress = getProgress(animation, time);
+    const frame = Math.floor(time * fps + 1e-6);
+    return {
+      ctx: context,
+      time,
+      progress,
+      deltaTime,
+      width,
+      height,
+      dpr: scale,
+      params: resolveKeyframes(resolvedParams, keyframes, progress),
+      frame,
+      random: createRandom(seed, frame),
+      audio: options.audio
+        ? options.audio.getData(audioTime)
+        : options.audioEnabled ? generateSyntheticAudioData(time, audioConfig) : undefined,
+    };
+  }
+
+  function createRenderContext(index: number): RenderContext {
+    const frame = !finite ? index : loop ? index % framesPerLoop : Math.min(index, framesPerLoop);
+    return createContextAt(frame / fps, index / fps, index === 0 ? 0 : 1 / fps);
+  }
+
+  // Stateful animations simulate at their own rate, whatever fps they're rendered at
+  let state: unknown;
+  let stateAt: ((renderContext: RenderContext, index: number) => unknown) | undefined;
+  if (!isSimpleAnimation(animation)) {
+    const fullAnimation = animation as AnimationDefinition<Record<string, unknown>, unknown>;
+    state = fullAnimation.setup?.(createRenderContext(0));
+    if (fullAnimation.update) {
+      const rate = fullAnimation.updateRate ?? animation.fps ?? 60;
+      const simulation = createSimulation(state, fullAnimation.update, rate);
+      stateAt = ({ time }, index) => {
+        const loopStart = index / fps - time;
+        return simulation.stateAt(time, (stepTime) => createContextAt(stepTime, loopStart + stepTime, 1 / rate));
+      };
+    }
+  }
+
+  for (let index = from; index < to; index++) {
+    const renderContext = createRenderContext(index);
+    drawFrame(animation, renderContext, stateAt ? stateAt(renderContext, index) : state);
+    yield {
+      index,
+      time: renderContext.time,
+      progress: renderContext.progress,
+      canvas,
+    };
+  }
+}
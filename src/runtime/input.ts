@@ -0,0 +1,167 @@
+/**
+ * Pointer and keyboard input
+ * Tracks the pointer over a canvas and the keys held down, for animations
+ * that declare `interactive: true`. The player passes the state to render
+ * as `context.input`; exports and thumbnails render without it, so
+ * interactive animations fall back to a scripted path and stay deterministic.
+ *
+ * @example
+ * render({ ctx, input, width, height, progress }) {
+ *   const scripted = { x: width * progress, y: height / 2 };
+ *   const { x, y, down } = resolvePointer(input, scripted);
+ * }
+ */
+
+/** The pointer over the canvas */
+export interface PointerState {
+  /** Position in canvas CSS pixels, the units render draws in */
+  x: number;
+  y: number;
+  /** Whether a button, finger or pen is pressed */
+  down: boolean;
+  /** Whether the pointer is over the canvas (or captured by a press that started on it) */
+  hover: boolean;
+}
+
+/** Input passed to interactive animations */
+export interface InputState {
+  /** Last known pointer, or null until the pointer first reaches the canvas */
+  pointer: PointerState | null;
+  /** Wheel movement since the previous frame, in CSS pixels */
+  wheel: { x: number; y: number };
+  /** Keys held down, by KeyboardEvent.key */
+  keys: ReadonlySet<string>;
+}
+
+export interface InputTracker {
+  /** Current input; the wheel delta resets after each call */
+  read: () => InputState;
+  /** Remove the event listeners */
+  destroy: () => void;
+}
+
+/** Pixels per line for wheel events that scroll by lines */
+const WHEEL_LINE_HEIGHT = 16;
+
+/** Elements that take typing, so keys pressed in them don't reach the animation */
+function isEditable(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
+
+/**
+ * Listen to pointer, wheel and keyboard events for a canvas drawn at
+ * `width` x `height` CSS pixels. Positions are converted from the canvas's
+ * displayed size, so they stay right when CSS scales the canvas and
+ * don't depend on the device pixel ratio of its backing store.
+ */
+export function createInputTracker(canvas: HTMLCanvasElement, width: number, height: number): InputTracker {
+  let pointer: PointerState | null = null;
+  let wheelX = 0;
+  let wheelY = 0;
+  const keys = new Set<string>();
+
+  const toCanvas = (event: PointerEvent | WheelEvent) => {
+    const rect = canvas.getBoundingClientRect();
+    // clientWidth/Height exclude the border, which the bounding rect includes
+    const scaleX = canvas.clientWidth ? width / canvas.clientWidth : 1;
+    const scaleY = canvas.clientHeight ? height / canvas.clientHeight : 1;
+    return {
+      x: (event.clientX - rect.left - canvas.clientLeft) * scaleX,
+      y: (event.clientY - rect.top - canvas.clientTop) * scaleY,
+    };
+  };
+
+  const updatePointer = (event: PointerEvent, changes: Partial<PointerState> = {}) => {
+    pointer = {
+      ...toCanvas(event),
+      down: pointer?.down ?? false,
+      hover: pointer?.hover ?? true,
+      ...changes,
+    };
+  };
+
+  const handlePointerMove = (event: PointerEvent) => updatePointer(event);
+  const handlePointerEnter = (event: PointerEvent) => updatePointer(event, { hover: true });
+  const handlePointerLeave = (event: PointerEvent) => {
+    // A captured press keeps tracking outside the canvas until release
+    if (!canvas.hasPointerCapture(event.pointerId)) updatePointer(event, { hover: false });
+  };
+  const handlePointerDown = (event: PointerEvent) => {
+    canvas.setPointerCapture(event.pointerId);
+    updatePointer(event, { down: true, hover: true });
+  };
+  const handlePointerUp = (event: PointerEvent) => {
+    const rect = canvas.getBoundingClientRect();
+    const inside = event.clientX >= rect.left && event.clientX < rect.right
+      && event.clientY >= rect.top && event.clientY < rect.bottom;
+    // Touch pointers vanish on release, so they stop hovering
+    updatePointer(event, { down: false, hover: inside && event.pointerType === 'mouse' });
+  };
+  const handleWheel = (event: WheelEvent) => {
+    event.preventDefault();
+    const scale = event.deltaMode === WheelEvent.DOM_DELTA_LINE
+      ? WHEEL_LINE_HEIGHT
+      : event.deltaMode === WheelEvent.DOM_DELTA_PAGE ? height : 1;
+    wheelX += event.deltaX * scale;
+    wheelY += event.deltaY * scale;
+  };
+  const handleKeyDown = (event: KeyboardEvent) => {
+    if (!isEditable(event.target)) keys.add(event.key);
+  };
+  const handleKeyUp = (event: KeyboardEvent) => keys.delete(event.key);
+  // Key-up events are lost while the window is in the background
+  const handleBlur = () => keys.clear();
+
+  // Let touches drag on the canvas instead of scrolling the page
+  const previousTouchAction = canvas.style.touchAction;
+  canvas.style.touchAction = 'none';
+
+  canvas.addEventListener('pointermove', handlePointerMove);
+  canvas.addEventListener('pointerenter', handlePointerEnter);
+  canvas.addEventListener('pointerleave', handlePointerLeave);
+  canvas.addEventListener('pointerdown', handlePointerDown);
+  canvas.addEventListener('pointerup', handlePointerUp);
+  canvas.addEventListener('pointercancel', handlePointerUp);
+  canvas.addEventListener('wheel', handleWheel, { passive: false });
+  window.addEventListener('keydown', handleKeyDown);
+  window.addEventListener('keyup', handleKeyUp);
+  window.addEventListener('blur', handleBlur);
+
+  return {
+    read() {
+      const state: InputState = { pointer, wheel: { x: wheelX, y: wheelY }, keys: new Set(keys) };
+      wheelX = 0;
+      wheelY = 0;
+      return state;
+    },
+    destroy() {
+      canvas.style.touchAction = previousTouchAction;
+      canvas.removeEventListener('pointermove', handlePointerMove);
+      canvas.removeEventListener('pointerenter', handlePointerEnter);
+      canvas.removeEventListener('pointerleave', handlePointerLeave);
+      canvas.removeEventListener('pointerdown', handlePointerDown);
+      canvas.removeEventListener('pointerup', handlePointerUp);
+      canvas.removeEventListener('pointercancel', handlePointerUp);
+      canvas.removeEventListener('wheel', handleWheel);
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+    },
+  };
+}
+
+/**
+ * The live pointer while it's over the canvas, otherwise a scripted
+ * position. `live` tells which one it is.
+ */
+export function resolvePointer(
+  input: InputState | undefined,
+  scripted: { x: number; y: number }
+): { x: number; y: number; down: boolean; live: boolean } {
+  const pointer = input?.pointer;
+  if (pointer?.hover) {
+    return { x: pointer.x, y: pointer.y, down: pointer.down, live: true };
+  }
+  return { x: scripted.x, y: scripted.y, down: false, live: false };
+}
@@ -0,0 +1,157 @@
+/**
+ * Keyframed parameters
+ * A track holds keys for one number, color or vector2 param at positions
+ * through the loop (0-1, same as progress). The player and renderFrames
+ * resolve tracks every frame, so render() just sees params that change.
+ */
+
+import { easeInCubic, easeInOutCubic, easeOutCubic, linear, type Easing } from './easing';
+
+/** Curve from a key to the next one */
+export type KeyframeEasing = 'linear' | 'easeIn' | 'easeOut' | 'easeInOut' | 'hold';
+
+export interface Keyframe {
+  /** Position in the loop, 0-1 */
+  at: number;
+  value: unknown;
+  /** Curve towards the next key (default: 'easeInOut') */
+  easing?: KeyframeEasing;
+}
+
+/** Keys by param name, each track sorted by `at` */
+export type KeyframeTracks = Record<string, Keyframe[]>;
+
+export const KEYFRAME_EASINGS: KeyframeEasing[] = ['linear', 'easeIn', 'easeOut', 'easeInOut', 'hold'];
+
+const EASINGS: Record<KeyframeEasing, Easing> = {
+  linear,
+  easeIn: easeInCubic,
+  easeOut: easeOutCubic,
+  easeInOut: easeInOutCubic,
+  hold: () => 0,
+};
+
+/** Parse #rgb, #rrggbb or #rrggbbaa into [r, g, b, a] (0-255) */
+function parseHexColor(value: string): number[] | null {
+  const hex = value.match(/^#([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i)?.[1];
+  if (!hex) return null;
+  const full = hex.length === 3 ? hex.replace(/./g, (c) => c + c) : hex;
+  const channels = full.match(/../g)!.map((c) => parseInt(c, 16));
+  return channels.length === 3 ? [...channels, 255] : channels;
+}
+
+function formatHexColor(channels: number[]): string {
+  const [r, g, b, a] = channels.map((c) => Math.round(c).toString(16).padStart(2, '0'));
+  return `#${r}${g}${b}${a === 'ff' ? '' : a}`;
+}
+
+function isVector(value: unknown): value is { x: number; y: number } {
+  return typeof value === 'object' && value !== null
+    && typeof (value as { x: unknown }).x === 'number'
+    && typeof (value as { y: unknown }).y === 'number';
+}
+
+/** Whether a param value can be keyframed (number, hex color or vector2) */
+export function isKeyframeable(value: unknown): boolean {
+  return typeof value === 'number'
+    || (typeof value === 'string' && parseHexColor(value) !== null)
+    || isVector(value);
+}
+
+/** Blend two values of the same kind; other values switch at the end */
+export function interpolateValue(from: unknown, to: unknown, t: number): unknown {
+  if (typeof from === 'number' && typeof to === 'number') {
+    return from + (to - from) * t;
+  }
+  if (isVector(from) && isVector(to)) {
+    return { x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t };
+  }
+  const a = typeof from === 'string' ? parseHexColor(from) : null;
+  const b = typeof to === 'string' ? parseHexColor(to) : null;
+  if (a && b) {
+    return formatHexColor(a.map((c, i) => c + (b[i] - c) * t));
+  }
+  return t < 1 ? from : to;
+}
+
+/** Value of a track at a loop position; the first and last keys hold outside the keyed range */
+export function sampleTrack(track: Keyframe[], at: number): unknown {
+  const last = track[track.length - 1];
+  if (at <= track[0].at) return track[0].value;
+  if (at >= last.at) return last.value;
+
+  let index = 0;
+  while (track[index + 1].at <= at) index++;
+  const from = track[index];
+  const to = track[index + 1];
+  const t = (at - from.at) / (to.at - from.at);
+  return interpolateValue(from.value, to.value, EASINGS[from.easing ?? 'easeInOut'](t));
+}
+
+/** Params with every keyframed value resolved at a loop position */
+export function resolveKeyframes<P>(params: P, tracks: KeyframeTracks | undefined, at: number): P {
+  if (!tracks) return params;
+  const resolved = { ...params } as Record<string, unknown>;
+  for (const key of Object.keys(tracks)) {
+    if (tracks[key].length > 0) resolved[key] = sampleTrack(tracks[key], at);
+  }
+  return resolved as P;
+}
+
+/** Whether any track has keys */
+export function hasKeyframes(tracks: KeyframeTracks | undefined): boolean {
+  return !!tracks && Object.values(tracks).some((track) => track.length > 0);
+}
+
+const clampPosition = (at: number) => Math.min(1, Math.max(0, at));
+
+/**
+ * Add a key, replacing one within `tolerance` of the same position.
+ * Returns new tracks; the input is not modified.
+ */
+export function setKeyframe(
+  tracks: KeyframeTracks,
+  key: string,
+  at: number,
+  value: unknown,
+  tolerance = 0.001
+): KeyframeTracks {
+  const position = clampPosition(at);
+  const track = tracks[key] ?? [];
+  const existing = track.find((k) => Math.abs(k.at - position) <= tolerance);
+  const next = existing
+    ? track.map((k) => (k === existing ? { ...k, value } : k))
+    : [...track, { at: position, value }].sort((a, b) => a.at - b.at);
+  return { ...tracks, [key]: next };
+}
+
+/** Move a key to a new position, keeping the track sorted */
+export function moveKeyframe(tracks: KeyframeTracks, key: string, index: number, at: number): KeyframeTracks {
+  const track = tracks[key] ?? [];
+  if (!track[index]) return tracks;
+  const next = track
+    .map((k, i) => (i === index ? { ...k, at: clampPosition(at) } : k))
+    .sort((a, b) => a.at - b.at);
+  return { ...tracks, [key]: next };
+}
+
+/** Change the curve from a key to the next one */
+export function setKeyframeEasing(
+  tracks: KeyframeTracks,
+  key: string,
+  index: number,
+  easing: KeyframeEasing
+): KeyframeTracks {
+  const track = tracks[key] ?? [];
+  if (!track[index]) return tracks;
+  return { ...tracks, [key]: track.map((k, i) => (i === index ? { ...k, easing } : k)) };
+}
+
+/** Delete a key; empty tracks are removed */
+export function removeKeyframe(tracks: KeyframeTracks, key: string, index: number): KeyframeTracks {
+  const track = (tracks[key] ?? []).filter((_, i) => i !== index);
+  const next = { ...tracks };
+  if (track.length > 0) next[key] = track;
+  else delete next[key];
+  return next;
+}
@@ -0,0 +1,148 @@
+/**
+ * Layouts and output formats
+ * An animation can list named aspect ratios it renders at, and a layout
+ * mode saying how it adapts to them. resolveFormat turns it into a regular
+ * AnimationDefinition at the format's size, so the player and every
+ * exporter render formats like any other animation.
+ *
+ * @example
+ * const animation: AnimationDefinition<Params> = {
+ *   // ...
+ *   width: 1280,
+ *   height: 720,
+ *   layout: 'responsive',
+ *   formats: ['16:9', '1:1', '9:16'],
+ * };
+ * createPlayer({ canvas, animation: resolveFormat(animation, '9:16') });
+ */
+
+import type { AnimationDefinition, AnyAnimationDefinition } from './types';
+import { isSimpleAnimation } from './types';
+import { createNestedAnimation, renderNestedAnimation, setupNestedAnimation } from './composition';
+import type { NestedAnimation } from './composition';
+import type { InputState } from './input';
+
+/**
+ * How an animation adapts to a format:
+ * - fixed: only renders at its own size, formats don't apply (default)
+ * - fit: drawn at its own size, scaled to fit and letterboxed with the background
+ * - fill: drawn at its own size, scaled to cover and cropped
+ * - responsive: drawn at the format's size, with context width and height set to it
+ */
+export type LayoutMode = 'fixed' | 'fit' | 'fill' | 'responsive';
+
+/** Named output aspect ratios */
+export type OutputFormat = '16:9' | '1:1' | '9:16' | '4:5';
+
+/** Width and height ratio of each format */
+export const OUTPUT_FORMATS: Record<OutputFormat, [number, number]> = {
+  '16:9': [16, 9],
+  '1:1': [1, 1],
+  '9:16': [9, 16],
+  '4:5': [4, 5],
+};
+
+/** Scale and offset from an animation's own size to an output size */
+export interface LayoutTransform {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+/** Formats an animation renders at; none for fixed layouts and simple animations */
+export function getFormats(animation: AnyAnimationDefinition): OutputFormat[] {
+  if (isSimpleAnimation(animation) || (animation.layout ?? 'fixed') === 'fixed') return [];
+  return animation.formats ?? [];
+}
+
+/**
+ * Size of a format for an animation. The longer side keeps the animation's
+ * longer side, so formats have about the same detail; sides are rounded to
+ * even numbers, which video encoders need.
+ */
+export function getFormatSize(animation: AnyAnimationDefinition, format: OutputFormat): { width: number; height: number } {
+  const long = Math.max(animation.width ?? 800, animation.height ?? 600);
+  const [ratioWidth, ratioHeight] = OUTPUT_FORMATS[format];
+  const even = (value: number) => Math.round(value / 2) * 2;
+  return ratioWidth >= ratioHeight
+    ? { width: even(long), height: even((long * ratioHeight) / ratioWidth) }
+    : { width: even((long * ratioWidth) / ratioHeight), height: even(long) };
+}
+
+/** Filename suffix for a format, e.g. '-16x9' */
+export function formatSuffix(format: OutputFormat): string {
+  return `-${format.replace(':', 'x')}`;
+}
+
+/** Transform that fits (contains) or fills (covers) `from` in `to`, centered */
+export function getLayoutTransform(
+  mode: 'fit' | 'fill',
+  from: { width: number; height: number },
+  to: { width: number; height: number }
+): LayoutTransform {
+  const scaleX = to.width / from.width;
+  const scaleY = to.height / from.height;
+  const scale = mode === 'fit' ? Math.min(scaleX, scaleY) : Math.max(scaleX, scaleY);
+  return {
+    scale,
+    x: (to.width - from.width * scale) / 2,
+    y: (to.height - from.height * scale) / 2,
+  };
+}
+
+/** Input in output pixels mapped back to the animation's own pixels */
+function transformInput(input: InputState | undefined, { scale, x, y }: LayoutTransform): InputState | undefined {
+  if (!input) return undefined;
+  const { pointer, wheel } = input;
+  return {
+    ...input,
+    pointer: pointer && { ...pointer, x: (pointer.x - x) / scale, y: (pointer.y - y) / scale },
+    wheel: { x: wheel.x / scale, y: wheel.y / scale },
+  };
+}
+
+/**
+ * The animation rendering at a format, as a definition of the format's
+ * size. Fixed layouts and simple animations are returned unchanged.
+ */
+export function resolveFormat(animation: AnyAnimationDefinition, format: OutputFormat): AnyAnimationDefinition {
+  if (isSimpleAnimation(animation)) return animation;
+  const full = animation as AnimationDefinition<Record<string, unknown>, unknown>;
+  const layout = full.layout ?? 'fixed';
+  if (layout === 'fixed') return animation;
+
+  const size = getFormatSize(animation, format);
+  if (layout === 'responsive') return { ...full, ...size };
+
+  const own = { width: full.width ?? 800, height: full.height ?? 600 };
+  const transform = getLayoutTransform(layout, own, size);
+  // The outer definition resolves keyframes and the seed, so the drawn copy doesn't again
+  const drawn = { ...full, keyframes: undefined, seed: undefined };
+
+  const resolved: AnimationDefinition<Record<string, unknown>, NestedAnimation> = {
+    ...full,
+    ...size,
+    update: undefined,
+    updateRate: undefined,
+    // Each run draws its own copy, so players and exports don't share its state
+    setup(context) {
+      const nested = createNestedAnimation(drawn, context.params);
+      setupNestedAnimation(nested, context);
+      return nested;
+    },
+    render(context, nested) {
+      const { ctx } = context;
+      nested.params = context.params;
+      ctx.save();
+      ctx.translate(transform.x, transform.y);
+      ctx.scale(transform.scale, transform.scale);
+      renderNestedAnimation(
+        nested,
+        { ...context, dpr: context.dpr * transform.scale, input: transformInput(context.input, transform) },
+        context.time
+      );
+      ctx.restore();
+    },
+  };
+  return resolved;
+}
@@ -50,9 +50,9 @@ export function vector2(opts: {
 }
 
 /** Create a folder to group parameters */
-export function folder(
-  label: string,
-  fields: Record<string, unknown>,
+export function folder<L extends string, F extends Record<string, unknown>>(
+  label: L,
+  fields: F,
   opts?: { collapsed?: boolean }
 ) {
   return {
@@ -60,5 +60,51 @@ export function folder(
       schema: fields,
       collapsed: opts?.collapsed ?? false,
     },
-  };
+  } as { [K in L]: { schema: F; collapsed: boolean } };
+}
+
+type UnionToIntersection<U> = (U extends unknown ? (arg: U) => void : never) extends (arg: infer I) => void
+  ? I
+  : never;
+
+/** Keys of a schema that hold a folder() */
+type FolderKeys<S> = { [K in keyof S]: S[K] extends { schema: object; collapsed: boolean } ? K : never }[keyof S];
+
+/**
+ * Param values a schema defines: each helper's `value` type, with the
+ * params inside folder() at the top level, as the panel and render see them
+ */
+export type InferParams<S> = {
+  [K in keyof S as S[K] extends { value: unknown } ? K : never]: S[K] extends { value: infer V } ? V : never;
+} & UnionToIntersection<
+  { [K in FolderKeys<S>]: S[K] extends { schema: infer F } ? InferParams<F> : never }[FolderKeys<S>]
+>;
+
+/** Each param's `value`, with folder() contents flattened */
+function schemaValues(schema: Record<string, unknown>, values: Record<string, unknown> = {}): Record<string, unknown> {
+  for (const [key, param] of Object.entries(schema)) {
+    if (!param || typeof param !== 'object') continue;
+    if ('value' in param) {
+      const { value } = param;
+      values[key] = value && typeof value === 'object' ? { ...value } : value;
+    } else if ('schema' in param && param.schema && typeof param.schema === 'object') {
+      schemaValues(param.schema as Record<string, unknown>, values);
+    }
+  }
+  return values;
+}
+
+/**
+ * Define an animation's params from its schema alone: the defaults are the
+ * schema's `value`s, so they can't drift apart, and their type is inferred.
+ *
+ * @example
+ * const params = defineParams({
+ *   ...folder('Colors', { color: color({ value: '#ff0000' }) }),
+ *   speed: number({ value: 1, min: 0.1, max: 5 }),
+ * });
+ * const animation: AnimationDefinition<typeof params.defaults> = { ..., params };
+ */
+export function defineParams<S extends Record<string, unknown>>(schema: S): { defaults: InferParams<S>; schema: S } {
+  return { defaults: schemaValues(schema) as InferParams<S>, schema };
 }
@@ -0,0 +1,83 @@
+/**
+ * Path2D tracking
+ * Native Path2D objects can't be inspected, so vector exporters could never
+ * see their geometry. Installing tracking swaps in a Path2D subclass that
+ * logs its construction and method calls while still drawing natively.
+ *
+ * Must be installed before any animation module creates a Path2D, so it is
+ * imported first in main.tsx.
+ */
+
+/** A recorded Path2D call: constructor input, addPath or a path method */
+export type Path2DCall =
+  | { method: 'svg'; data: string }
+  | { method: 'addPath'; path: Path2D; transform?: DOMMatrix2DInit }
+  | { method: 'moveTo' | 'lineTo' | 'bezierCurveTo' | 'quadraticCurveTo' | 'arc' | 'arcTo' | 'ellipse' | 'rect' | 'roundRect' | 'closePath'; args: unknown[] };
+
+const calls = new WeakMap<Path2D, Path2DCall[]>();
+let installed = false;
+
+/** Path methods whose calls are logged and replayed */
+const PATH_METHODS = [
+  'moveTo',
+  'lineTo',
+  'bezierCurveTo',
+  'quadraticCurveTo',
+  'arc',
+  'arcTo',
+  'ellipse',
+  'rect',
+  'roundRect',
+  'closePath',
+] as const;
+
+/**
+ * Replace the global Path2D with a tracking subclass (idempotent)
+ */
+export function installPath2DTracking(): void {
+  if (installed || typeof Path2D === 'undefined') return;
+  installed = true;
+
+  const NativePath2D = Path2D;
+
+  class TrackedPath2D extends NativePath2D {
+    constructor(path?: Path2D | string) {
+      super(path);
+      const log: Path2DCall[] = [];
+      if (typeof path === 'string') {
+        log.push({ method: 'svg', data: path });
+      } else if (path) {
+        log.push({ method: 'addPath', path });
+      }
+      calls.set(this, log);
+    }
+
+    addPath(path: Path2D, transform?: DOMMatrix2DInit) {
+      super.addPath(path, transform);
+      calls.get(this)?.push({ method: 'addPath', path, transform });
+    }
+  }
+
+  for (const method of PATH_METHODS) {
+    Object.defineProperty(TrackedPath2D.prototype, method, {
+      configurable: true,
+      writable: true,
+      value(this: Path2D, ...args: unknown[]) {
+        (NativePath2D.prototype[method] as (...a: unknown[]) => void).apply(this, args);
+        calls.get(this)?.push({ method, args });
+      },
+    });
+  }
+
+  globalThis.Path2D = TrackedPath2D;
+}
+
+/**
+ * Get the recorded calls for a Path2D, or undefined if it was created
+ * before tracking was installed
+ */
+export function getPath2DCalls(path: Path2D): Path2DCall[] | undefined {
+  return calls.get(path);
+}
+
+installPath2DTracking();
@@ -5,12 +5,32 @@ import type {
   AudioData
 } from './types';
 import { isSimpleAnimation } from './types';
-import { createAudioAnalyzer, generateSyntheticAudioData, type AudioAnalyzer } from './audio';
+import { drawFrame, getProgress } from './frames';
+import {
+  createAudioAnalyzer,
+  generateSyntheticAudioData,
+  openLiveInput,
+  type AudioAnalyzer,
+  type LiveInputOptions,
+} from './audio';
+import { analyzeAudio, decodeAudio, type AudioTrack } from './audio-track';
+import { resolveKeyframes, type KeyframeTracks } from './keyframes';
+import { createInputTracker, type InputState, type InputTracker } from './input';
+import { createRandom, DEFAULT_SEED } from './random';
+import { createSimulation, type Simulation } from './simulation';
+import type { CompositionDefinition } from './composition';
+import { resolveDefinition, type DefinitionResolver, type SequenceDefinition } from './sequencer';
 
 export interface PlayerOptions {
   canvas: HTMLCanvasElement;
-  animation: AnyAnimationDefinition;
+  animation: AnyAnimationDefinition | CompositionDefinition | SequenceDefinition;
+  /** Look up the animations of a composition or sequence by id */
+  resolveAnimation?: DefinitionResolver;
   params?: Record<string, unknown>;
+  /** Keyframed params (default: the animation's keyframes) */
+  keyframes?: KeyframeTracks;
+  /** Seed for `context.random` (default: the animation's seed) */
+  seed?: number;
   onFrame?: (frame: number, time: number) => void;
   /** Enable audio reactivity (provides synthetic data when no audio loaded) */
   audioEnabled?: boolean;
@@ -27,29 +47,59 @@ export interface PlayerControls {
   getTime: () => number;
   getFrame: () => number;
   setParams: (params: Record<string, unknown>) => void;
+  setKeyframes: (keyframes: KeyframeTracks) => void;
+  /** Change the seed; runs setup() again, since its state may be random too */
+  setSeed: (seed: number) => void;
+  /**
+   * Swap in another size or layout of the same animation, such as an output
+   * format from resolveFormat(). Playback, time and audio carry over; fps,
+   * duration and audio settings stay those of the first definition.
+   */
+  setAnimation: (animation: AnyAnimationDefinition | CompositionDefinition | SequenceDefinition) => void;
   // Audio controls
   loadAudio: (file: File | string) => Promise<void>;
+  /** React to a microphone, audio interface or system audio instead of a file */
+  loadLiveInput: (options?: LiveInputOptions) => Promise<void>;
+  /** Stop the file or live input and go back to synthetic data */
+  unloadAudio: () => void;
   isAudioLoaded: () => boolean;
+  isLiveInput: () => boolean;
   getAudioDuration: () => number;
+  /** Input gain before analysis (1 = unchanged) */
+  setInputGain: (gain: number) => void;
+  /** Play the audio through the speakers (on for files, off for live input) */
+  setMonitor: (enabled: boolean) => void;
+  isMonitoring: () => boolean;
+  /** Loaded audio with its precomputed analysis, for exports */
+  getAudioTrack: () => AudioTrack | null;
 }
 
 /**
  * Creates a canvas animation player with HiDPI support,
  * play/pause/seek controls, and FPS throttling.
- * Supports both full AnimationDefinition and SimpleAnimationDefinition formats.
+ * Supports both full AnimationDefinition and SimpleAnimationDefinition formats,
+ * and compositions and sequences, which are resolved into a full definition first.
  */
 export function createPlayer(options: PlayerOptions): PlayerControls {
-  const { canvas, animation, onFrame, audioEnabled = false } = options;
-  const isSimple = isSimpleAnimation(animation);
+  const { canvas, onFrame, audioEnabled = false } = options;
+  const initial = resolveDefinition(options.animation, options.resolveAnimation);
+  const isSimple = isSimpleAnimation(initial);
+  // The definition being drawn; setAnimation() swaps in other sizes of it
+  let animation = initial;
   let params = isSimple ? {} : { ...options.params };
+  let keyframes = isSimple
+    ? undefined
+    : options.keyframes ?? (initial as AnimationDefinition<Record<string, unknown>>).keyframes;
+  let seed = options.seed ?? (isSimple ? undefined : initial.seed) ?? DEFAULT_SEED;
 
   const ctx = canvas.getContext('2d');
   if (!ctx) throw new Error('Could not get 2d context');
   const context = ctx;
 
-  const fps = animation.fps ?? 60;
+  const fps = initial.fps ?? 60;
+  const audioConfig = isSimple ? undefined : initial.audio;
   const frameDuration = 1000 / fps;
-  const durationMs = animation.durationMs ?? (isSimple ? 3000 : undefined);
+  const durationMs = initial.durationMs ?? (isSimple ? 3000 : undefined);
   const durationSec = durationMs ? durationMs / 1000 : Infinity;
 
   let playing = false;
@@ -62,12 +112,14 @@ export function createPlayer(options: PlayerOptions): PlayerControls {
   
   // Audio analyzer
   let audioAnalyzer: AudioAnalyzer | null = null;
+  let audioTrack: AudioTrack | null = null;
   let audioLoaded = false;
+  let inputGain = 1;
 
   // HiDPI setup
   const dpr = window.devicePixelRatio || 1;
-  const width = animation.width ?? 800;
-  const height = animation.height ?? 600;
+  let width = animation.width ?? 800;
+  let height = animation.height ?? 600;
 
   function setupCanvas() {
     canvas.width = width * dpr;
@@ -77,23 +129,37 @@ export function createPlayer(options: PlayerOptions): PlayerControls {
     context.scale(dpr, dpr);
   }
 
+  // Pointer and keyboard input for interactive animations
+  function trackInput(): InputTracker | null {
+    return !isSimpleAnimation(animation) && animation.interactive ? createInputTracker(canvas, width, height) : null;
+  }
+  let inputTracker = trackInput();
+
   function getAudioData(t: number): AudioData | undefined {
     if (!audioEnabled) return undefined;
     
-    if (audioAnalyzer && audioLoaded) {
+    // Look up the precomputed frame for what is being heard
+    if (audioAnalyzer && audioTrack && audioLoaded) {
+      return audioTrack.getData(audioAnalyzer.getTime());
+    }
+    
+    // Live input is analyzed as it arrives
+    if (audioAnalyzer?.isLive() && audioLoaded) {
       return audioAnalyzer.getData();
     }
     
     // Provide synthetic audio data for demo/preview mode
-    return generateSyntheticAudioData(t);
+    return generateSyntheticAudioData(t, audioConfig);
   }
 
-  function createRenderContext(t: number, dt: number): RenderContext {
-    // Calculate progress (0-1) based on time and duration
-    const progress = durationMs 
-      ? Math.min(t / durationSec, 1)
-      : (t % 1); // For infinite animations, loop every second
-    
+  function createRenderContext(
+    t: number,
+    dt: number,
+    input?: InputState,
+    audio: AudioData | undefined = getAudioData(t)
+  ): RenderContext {
+    const progress = getProgress(animation, t);
+    const frame = Math.floor(t * fps);
     return {
       ctx: context,
       time: t,
@@ -102,42 +168,31 @@ export function createPlayer(options: PlayerOptions): PlayerControls {
       width,
       height,
       dpr,
-      params,
-      frame: currentFrame,
-      audio: getAudioData(t),
+      params: resolveKeyframes(params, keyframes, progress),
+      frame,
+      // Reseeding per frame makes restart(), seek() and playback draw a frame the same way
+      random: createRandom(seed, frame),
+      audio,
+      input,
     };
   }
 
-  function clearCanvas() {
-    context.save();
-    context.setTransform(1, 0, 0, 1, 0, 0);
-    if (animation.background) {
-      context.fillStyle = animation.background;
-      context.fillRect(0, 0, canvas.width, canvas.height);
-    } else {
-      context.clearRect(0, 0, canvas.width, canvas.height);
-    }
-    context.restore();
-  }
+  // State from setup(), stepped by update() for stateful animations
+  let state: unknown;
+  let simulation: Simulation<unknown, RenderContext> | null = null;
+  let updateRate = isSimple ? fps : initial.updateRate ?? fps;
 
   function renderFrame(t: number, dt: number) {
-    clearCanvas();
-    context.save();
-    
-    if (isSimple) {
-      // Simple format: calculate progress (0-1) based on time and duration
-      const progress = durationMs 
-        ? Math.min(t / durationSec, 1)
-        : (t % 1); // For infinite animations, loop every second
-      
-      animation.render(context, { width, height, progress });
-    } else {
-      // Full format: pass complete render context
-      const fullAnimation = animation as AnimationDefinition<Record<string, unknown>>;
-      fullAnimation.render(createRenderContext(t, dt));
+    const input = inputTracker?.read();
+    const frameContext = createRenderContext(t, dt, input);
+    if (simulation) {
+      // Loaded and live audio can't be looked up at earlier times, so steps get this frame's
+      const audio = audioLoaded ? frameContext.audio : undefined;
+      state = simulation.stateAt(t, (stepTime) =>
+        createRenderContext(stepTime, 1 / updateRate, input, audio ?? getAudioData(stepTime))
+      );
     }
-    
-    context.restore();
+    drawFrame(animation, frameContext, state);
   }
 
   function tick(timestamp: number) {
@@ -235,33 +290,54 @@ export function createPlayer(options: PlayerOptions): PlayerControls {
     }
   }
 
-  function destroy() {
-    pause();
-    
-    // Clean up audio analyzer
+  function unloadAudio() {
     if (audioAnalyzer) {
       audioAnalyzer.destroy();
       audioAnalyzer = null;
     }
+    audioTrack = null;
     audioLoaded = false;
   }
+
+  function destroy() {
+    pause();
+    
+    // Clean up audio analyzer
+    unloadAudio();
+    inputTracker?.destroy();
+  }
   
-  async function loadAudio(file: File | string): Promise<void> {
-    // Create analyzer if needed
+  // Create analyzer if needed
+  function getAnalyzer(): AudioAnalyzer {
     if (!audioAnalyzer) {
-      audioAnalyzer = createAudioAnalyzer();
+      audioAnalyzer = createAudioAnalyzer(audioConfig);
+      audioAnalyzer.setGain(inputGain);
     }
+    return audioAnalyzer;
+  }
+  
+  async function loadAudio(file: File | string): Promise<void> {
+    const analyzer = getAnalyzer();
     
-    await audioAnalyzer.load(file);
+    // The element plays the sound; analysis comes from the decoded file
+    const [decoded] = await Promise.all([decodeAudio(file), analyzer.load(file)]);
+    audioTrack = analyzeAudio(decoded, { ...audioConfig, fps });
     audioLoaded = true;
     
     // Sync to current playback state
-    audioAnalyzer.seek(currentTime);
+    analyzer.seek(currentTime);
     if (playing) {
-      audioAnalyzer.play();
+      analyzer.play();
     }
   }
   
+  async function loadLiveInput(inputOptions?: LiveInputOptions): Promise<void> {
+    const stream = await openLiveInput(inputOptions);
+    await getAnalyzer().loadStream(stream);
+    audioTrack = null;
+    audioLoaded = true;
+  }
+  
   function isAudioLoaded(): boolean {
     return audioLoaded;
   }
@@ -272,20 +348,54 @@ export function createPlayer(options: PlayerOptions): PlayerControls {
 
   function setParams(newParams: Record<string, unknown>) {
     params = { ...newParams };
+    // Earlier states were simulated with the old params
+    simulation?.invalidate();
     // Re-render current frame with new params
     if (!playing) {
       renderFrame(currentTime, 0);
     }
   }
 
-  // Initialize
-  setupCanvas();
-  if (!isSimple) {
-    const fullAnimation = animation as AnimationDefinition<Record<string, unknown>>;
-    if (fullAnimation.setup) {
-      fullAnimation.setup(createRenderContext(0, 0));
+  function setKeyframes(newKeyframes: KeyframeTracks) {
+    keyframes = newKeyframes;
+    simulation?.invalidate();
+    if (!playing) {
+      renderFrame(currentTime, 0);
+    }
+  }
+
+  /** Run setup() and start the simulation from its state */
+  function setupState() {
+    if (isSimple) return;
+    const fullAnimation = animation as AnimationDefinition<Record<string, unknown>, unknown>;
+    state = fullAnimation.setup?.(createRenderContext(0, 0));
+    simulation = fullAnimation.update ? createSimulation(state, fullAnimation.update, updateRate) : null;
+  }
+
+  function setSeed(newSeed: number) {
+    seed = newSeed;
+    setupState();
+    if (!playing) {
+      renderFrame(currentTime, 0);
     }
   }
+
+  function setAnimation(next: AnyAnimationDefinition | CompositionDefinition | SequenceDefinition) {
+    animation = resolveDefinition(next, options.resolveAnimation);
+    width = animation.width ?? 800;
+    height = animation.height ?? 600;
+    updateRate = isSimpleAnimation(animation) ? fps : animation.updateRate ?? fps;
+    // The tracker maps pointer positions to the old size
+    inputTracker?.destroy();
+    inputTracker = trackInput();
+    setupCanvas();
+    setupState();
+    renderFrame(currentTime, 0);
+  }
+
+  // Initialize
+  setupCanvas();
+  setupState();
   renderFrame(0, 0);
   onFrame?.(0, 0);
 
@@ -300,9 +410,22 @@ export function createPlayer(options: PlayerOptions): PlayerControls {
     getTime: () => currentTime,
     getFrame: () => currentFrame,
     setParams,
+    setKeyframes,
+    setSeed,
+    setAnimation,
     // Audio controls
     loadAudio,
     isAudioLoaded,
+    loadLiveInput,
+    unloadAudio,
+    isLiveInput: () => audioAnalyzer?.isLive() ?? false,
     getAudioDuration,
+    getAudioTrack: () => audioTrack,
+    setInputGain: (gain) => {
+      inputGain = gain;
+      audioAnalyzer?.setGain(gain);
+    },
+    setMonitor: (enabled) => audioAnalyzer?.setMonitor(enabled),
+    isMonitoring: () => audioAnalyzer?.isMonitoring() ?? false,
   };
 }
@@ -0,0 +1,128 @@
+/**
+ * Seeded randomness
+ * A small PRNG and noise functions derived from an animation's seed. The
+ * player and exporters pass one to render as `context.random`, reseeded
+ * from the seed and frame number every frame, so a frame draws the same
+ * way on every run, after a seek or restart, and in exports. Noise only
+ * depends on the seed, so it is continuous across frames.
+ *
+ * @example
+ * render({ ctx, random, time, width, height }) {
+ *   const x = random.range(0, width);
+ *   const y = height / 2 + random.simplex(x * 0.01, time) * 100;
+ * }
+ */
+
+import { lerp } from './easing';
+
+export interface Random {
+  /** Seed the generator and its noise were created from */
+  readonly seed: number;
+  /** Next number from 0 (inclusive) to 1 (exclusive), like Math.random() */
+  next: () => number;
+  /** Number from min (inclusive) to max (exclusive) */
+  range: (min: number, max: number) => number;
+  /** Integer from min to max, both inclusive */
+  int: (min: number, max: number) => number;
+  /** Element of a non-empty array */
+  pick: <T>(items: readonly T[]) => T;
+  /** Smooth value noise from -1 to 1, varying once per unit */
+  value: (x: number, y?: number) => number;
+  /** 2D simplex noise from -1 to 1, with fewer grid artifacts than value noise */
+  simplex: (x: number, y?: number) => number;
+}
+
+/** Seed used when an animation doesn't set one */
+export const DEFAULT_SEED = 1;
+
+/** Mix integers into a well-distributed 32-bit hash (murmur3 finalizer) */
+function hash(a: number, b = 0, c = 0): number {
+  let h = Math.imul(a ^ 0x9e3779b9, 0x85ebca6b);
+  h = Math.imul(h ^ b ^ (h >>> 15), 0xc2b2ae35);
+  h = Math.imul(h ^ c ^ (h >>> 13), 0x27d4eb2f);
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  return h >>> 0;
+}
+
+/** mulberry32: fast, 32 bits of state, good enough for visuals */
+function createGenerator(state: number): () => number {
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const fade = (t: number) => t * t * t * (t * (t * 6 - 15) + 10);
+
+/** Gradient directions for simplex noise */
+const GRADIENTS = [
+  [1, 1], [-1, 1], [1, -1], [-1, -1],
+  [1, 0], [-1, 0], [0, 1], [0, -1],
+];
+const F2 = (Math.sqrt(3) - 1) / 2;
+const G2 = (3 - Math.sqrt(3)) / 6;
+
+/**
+ * Create a generator for a seed. `stream` picks an independent sequence
+ * for the same seed; the runtime passes the frame number.
+ */
+export function createRandom(seed: number, stream = 0): Random {
+  const key = Math.floor(seed) | 0;
+  const next = createGenerator(hash(key, Math.floor(stream) | 0, 1));
+  const lattice = (x: number, y: number) => hash(key, x, y) / 2147483648 - 1;
+  const gradient = (x: number, y: number) => GRADIENTS[hash(key, x, y) & 7];
+
+  return {
+    seed,
+    next,
+    range: (min, max) => min + (max - min) * next(),
+    int: (min, max) => min + Math.floor((max - min + 1) * next()),
+    pick: (items) => items[Math.floor(items.length * next())],
+    value(x, y = 0) {
+      const x0 = Math.floor(x);
+      const y0 = Math.floor(y);
+      const tx = fade(x - x0);
+      const ty = fade(y - y0);
+      return lerp(
+        lerp(lattice(x0, y0), lattice(x0 + 1, y0), tx),
+        lerp(lattice(x0, y0 + 1), lattice(x0 + 1, y0 + 1), tx),
+        ty
+      );
+    },
+    simplex(x, y = 0) {
+      // Skew to the simplex grid and find the containing triangle
+      const s = (x + y) * F2;
+      const i = Math.floor(x + s);
+      const j = Math.floor(y + s);
+      const t = (i + j) * G2;
+      const x0 = x - (i - t);
+      const y0 = y - (j - t);
+      const i1 = x0 > y0 ? 1 : 0;
+      const j1 = 1 - i1;
+      const corners = [
+        [x0, y0, i, j],
+        [x0 - i1 + G2, y0 - j1 + G2, i + i1, j + j1],
+        [x0 - 1 + 2 * G2, y0 - 1 + 2 * G2, i + 1, j + 1],
+      ];
+
+      let total = 0;
+      for (const [dx, dy, ci, cj] of corners) {
+        const falloff = 0.5 - dx * dx - dy * dy;
+        if (falloff <= 0) continue;
+        const [gx, gy] = gradient(ci, cj);
+        total += falloff ** 4 * (gx * dx + gy * dy);
+      }
+      // Scale the peak contribution to about 1
+      return Math.max(-1, Math.min(1, 70 * total));
+    },
+  };
+}
+
+/** A new seed for re-rolling, small enough to read and type */
+export function rollSeed(): number {
+  return Math.floor(Math.random() * 1_000_000);
+}
@@ -0,0 +1,306 @@
+/**
+ * Sequences
+ * A sequence plays animations back-to-back as clips, each with its own
+ * length, loops and params, joined by cut, crossfade, wipe or slide
+ * transitions. resolveSequence turns it into a regular AnimationDefinition,
+ * so it plays, scrubs and exports like any other animation.
+ *
+ * @example
+ * const reel: SequenceDefinition = {
+ *   id: 'logo-reel',
+ *   name: 'Logo Reel',
+ *   clips: [
+ *     { animation: 'figma-logo' },
+ *     { animation: 'framer-logo', loops: 2, transition: { type: 'crossfade' } },
+ *     { animation: 'slack-logo', durationMs: 3000, transition: { type: 'slide', direction: 'up' } },
+ *   ],
+ * };
+ */
+
+import type { AnimationDefinition, AnyAnimationDefinition, RenderContext } from './types';
+import { getLoopDurationMs } from './frames';
+import { easeInOutCubic, type Easing } from './easing';
+import {
+  createNestedAnimation,
+  isComposition,
+  isFiniteAnimation,
+  renderNestedAnimation,
+  resolveComposition,
+  setupNestedAnimation,
+  type AnimationResolver,
+  type CompositionDefinition,
+  type NestedAnimation,
+} from './composition';
+
+export type TransitionType = 'cut' | 'crossfade' | 'wipe' | 'slide';
+
+export type TransitionDirection = 'left' | 'right' | 'up' | 'down';
+
+export interface SequenceTransition {
+  type: TransitionType;
+  /** Overlap with the previous clip in milliseconds (default: 500, 0 for cuts) */
+  durationMs?: number;
+  /** Direction the wipe edge or the slide moves (default: 'right' for wipes, 'left' for slides) */
+  direction?: TransitionDirection;
+  /** Curve of the transition (default: easeInOutCubic) */
+  easing?: Easing;
+}
+
+export interface SequenceClip {
+  /** Registered animation id, or an imported definition */
+  animation: string | AnyAnimationDefinition | CompositionDefinition;
+  /** Number of loops to play (default: 1) */
+  loops?: number;
+  /** Clip length in milliseconds, overriding loops; the animation repeats to fill it */
+  durationMs?: number;
+  /** Param overrides, merged over the animation's defaults */
+  params?: Record<string, unknown>;
+  /** Transition from the previous clip (default: cut) */
+  transition?: SequenceTransition;
+}
+
+/** Animations played one after another */
+export interface SequenceDefinition {
+  /** Unique identifier for the sequence */
+  id: string;
+  /** Display name */
+  name: string;
+  /** Target frames per second (default: 60) */
+  fps?: number;
+  /** Background color shown around clips of a different aspect (default: '#000000') */
+  background?: string;
+  /** Canvas width (default: the first clip's width) */
+  width?: number;
+  /** Canvas height (default: the first clip's height) */
+  height?: number;
+  clips: SequenceClip[];
+}
+
+/** A clip with its animation resolved and its place on the timeline */
+interface TimedClip {
+  clip: SequenceClip;
+  animation: AnyAnimationDefinition;
+  /** Start and end in seconds */
+  start: number;
+  end: number;
+  /** Length of the transition into this clip, in seconds */
+  transition: number;
+}
+
+/** A clip prepared for one run: setup() makes these, so runs don't share clip state */
+type PlayingClip = TimedClip & NestedAnimation;
+
+/** Look up an animation, composition or sequence by registered id */
+export type DefinitionResolver = (
+  id: string
+) => AnyAnimationDefinition | CompositionDefinition | SequenceDefinition | undefined;
+
+const DEFAULT_TRANSITION_MS = 500;
+
+/** Type guard for sequence definitions */
+export function isSequence(value: unknown): value is SequenceDefinition {
+  return typeof value === 'object' && value !== null
+    && Array.isArray((value as { clips?: unknown }).clips)
+    && !('render' in value);
+}
+
+/** Length of a clip in seconds */
+function getClipDuration(clip: SequenceClip, animation: AnyAnimationDefinition): number {
+  if (clip.durationMs !== undefined) return clip.durationMs / 1000;
+  return (getLoopDurationMs(animation) / 1000) * Math.max(1, clip.loops ?? 1);
+}
+
+/** Lay clips out on the timeline; transitions overlap the previous clip */
+function layoutClips(clips: { clip: SequenceClip; animation: AnyAnimationDefinition }[]): TimedClip[] {
+  const timed: TimedClip[] = [];
+  let cursor = 0;
+  for (const [index, { clip, animation }] of clips.entries()) {
+    const duration = getClipDuration(clip, animation);
+    const previous = timed[index - 1];
+    const type = clip.transition?.type ?? 'cut';
+    const requested = type === 'cut' ? 0 : (clip.transition?.durationMs ?? DEFAULT_TRANSITION_MS) / 1000;
+    const transition = previous
+      ? Math.min(requested, duration, previous.end - previous.start - previous.transition)
+      : 0;
+    const start = cursor - transition;
+    timed.push({ clip, animation, start, end: start + duration, transition });
+    cursor = start + duration;
+  }
+  return timed;
+}
+
+/** Clip time in seconds for a sequence time; clips repeat to fill their length */
+function getClipTime(timed: TimedClip, time: number): number {
+  const local = Math.min(Math.max(0, time - timed.start), timed.end - timed.start);
+  if (!isFiniteAnimation(timed.animation)) return local;
+  const loop = getLoopDurationMs(timed.animation) / 1000;
+  // End a loop on its last frame rather than wrapping back to the first
+  const wrapped = local % loop;
+  return wrapped === 0 && local > 0 ? loop : wrapped;
+}
+
+interface ClipPlacement {
+  opacity?: number;
+  /** Offset in sequence pixels */
+  offsetX?: number;
+  offsetY?: number;
+  /** Visible area in sequence pixels: x, y, width, height */
+  reveal?: [number, number, number, number];
+}
+
+function drawClip(
+  timed: PlayingClip,
+  context: RenderContext,
+  width: number,
+  height: number,
+  placement: ClipPlacement = {}
+) {
+  const { ctx } = context;
+  const clipWidth = timed.animation.width ?? 800;
+  const clipHeight = timed.animation.height ?? 600;
+  // Fit the clip inside the sequence, centered
+  const scale = Math.min(width / clipWidth, height / clipHeight);
+
+  ctx.save();
+  if (placement.reveal) {
+    ctx.beginPath();
+    ctx.rect(...placement.reveal);
+    ctx.clip();
+  }
+  ctx.translate(
+    (width - clipWidth * scale) / 2 + (placement.offsetX ?? 0),
+    (height - clipHeight * scale) / 2 + (placement.offsetY ?? 0)
+  );
+  ctx.scale(scale, scale);
+  renderNestedAnimation(timed, { ...context, dpr: context.dpr * scale }, getClipTime(timed, context.time), {
+    opacity: placement.opacity,
+    background: true,
+  });
+  ctx.restore();
+}
+
+/** Draw the outgoing and incoming clip part-way through a transition */
+function drawTransition(
+  outgoing: PlayingClip,
+  incoming: PlayingClip,
+  context: RenderContext,
+  width: number,
+  height: number
+) {
+  const transition = incoming.clip.transition!;
+  const ease = transition.easing ?? easeInOutCubic;
+  const t = ease(Math.min(1, Math.max(0, (context.time - incoming.start) / incoming.transition)));
+
+  if (transition.type === 'slide') {
+    const direction = transition.direction ?? 'left';
+    const [dx, dy] = {
+      left: [-width, 0],
+      right: [width, 0],
+      up: [0, -height],
+      down: [0, height],
+    }[direction];
+    drawClip(outgoing, context, width, height, { offsetX: dx * t, offsetY: dy * t });
+    drawClip(incoming, context, width, height, { offsetX: -dx * (1 - t), offsetY: -dy * (1 - t) });
+    return;
+  }
+
+  drawClip(outgoing, context, width, height);
+  if (transition.type === 'wipe') {
+    const reveal: Record<TransitionDirection, [number, number, number, number]> = {
+      right: [0, 0, width * t, height],
+      left: [width * (1 - t), 0, width * t, height],
+      down: [0, 0, width, height * t],
+      up: [0, height * (1 - t), width, height * t],
+    };
+    drawClip(incoming, context, width, height, { reveal: reveal[transition.direction ?? 'right'] });
+  } else {
+    drawClip(incoming, context, width, height, { opacity: t });
+  }
+}
+
+/**
+ * Resolve a sequence's clips and return an AnimationDefinition that plays
+ * them. Throws if a clip id can't be resolved or sequences nest in a cycle.
+ */
+export function resolveSequence(
+  sequence: SequenceDefinition,
+  resolve?: AnimationResolver,
+  resolving: string[] = []
+): AnimationDefinition<Record<string, unknown>, unknown> {
+  if (resolving.includes(sequence.id)) {
+    throw new Error(`Sequence cycle: ${[...resolving, sequence.id].join(' -> ')}`);
+  }
+  if (sequence.clips.length === 0) {
+    throw new Error(`Sequence "${sequence.id}" has no clips`);
+  }
+  const path = [...resolving, sequence.id];
+
+  const clips = layoutClips(sequence.clips.map((clip) => {
+    const found = typeof clip.animation === 'string' ? resolve?.(clip.animation) : clip.animation;
+    if (!found) {
+      throw new Error(`Unknown animation "${clip.animation}" in sequence "${sequence.id}"`);
+    }
+    const animation = isComposition(found) ? resolveComposition(found, resolve, path) : found;
+    return { clip, animation };
+  }));
+
+  const width = sequence.width ?? clips[0].animation.width ?? 800;
+  const height = sequence.height ?? clips[0].animation.height ?? 600;
+  const end = clips[clips.length - 1].end;
+
+  const definition: AnimationDefinition<Record<string, unknown>, PlayingClip[]> = {
+    id: sequence.id,
+    name: sequence.name,
+    fps: sequence.fps,
+    durationMs: Math.round(end * 1000),
+    background: sequence.background ?? '#000000',
+    width,
+    height,
+    params: { defaults: {}, schema: {} },
+    // The definition is shared by every player and export, so clip state lives in each run's state
+    setup(context) {
+      return clips.map((timed) => {
+        const playing = { ...timed, ...createNestedAnimation(timed.animation, timed.clip.params) };
+        setupNestedAnimation(playing, context);
+        return playing;
+      });
+    },
+    render(context, playing) {
+      const time = Math.min(context.time, end);
+      let index = 0;
+      while (index < playing.length - 1 && time >= playing[index + 1].start) index++;
+      const current = playing[index];
+      const previous = playing[index - 1];
+      const frameContext = { ...context, time };
+
+      if (previous && time < current.start + current.transition) {
+        drawTransition(previous, current, frameContext, width, height);
+      } else {
+        drawClip(current, frameContext, width, height);
+      }
+    },
+  };
+  return definition;
+}
+
+/**
+ * Resolve compositions and sequences into a playable AnimationDefinition;
+ * other definitions are returned as they are. Layers and clips found
+ * through `resolve` are resolved the same way.
+ */
+export function resolveDefinition(
+  definition: AnyAnimationDefinition | CompositionDefinition | SequenceDefinition,
+  resolve?: DefinitionResolver,
+  resolving: string[] = []
+): AnyAnimationDefinition {
+  if (!isComposition(definition) && !isSequence(definition)) return definition;
+
+  const path = [...resolving, definition.id];
+  const lookup: AnimationResolver = (id) => {
+    const found = resolve?.(id);
+    return found && resolveDefinition(found, resolve, path);
+  };
+  return isComposition(definition)
+    ? resolveComposition(definition, lookup, resolving)
+    : resolveSequence(definition, lookup, resolving);
+}
@@ -0,0 +1,85 @@
+/**
+ * Fixed-timestep simulation
+ * Steps a stateful animation's update() at a fixed rate, so the state at
+ * a given time is the same however it was reached: played, scrubbed or
+ * exported at a different fps. The state returned by setup() is
+ * snapshotted periodically, so seeking re-simulates from the nearest
+ * snapshot instead of from the start.
+ *
+ * State must be structured-cloneable (plain objects, arrays, typed
+ * arrays, Maps, Sets), since snapshots are copies.
+ *
+ * @example
+ * const simulation = createSimulation(setup(context), update, 60);
+ * render(context, simulation.stateAt(context.time, contextAt));
+ */
+
+export interface Simulation<S, C> {
+  /**
+   * State after every step up to `time` in seconds. Going back in time
+   * restores the nearest earlier snapshot and steps forward from it.
+   * `contextAt` builds the context passed to update() for a step time.
+   */
+  stateAt: (time: number, contextAt: (time: number) => C) => S;
+  /** Drop snapshots after the start, e.g. when params change */
+  invalidate: () => void;
+}
+
+/** Snapshots kept before older ones are thinned out */
+const SNAPSHOT_LIMIT = 64;
+
+/**
+ * Create a simulation starting from `initialState`. `update` may change
+ * the state in place or return a new one. The first snapshot is taken
+ * every second of animation time; the interval doubles whenever the
+ * limit is reached, so long-running animations use bounded memory.
+ */
+export function createSimulation<S, C>(
+  initialState: S,
+  update: (state: S, dt: number, context: C) => S | void,
+  stepsPerSecond: number
+): Simulation<S, C> {
+  const dt = 1 / stepsPerSecond;
+  let interval = Math.max(1, Math.round(stepsPerSecond));
+  let snapshots = [{ step: 0, state: structuredClone(initialState) }];
+  let state = initialState;
+  let step = 0;
+
+  const restore = (target: number) => {
+    let snapshot = snapshots[0];
+    for (const candidate of snapshots) {
+      if (candidate.step > target) break;
+      snapshot = candidate;
+    }
+    // A later snapshot than the current step saves re-running those steps too
+    if (target < step || snapshot.step > step) {
+      state = structuredClone(snapshot.state);
+      step = snapshot.step;
+    }
+  };
+
+  return {
+    stateAt(time, contextAt) {
+      // Tolerate float error in times computed as frame / fps
+      const target = Math.max(0, Math.floor(time * stepsPerSecond + 1e-6));
+      restore(target);
+
+      while (step < target) {
+        state = update(state, dt, contextAt(step * dt)) ?? state;
+        step++;
+
+        if (step % interval === 0 && step > snapshots[snapshots.length - 1].step) {
+          snapshots.push({ step, state: structuredClone(state) });
+          if (snapshots.length > SNAPSHOT_LIMIT) {
+            interval *= 2;
+            snapshots = snapshots.filter((snapshot) => snapshot.step % interval === 0);
+          }
+        }
+      }
+      return state;
+    },
+    invalidate() {
+      snapshots = snapshots.slice(0, 1);
+    },
+  };
+}
@@ -0,0 +1,457 @@
+/**
+ * Simple Format export
+ * Transpiles an animation's TypeScript source with the TypeScript compiler
+ * and writes a standalone `function render(ctx, { width, height, progress })`
+ * for the external canvas code editor. Only the top-level helpers the
+ * render (and setup) functions reach are included.
+ *
+ * Runs in Node (the dev server's /api/simple-format endpoint and
+ * scripts/check-simple-format.ts). Production builds have no dev server,
+ * so ExportPanel loads this module, and with it the compiler, on demand.
+ */
+
+import type * as TS from 'typescript';
+import type { AnimationDefinition, AnyAnimationDefinition } from './types';
+import { isSimpleAnimation } from './types';
+import { hasKeyframes } from './keyframes';
+import { DEFAULT_SEED } from './random';
+
+type TypeScript = typeof TS;
+
+export interface ExternalEditorOptions {
+  /**
+   * Return the source of an imported module, so helpers imported from it
+   * can be inlined. Imports that can't be resolved are listed in a comment.
+   */
+  resolveImport?: (specifier: string) => string | undefined;
+}
+
+/** A top-level statement of a module, with the top-level names it uses */
+interface TopLevelDeclaration {
+  names: string[];
+  text: string;
+  uses: Set<string>;
+  /** let/var declarations hold state that must persist between frames */
+  stateful: boolean;
+}
+
+interface ImportBinding {
+  specifier: string;
+  /** Exported name, or 'default' */
+  imported: string;
+}
+
+interface ParsedModule {
+  declarations: TopLevelDeclaration[];
+  imports: Map<string, ImportBinding>;
+  /** Exported name -> local name */
+  exports: Map<string, string>;
+  /** The animation definition object, if the module has one */
+  animation?: TS.ObjectLiteralExpression;
+  sourceFile: TS.SourceFile;
+  /** Specifier the module was imported with, for resolving its relative imports */
+  specifier?: string;
+}
+
+let loading: Promise<TypeScript> | null = null;
+
+/** Load the TypeScript compiler (cached) */
+export function loadTypeScript(): Promise<TypeScript> {
+  loading ??= import('typescript').then((mod) => ('default' in mod ? mod.default : mod) as TypeScript);
+  return loading;
+}
+
+function transpile(ts: TypeScript, source: string): string {
+  return ts.transpileModule(source, {
+    compilerOptions: {
+      target: ts.ScriptTarget.ES2020,
+      module: ts.ModuleKind.ESNext,
+    },
+  }).outputText;
+}
+
+/** Collect identifiers referenced inside a node */
+function collectUses(ts: TypeScript, node: TS.Node): Set<string> {
+  const uses = new Set<string>();
+  const visit = (child: TS.Node, shadowed: ReadonlySet<string>) => {
+    // A function's parameters hide top-level names in its body, e.g.
+    // render({ params }) next to `const params = defineParams(...)`
+    if (ts.isFunctionLike(child) && child.parameters.length) {
+      shadowed = new Set([...shadowed, ...child.parameters.flatMap((p) => bindingNames(ts, p.name))]);
+    }
+    if (ts.isIdentifier(child) && !shadowed.has(child.text)) {
+      const parent = child.parent;
+      const isPropertyName =
+        (ts.isPropertyAccessExpression(parent) && parent.name === child)
+        || (ts.isPropertyAssignment(parent) && parent.name === child)
+        || (ts.isMethodDeclaration(parent) && parent.name === child);
+      if (!isPropertyName) uses.add(child.text);
+    }
+    ts.forEachChild(child, (grandchild) => visit(grandchild, shadowed));
+  };
+  visit(node, new Set());
+  return uses;
+}
+
+function bindingNames(ts: TypeScript, name: TS.BindingName): string[] {
+  if (ts.isIdentifier(name)) return [name.text];
+  return name.elements.flatMap((element) =>
+    ts.isOmittedExpression(element) ? [] : bindingNames(ts, element.name)
+  );
+}
+
+function hasModifier(ts: TypeScript, node: TS.Node, kind: TS.SyntaxKind): boolean {
+  return ts.canHaveModifiers(node) && (ts.getModifiers(node)?.some((m) => m.kind === kind) ?? false);
+}
+
+/** Statement text without export/default modifiers */
+function statementText(ts: TypeScript, statement: TS.Statement, sourceFile: TS.SourceFile): string {
+  const modifiers = ts.canHaveModifiers(statement) ? ts.getModifiers(statement) : undefined;
+  const exported = modifiers?.filter(
+    (m) => m.kind === ts.SyntaxKind.ExportKeyword || m.kind === ts.SyntaxKind.DefaultKeyword
+  );
+  if (!exported?.length) return statement.getText(sourceFile);
+  return sourceFile.text.slice(exported[exported.length - 1].end, statement.end).trim();
+}
+
+/** Whether an object literal looks like an animation definition */
+function isAnimationObject(ts: TypeScript, node: TS.Expression | undefined): node is TS.ObjectLiteralExpression {
+  return !!node && ts.isObjectLiteralExpression(node) && node.properties.some(
+    (p) => p.name && ts.isIdentifier(p.name) && p.name.text === 'render'
+  );
+}
+
+/** Unwrap parentheses left over from `x as T` in the JS output */
+function unwrap(ts: TypeScript, node: TS.Expression | undefined): TS.Expression | undefined {
+  while (node && ts.isParenthesizedExpression(node)) node = node.expression;
+  return node;
+}
+
+function parseModule(ts: TypeScript, source: string): ParsedModule {
+  const js = transpile(ts, source);
+  const sourceFile = ts.createSourceFile('module.js', js, ts.ScriptTarget.ES2020, true);
+  const declarations: TopLevelDeclaration[] = [];
+  const imports = new Map<string, ImportBinding>();
+  const exports = new Map<string, string>();
+  const objects = new Map<string, TS.ObjectLiteralExpression>();
+  let animation: TS.ObjectLiteralExpression | undefined;
+
+  for (const statement of sourceFile.statements) {
+    if (ts.isImportDeclaration(statement)) {
+      const specifier = (statement.moduleSpecifier as TS.StringLiteral).text;
+      const clause = statement.importClause;
+      if (clause?.name) imports.set(clause.name.text, { specifier, imported: 'default' });
+      const bindings = clause?.namedBindings;
+      if (bindings && ts.isNamedImports(bindings)) {
+        for (const element of bindings.elements) {
+          imports.set(element.name.text, {
+            specifier,
+            imported: (element.propertyName ?? element.name).text,
+          });
+        }
+      }
+      continue;
+    }
+
+    if (ts.isExportAssignment(statement)) {
+      const expression = unwrap(ts, statement.expression);
+      if (expression && ts.isIdentifier(expression)) {
+        exports.set('default', expression.text);
+      } else if (isAnimationObject(ts, expression)) {
+        animation = expression;
+      }
+      continue;
+    }
+
+    const exported = hasModifier(ts, statement, ts.SyntaxKind.ExportKeyword);
+
+    if (ts.isVariableStatement(statement)) {
+      const names = statement.declarationList.declarations.flatMap((d) => bindingNames(ts, d.name));
+      const isAnimation = statement.declarationList.declarations.some((d) => {
+        const initializer = unwrap(ts, d.initializer);
+        if (isAnimationObject(ts, initializer) && ts.isIdentifier(d.name)) {
+          objects.set(d.name.text, initializer);
+          return true;
+        }
+        return false;
+      });
+      if (exported) names.forEach((name) => exports.set(name, name));
+      if (isAnimation) continue;
+
+      declarations.push({
+        names,
+        text: statementText(ts, statement, sourceFile),
+        uses: collectUses(ts, statement),
+        stateful: !(statement.declarationList.flags & ts.NodeFlags.Const),
+      });
+      continue;
+    }
+
+    if (
+      (ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement))
+      && statement.name
+    ) {
+      if (exported) {
+        const isDefault = hasModifier(ts, statement, ts.SyntaxKind.DefaultKeyword);
+        exports.set(isDefault ? 'default' : statement.name.text, statement.name.text);
+      }
+      declarations.push({
+        names: [statement.name.text],
+        text: statementText(ts, statement, sourceFile),
+        uses: collectUses(ts, statement),
+        stateful: false,
+      });
+    }
+  }
+
+  // Prefer the default export; fall back to any animation-like object
+  const defaultName = exports.get('default');
+  animation ??= (defaultName && objects.get(defaultName)) || [...objects.values()][0];
+
+  return { declarations, imports, exports, animation, sourceFile };
+}
+
+/** Resolve a relative import against the specifier of the importing module */
+function resolveSpecifier(from: string | undefined, specifier: string): string {
+  if (!from || !specifier.startsWith('.')) return specifier;
+  const parts = from.split('/').slice(0, -1);
+  for (const part of specifier.split('/')) {
+    if (part === '..' && parts.length && parts[parts.length - 1] !== '..') parts.pop();
+    else if (part !== '.') parts.push(part);
+  }
+  return parts.join('/');
+}
+
+/** Get a function expression for a property of the animation object */
+function propertyFunction(
+  ts: TypeScript,
+  animation: TS.ObjectLiteralExpression,
+  name: string,
+  sourceFile: TS.SourceFile
+): { text: string; node: TS.Node } | undefined {
+  for (const property of animation.properties) {
+    if (!property.name || !ts.isIdentifier(property.name) || property.name.text !== name) continue;
+    if (ts.isMethodDeclaration(property)) {
+      // `render({ ctx }) { ... }` -> `function ({ ctx }) { ... }`
+      const rest = sourceFile.text.slice(property.name.end, property.end);
+      return { text: `function${rest}`, node: property };
+    }
+    if (ts.isPropertyAssignment(property)) {
+      return { text: property.initializer.getText(sourceFile), node: property.initializer };
+    }
+    if (ts.isShorthandPropertyAssignment(property)) {
+      return { text: property.name.text, node: property };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Collect the declarations reachable from a set of names, following
+ * imports into modules the resolver can provide
+ */
+function collectDeclarations(
+  ts: TypeScript,
+  module: ParsedModule,
+  roots: Set<string>,
+  options: ExternalEditorOptions,
+  unresolved: Set<string>,
+  visited = new Set<string>()
+): TopLevelDeclaration[] {
+  const included = new Set<TopLevelDeclaration>();
+  const imported: TopLevelDeclaration[] = [];
+  const queue = [...roots];
+
+  while (queue.length) {
+    const name = queue.shift()!;
+    const declaration = module.declarations.find((d) => d.names.includes(name));
+    if (declaration) {
+      if (included.has(declaration)) continue;
+      included.add(declaration);
+      queue.push(...declaration.uses);
+      continue;
+    }
+
+    const binding = module.imports.get(name);
+    if (!binding) continue;
+    const specifier = resolveSpecifier(module.specifier, binding.specifier);
+    const key = `${specifier}:${binding.imported}:${name}`;
+    if (visited.has(key)) continue;
+    visited.add(key);
+
+    const source = options.resolveImport?.(specifier);
+    if (!source) {
+      unresolved.add(`${name} from '${binding.specifier}'`);
+      continue;
+    }
+    const dependency = { ...parseModule(ts, source), specifier };
+    const local = dependency.exports.get(binding.imported) ?? binding.imported;
+    const inlined = collectDeclarations(ts, dependency, new Set([local]), options, unresolved, visited);
+    imported.push(...inlined);
+    if (local !== name) {
+      imported.push({ names: [name], text: `const ${name} = ${local};`, uses: new Set([local]), stateful: false });
+    }
+  }
+
+  // Keep source order so declarations are defined before use
+  return [...imported, ...module.declarations.filter((d) => included.has(d))];
+}
+
+function formatValue(value: unknown): string {
+  return JSON.stringify(value);
+}
+
+function formatKey(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+}
+
+function indent(text: string, spaces = 2): string {
+  const pad = ' '.repeat(spaces);
+  return text
+    .split('\n')
+    .map((line) => (line.trim() ? pad + line : line))
+    .join('\n');
+}
+
+/**
+ * Generate code in the external canvas animation code editor format.
+ * Returns a render function: function render(ctx, { width, height, progress }) { ... }
+ * that draws the same frames as toSimpleAnimation() with the given params.
+ */
+export async function generateExternalEditorCode(
+  animation: AnyAnimationDefinition,
+  currentParams: Record<string, unknown>,
+  sourceCode: string,
+  options: ExternalEditorOptions = {}
+): Promise<string> {
+  const ts = await loadTypeScript();
+  const module = parseModule(ts, sourceCode);
+  if (!module.animation) {
+    throw new Error('Could not find an animation definition with a render function in the source');
+  }
+
+  const { sourceFile } = module;
+  const render = propertyFunction(ts, module.animation, 'render', sourceFile);
+  if (!render) throw new Error('Could not find the render function');
+  const setup = propertyFunction(ts, module.animation, 'setup', sourceFile);
+  const update = propertyFunction(ts, module.animation, 'update', sourceFile);
+
+  const roots = new Set([
+    ...collectUses(ts, render.node),
+    ...(setup ? collectUses(ts, setup.node) : []),
+    ...(update ? collectUses(ts, update.node) : []),
+  ]);
+  const unresolved = new Set<string>();
+  const declarations = collectDeclarations(ts, module, roots, options, unresolved);
+
+  const simple = isSimpleAnimation(animation);
+  const full = animation as AnimationDefinition<Record<string, unknown>>;
+  const params = simple ? {} : { ...full.params.defaults, ...currentParams };
+
+  /** Inline a runtime helper the generated code calls, with what it uses */
+  const inlineRuntime = (specifier: string, name: string) => {
+    const runtimeSource = options.resolveImport?.(specifier);
+    if (runtimeSource) {
+      const runtimeModule = { ...parseModule(ts, runtimeSource), specifier };
+      declarations.unshift(...collectDeclarations(ts, runtimeModule, new Set([name]), options, unresolved));
+    } else {
+      unresolved.add(`${name} from '${specifier}'`);
+    }
+  };
+
+  // Keyframed params are resolved with the runtime's own helper
+  const keyframes = simple || !hasKeyframes(full.keyframes) ? undefined : full.keyframes;
+  if (keyframes) inlineRuntime('../runtime/keyframes', 'resolveKeyframes');
+
+  // Stateful animations step their state with the runtime's simulation
+  if (update) inlineRuntime('../runtime/simulation', 'createSimulation');
+
+  // `context.random` is only built when used; Math.random() calls don't count
+  const random = !simple && [render, setup, update].some((fn) => fn && /\brandom\b(?!\s*\()/.test(fn.text));
+  if (random) inlineRuntime('../runtime/random', 'createRandom');
+  const seed = full.seed ?? DEFAULT_SEED;
+
+  // Helpers shared by several imports (e.g. easeOutBounce) are reached more than once
+  const helpers = [...new Set(declarations.map((d) => d.text))].join('\n\n');
+  // Module state must outlive a single render call, so hoist everything
+  const hoist = !!setup || !!update || declarations.some((d) => d.stateful);
+  const fps = animation.fps ?? 60;
+  const durationSec = animation.durationMs ? animation.durationMs / 1000 : 1;
+
+  const header = [
+    `// ${animation.name || 'Animation'}`,
+    `// fps: ${fps}, duration: ${animation.durationMs ?? (simple ? 3000 : 'infinite')}${animation.durationMs ? 'ms' : ''}, size: ${animation.width ?? 800}x${animation.height ?? 600}${animation.background ? `, background: ${animation.background}` : ''}`,
+    ...[...unresolved].map((name) => `// Unresolved import: ${name}`),
+  ];
+
+  const body: string[] = [];
+  if (!simple) {
+    const paramLines = Object.entries(params).map(([key, value]) => `  ${formatKey(key)}: ${formatValue(value)},`);
+    body.push('// Parameters', `const paramValues = {\n${paramLines.join('\n')}\n};`, '');
+    if (keyframes) {
+      body.push('// Keyframed parameters', `const keyframeTracks = ${JSON.stringify(keyframes, null, 2)};`, '');
+    }
+  }
+  if (helpers && !hoist) body.push('// Data and helpers', helpers, '');
+  body.push(`const animationRender = ${render.text};`, '');
+
+  if (simple) {
+    body.push('animationRender(ctx, { width, height, progress });');
+  } else {
+    body.push(
+      `const animationTime = progress * ${durationSec};`,
+      'const renderContext = {',
+      '  ctx,',
+      '  time: animationTime,',
+      '  progress,',
+      '  deltaTime: 0,',
+      '  width,',
+      '  height,',
+      '  dpr: 1,',
+      keyframes
+        ? '  params: resolveKeyframes(paramValues, keyframeTracks, progress),'
+        : '  params: paramValues,',
+      `  frame: Math.floor(animationTime * ${fps}),`,
+      '};'
+    );
+    if (random) body.push(`renderContext.random = createRandom(${seed}, renderContext.frame);`);
+    if (setup || update) {
+      body.push(
+        'if (!setupDone) {',
+        '  setupDone = true;',
+        ...(setup ? [`  animationState = (${setup.text})(renderContext);`] : []),
+        ...(update
+          ? [`  simulation = createSimulation(animationState, ${update.text}, ${full.updateRate ?? fps});`]
+          : []),
+        '}'
+      );
+    }
+    if (update) {
+      const stepProgress = `time / ${durationSec}`;
+      body.push(
+        'animationState = simulation.stateAt(animationTime, (time) => ({',
+        '  ...renderContext,',
+        '  time,',
+        `  progress: ${stepProgress},`,
+        keyframes
+          ? `  params: resolveKeyframes(paramValues, keyframeTracks, ${stepProgress}),`
+          : '  params: paramValues,',
+        `  frame: Math.floor(time * ${fps}),`,
+        ...(random ? [`  random: createRandom(${seed}, Math.floor(time * ${fps})),`] : []),
+        '}));'
+      );
+    }
+    body.push(setup || update ? 'animationRender(renderContext, animationState);' : 'animationRender(renderContext);');
+  }
+
+  const lines = [...header, ''];
+  if (hoist) {
+    if (helpers) lines.push('// Data, helpers and state shared between frames', helpers, '');
+    if (setup || update) {
+      lines.push('let setupDone = false;', 'let animationState;', ...(update ? ['let simulation;'] : []), '');
+    }
+  }
+  lines.push('function render(ctx, { width, height, progress }) {', indent(body.join('\n')), '}');
+
+  return lines.join('\n') + '\n';
+}
@@ -2,10 +2,16 @@
  * Core types for the canvas animation runtime
  */
 
-import type { AudioData } from './audio';
+import type { AudioAnalysisConfig, AudioData } from './audio';
+import type { InputState } from './input';
+import type { KeyframeTracks } from './keyframes';
+import type { LayoutMode, OutputFormat } from './layout';
+import { resolveKeyframes } from './keyframes';
+import { createRandom, DEFAULT_SEED, type Random } from './random';
+import { createSimulation, type Simulation } from './simulation';
 
-// Re-export AudioData for convenience
-export type { AudioData };
+// Re-export AudioData and Random for convenience
+export type { AudioData, Random };
 
 /** Context passed to each render frame */
 export interface RenderContext<P = Record<string, unknown>> {
@@ -27,8 +33,12 @@ export interface RenderContext<P = Record<string, unknown>> {
   params: P;
   /** Frame number (0-indexed) */
   frame: number;
+  /** Seeded random numbers and noise, reseeded every frame (use instead of Math.random) */
+  random: Random;
   /** Audio analysis data (present when audio is loaded, or synthetic in demo mode) */
   audio?: AudioData;
+  /** Pointer and keyboard input (interactive animations in the live player only) */
+  input?: InputState;
 }
 
 /** Simple render function format - progress-based (0 to 1) */
@@ -59,8 +69,11 @@ export interface SimpleAnimationDefinition {
   render: SimpleRenderFunction;
 }
 
-/** Animation definition that every animation must export */
-export interface AnimationDefinition<P = Record<string, unknown>> {
+/**
+ * Animation definition that every animation must export.
+ * `S` is the state returned by setup() for stateful animations.
+ */
+export interface AnimationDefinition<P = Record<string, unknown>, S = void> {
   /** Unique identifier for the animation */
   id: string;
   /** Display name */
@@ -75,6 +88,10 @@ export interface AnimationDefinition<P = Record<string, unknown>> {
   width?: number;
   /** Canvas height (default: 600) */
   height?: number;
+  /** How the animation adapts to output formats (default: 'fixed') */
+  layout?: LayoutMode;
+  /** Aspect ratios to offer in the player and exports; ignored by fixed layouts */
+  formats?: OutputFormat[];
   /** Parameter configuration */
   params: {
     /** Default parameter values */
@@ -82,10 +99,35 @@ export interface AnimationDefinition<P = Record<string, unknown>> {
     /** Schema for generating UI controls */
     schema: ParamSchema;
   };
-  /** Called once when animation starts */
-  setup?: (ctx: RenderContext<P>) => void;
-  /** Called every frame to render the animation */
-  render: (ctx: RenderContext<P>) => void;
+  /** Keyframed params, resolved each frame before render */
+  keyframes?: KeyframeTracks;
+  /** Audio analysis settings for audio-reactive animations */
+  audio?: AudioAnalysisConfig;
+  /**
+   * Receive pointer and keyboard input as `context.input` in the player.
+   * Exports have no input, so render should fall back to a scripted path.
+   */
+  interactive?: boolean;
+  /**
+   * Seed for `context.random` (default: 1). Setting it shows a Seed
+   * control with a re-roll button in the player.
+   */
+  seed?: number;
+  /** Called once when animation starts; may return the initial simulation state */
+  setup?: (ctx: RenderContext<P>) => S;
+  /**
+   * Advance the state by one fixed step of `dt` seconds, in place or by
+   * returning a new state. The runtime re-simulates from snapshots when
+   * seeking, so the state at a time is always the same.
+   */
+  update?(state: S, dt: number, ctx: RenderContext<P>): S | void;
+  /** update() calls per second of animation time (default: fps) */
+  updateRate?: number;
+  /**
+   * Called every frame to render the animation; treat `state` as read-only.
+   * (Method syntax keeps stateful definitions assignable to AnyAnimationDefinition.)
+   */
+  render(ctx: RenderContext<P>, state: S): void;
 }
 
 /** 
@@ -96,7 +138,7 @@ export type ParamSchema = Record<string, unknown>;
 
 /** Union type supporting both animation formats */
 export type AnyAnimationDefinition<P = any> = 
-  | AnimationDefinition<P> 
+  | AnimationDefinition<P, unknown> 
   | SimpleAnimationDefinition;
 
 /** Type guard to check if animation is simple format (uses SimpleRenderFunction signature) */
@@ -139,13 +181,21 @@ export interface AnimationMeta {
 
 /**
  * Convert a full AnimationDefinition to a SimpleAnimationDefinition
- * by baking in current parameter values
+ * by baking in current parameter values. setup() runs before the first frame.
  */
-export function toSimpleAnimation<P = Record<string, unknown>>(
-  animation: AnimationDefinition<P>,
+export function toSimpleAnimation<P = Record<string, unknown>, S = void>(
+  animation: AnimationDefinition<P, S>,
   currentParams?: Partial<P>
 ): SimpleAnimationDefinition {
   const params = { ...animation.params.defaults, ...currentParams };
+  const fps = animation.fps ?? 60;
+  const seed = animation.seed ?? DEFAULT_SEED;
+  const durationSec = animation.durationMs 
+    ? animation.durationMs / 1000 
+    : 1;
+  let setupDone = false;
+  let state: S;
+  let simulation: Simulation<S, RenderContext<P>> | null = null;
   
   return {
     name: animation.name,
@@ -155,26 +205,36 @@ export function toSimpleAnimation<P = Record<string, unknown>>(
     height: animation.height,
     background: animation.background,
     render: (ctx, { width, height, progress }) => {
-      // Convert progress (0-1) to time in seconds
-      const durationSec = animation.durationMs 
-        ? animation.durationMs / 1000 
-        : 1;
-      const time = progress * durationSec;
-      
       // Create a render context with the baked params
-      const renderContext: RenderContext<P> = {
-        ctx,
-        time,
-        progress,
-        deltaTime: 0,
-        width,
-        height,
-        dpr: 1,
-        params: params as P,
-        frame: Math.floor(time * (animation.fps ?? 60)),
+      const contextAt = (time: number, stepProgress = time / durationSec): RenderContext<P> => {
+        const frame = Math.floor(time * fps);
+        return {
+          ctx,
+          time,
+          progress: stepProgress,
+          deltaTime: 0,
+          width,
+          height,
+          dpr: 1,
+          params: resolveKeyframes(params as P, animation.keyframes, stepProgress),
+          frame,
+          random: createRandom(seed, frame),
+        };
       };
+      // Convert progress (0-1) to time in seconds
+      const renderContext = contextAt(progress * durationSec, progress);
       
-      animation.render(renderContext);
+      if (!setupDone) {
+        setupDone = true;
+        state = animation.setup?.(renderContext) as S;
+        if (animation.update) {
+          simulation = createSimulation(state, animation.update, animation.updateRate ?? fps);
+        }
+      }
+      if (simulation) {
+        state = simulation.stateAt(renderContext.time, (time) => contextAt(time));
+      }
+      animation.render(renderContext, state);
     },
   };
 }
@@ -193,219 +253,3 @@ export function generateSimpleAnimationCode(animation: SimpleAnimationDefinition
 
 ${renderString}`;
 }
-
-/**
- * Generate code in the external canvas animation code editor format
- * Returns a render function: function render(ctx, { width, height, progress }) { ... }
- */
-export function generateExternalEditorCode<P = Record<string, unknown>>(
-  animation: AnimationDefinition<P>,
-  currentParams?: Partial<P>,
-  _sourceCode?: string
-): string {
-  // Use the current params directly (they should already have all values from the UI)
-  const params = { ...animation.params.defaults, ...currentParams };
-  
-  // Generate param declarations (indented for inside function)
-  const paramLines: string[] = [];
-  for (const [key, value] of Object.entries(params)) {
-    if (typeof value === 'string') {
-      // Escape single quotes in string values
-      const escaped = String(value).replace(/'/g, "\\'");
-      paramLines.push(`  const ${key} = '${escaped}';`);
-    } else if (typeof value === 'number' || typeof value === 'boolean') {
-      paramLines.push(`  const ${key} = ${value};`);
-    } else if (Array.isArray(value)) {
-      paramLines.push(`  const ${key} = ${JSON.stringify(value)};`);
-    } else if (typeof value === 'object' && value !== null) {
-      paramLines.push(`  const ${key} = ${JSON.stringify(value)};`);
-    }
-  }
-  
-  // Extract external dependencies from source code
-  let externalDeps = '';
-  if (_sourceCode) {
-    const declarations: string[] = [];
-    const lines = _sourceCode.split('\n');
-    
-    let currentDecl = '';
-    let depth = 0;
-    let inDeclaration = false;
-    let inAnimationDef = false;
-    let declarationType = ''; // 'const' or 'function'
-    
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      const trimmed = line.trim();
-      
-      // Track if we're inside the animation definition
-      if (trimmed.match(/^const\s+animation\s*[=:]/)) {
-        inAnimationDef = true;
-        depth = 0;
-      }
-      
-      if (inAnimationDef) {
-        for (const c of line) {
-          if (c === '{') depth++;
-          if (c === '}') depth--;
-        }
-        if (depth === 0 && trimmed.endsWith('};')) {
-          inAnimationDef = false;
-        }
-        continue;
-      }
-      
-      // Skip lines we don't care about when not in a declaration
-      if (!inDeclaration) {
-        if (trimmed.startsWith('import ') ||
-            trimmed.startsWith('export ') ||
-            trimmed.startsWith('//') ||
-            trimmed.startsWith('/*') ||
-            trimmed.startsWith('*') ||
-            trimmed.startsWith('interface ') ||
-            trimmed.startsWith('type ') ||
-            trimmed === '') {
-          continue;
-        }
-        
-        // Start of a top-level const declaration
-        if (trimmed.startsWith('const ') && !trimmed.includes('animation')) {
-          inDeclaration = true;
-          declarationType = 'const';
-          currentDecl = line;
-          depth = 0;
-          for (const c of line) {
-            if (c === '{' || c === '[' || c === '(') depth++;
-            if (c === '}' || c === ']' || c === ')') depth--;
-          }
-          // Arrow function without braces ends with ; on same line or next non-empty line
-          if (depth === 0 && trimmed.endsWith(';')) {
-            declarations.push(currentDecl);
-            currentDecl = '';
-            inDeclaration = false;
-          }
-          continue;
-        }
-        
-        // Start of a function declaration
-        if (trimmed.startsWith('function ')) {
-          inDeclaration = true;
-          declarationType = 'function';
-          currentDecl = line;
-          depth = 0;
-          for (const c of line) {
-            if (c === '{') depth++;
-            if (c === '}') depth--;
-          }
-          if (depth === 0 && trimmed.endsWith('}')) {
-            declarations.push(currentDecl);
-            currentDecl = '';
-            inDeclaration = false;
-          }
-          continue;
-        }
-      }
-      
-      // Continue collecting multi-line declaration
-      if (inDeclaration) {
-        currentDecl += '\n' + line;
-        for (const c of line) {
-          if (c === '{' || c === '[' || c === '(') depth++;
-          if (c === '}' || c === ']' || c === ')') depth--;
-        }
-        
-        // Check end conditions based on declaration type
-        if (declarationType === 'const') {
-          // const ends with ; when depth is 0, or just check for semicolon at end
-          if (depth <= 0 && trimmed.endsWith(';')) {
-            declarations.push(currentDecl);
-            currentDecl = '';
-            inDeclaration = false;
-          }
-        } else if (declarationType === 'function') {
-          // function ends with } when depth is 0
-          if (depth === 0 && trimmed.endsWith('}')) {
-            declarations.push(currentDecl);
-            currentDecl = '';
-            inDeclaration = false;
-          }
-        }
-      }
-    }
-    
-    // Clean up TypeScript annotations
-    if (declarations.length > 0) {
-      externalDeps = declarations
-        .map(decl => {
-          return decl
-            // Remove type parameter from function: function name(x: Type): RetType { -> function name(x) {
-            .replace(/function\s+(\w+)\s*\(([^)]*)\)\s*:\s*\w+\s*\{/g, (_, name, params) => {
-              const cleanParams = params.replace(/:\s*\w+(\[\])?/g, '');
-              return `function ${name}(${cleanParams}) {`;
-            })
-            // Remove type from function params without return type
-            .replace(/function\s+(\w+)\s*\(([^)]*)\)\s*\{/g, (_, name, params) => {
-              const cleanParams = params.replace(/:\s*\w+(\[\])?/g, '');
-              return `function ${name}(${cleanParams}) {`;
-            })
-            // Remove return type annotations from arrow functions: ): number => -> ) =>
-            .replace(/\)\s*:\s*\w+\s*=>/g, ') =>')
-            // Remove param type annotations in arrow functions: (t: number) -> (t)
-            .replace(/\(([^)]*)\)/g, (_, params) => {
-              const cleanParams = params.replace(/:\s*\w+(\[\])?/g, '');
-              return `(${cleanParams})`;
-            })
-            // Remove const type annotations: const x: Type = -> const x =  
-            .replace(/const\s+(\w+)\s*:\s*[^=]+=\s*/g, 'const $1 = ');
-        })
-        .join('\n\n');
-    }
-  }
-  
-  // Extract the render function body
-  const renderFn = animation.render;
-  let renderBody = renderFn.toString();
-  
-  // Try to extract just the function body
-  const bodyMatch = renderBody.match(/\)\s*(?:=>)?\s*\{([\s\S]*)\}$/);
-  if (bodyMatch) {
-    renderBody = bodyMatch[1];
-    
-    // Remove the params destructuring - handles both single and multi-line
-    renderBody = renderBody.replace(/^\s*const\s*\{[\s\S]+?\}\s*=\s*params\s*;?\s*/m, '');
-    
-    // Clean up leading/trailing whitespace while preserving internal formatting
-    renderBody = renderBody.trim();
-  }
-  
-  // Indent the body properly
-  const indentedBody = renderBody
-    .split('\n')
-    .map(line => '  ' + line)
-    .join('\n');
-  
-  // Indent external dependencies
-  const indentedDeps = externalDeps
-    ? externalDeps.split('\n').map(line => '  ' + line).join('\n')
-    : '';
-  
-  // Build the render function
-  const lines = [
-    'function render(ctx, { width, height, progress }) {',
-    '  // Parameters',
-    ...paramLines,
-  ];
-  
-  // Add external dependencies if any
-  if (indentedDeps) {
-    lines.push('');
-    lines.push('  // Data and helpers');
-    lines.push(indentedDeps);
-  }
-  
-  lines.push('');
-  lines.push(indentedBody);
-  lines.push('}');
-  
-  return lines.join('\n');
-}
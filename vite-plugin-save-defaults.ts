@@ -1,8 +1,18 @@
 import type { Plugin } from 'vite';
 import * as fs from 'fs';
 import * as path from 'path';
+import * as crypto from 'crypto';
+import type { Duplex } from 'stream';
 import OpenAI from 'openai';
 import { loadEnv } from 'vite';
+import { formatKey, formatLiteral, quote, updateSchemaValues } from './scripts/lib/schema-values';
+import {
+  checkImportedAnimation,
+  generateImportedAnimation,
+  importedParamsType,
+  parseSimpleFormatCode,
+  type ParsedSimpleFormat,
+} from './scripts/lib/simple-format-import';
 
 /**
  * Generate animation index.ts template
@@ -47,21 +57,27 @@ function generateAnimationTemplate(config: {
 `;
 
   return `import type { AnimationDefinition } from '../../runtime/types';
-import { number, color, folder } from '../../runtime/params';
+import { number, color, folder, defineParams } from '../../runtime/params';
 
 /**
  * ${name}
  * Created via Animation Creator
  */
 
-interface ${name.replace(/[^a-zA-Z0-9]/g, '')}Params {
-  scale: number;
-  primaryColor: string;
-  backgroundColor: string;
-  speed: number;
-}
-
-const animation: AnimationDefinition<${name.replace(/[^a-zA-Z0-9]/g, '')}Params> = {
+const params = defineParams({
+  ...folder('Layout', {
+    scale: number({ value: 1, min: 0.1, max: 3, step: 0.1, label: 'Scale' }),
+  }),
+  ...folder('Colors', {
+    primaryColor: color({ value: '#000000', label: 'Primary Color' }),
+    backgroundColor: color({ value: '${background}', label: 'Background' }),
+  }),
+  ...folder('Animation', {
+    speed: number({ value: 1, min: 0.1, max: 3, step: 0.1, label: 'Speed' }),
+  }),
+});
+
+const animation: AnimationDefinition<typeof params.defaults> = {
   id: '${id}',
   name: '${name}',
   fps: ${fps},
@@ -70,26 +86,7 @@ const animation: AnimationDefinition<${name.replace(/[^a-zA-Z0-9]/g, '')}Params>
   height: ${height},
   background: '${background}',
 ${imageAsset}
-  params: {
-    defaults: {
-      scale: 1,
-      primaryColor: '#000000',
-      backgroundColor: '${background}',
-      speed: 1,
-    },
-    schema: {
-      ...folder('Layout', {
-        scale: number({ value: 1, min: 0.1, max: 3, step: 0.1, label: 'Scale' }),
-      }),
-      ...folder('Colors', {
-        primaryColor: color({ value: '#000000', label: 'Primary Color' }),
-        backgroundColor: color({ value: '${background}', label: 'Background' }),
-      }),
-      ...folder('Animation', {
-        speed: number({ value: 1, min: 0.1, max: 3, step: 0.1, label: 'Speed' }),
-      }),
-    },
-  },
+  params,
 
   render({ ctx, width, height, progress, params${hasImage ? ', assets' : ''} }) {
     const { scale, primaryColor, backgroundColor, speed } = params;
@@ -115,6 +112,14 @@ export default animation;
 `;
 }
 
+/** Where an animation came from, in the AnimationMeta shape (src/runtime/types.ts) */
+interface MetaSource {
+  type: 'figma' | 'screenshot' | 'none';
+  figmaUrl?: string;
+  filePath?: string;
+  notes?: string;
+}
+
 /**
  * Generate meta.json content
  */
@@ -123,17 +128,95 @@ function generateMetaJson(config: {
   name: string;
   prompt?: string;
   tags?: string[];
+  source?: MetaSource;
 }): string {
+  const now = new Date().toISOString();
   return JSON.stringify({
     id: config.id,
     name: config.name,
-    createdAt: new Date().toISOString().split('T')[0],
-    source: 'animation-creator',
-    prompt: config.prompt || 'Created via Animation Creator',
+    createdAt: now.split('T')[0],
+    updatedAt: now,
+    source: config.source ?? { type: 'none', notes: 'animation-creator' },
+    prompt: config.prompt ?? 'Created via Animation Creator',
     tags: config.tags || ['custom'],
   }, null, 2);
 }
 
+/** Range of an object property `name: { ... },` in source, including its line break */
+function findObjectProperty(content: string, name: string): { start: number; open: number; end: number } | null {
+  const match = new RegExp(`^[ \\t]*${name}:\\s*\\{`, 'm').exec(content);
+  if (!match) return null;
+  const open = match.index + match[0].length - 1;
+  let depth = 0;
+  for (let i = open; i < content.length; i++) {
+    if (content[i] === '{') depth++;
+    else if (content[i] === '}' && --depth === 0) {
+      let end = i + 1;
+      if (content[end] === ',') end++;
+      if (content[end] === '\n') end++;
+      return { start: match.index, open, end };
+    }
+  }
+  return null;
+}
+
+/**
+ * Range of an animation's `params` property in source, including its line
+ * break: an object literal, a defineParams() call or the shorthand `params,`
+ */
+function findParamsProperty(content: string): { start: number; end: number } | null {
+  const match = /^[ \t]*params(?:,|:\s*(?:defineParams\(\s*)?\{)/m.exec(content);
+  if (!match) return null;
+  let depth = 0;
+  for (let i = match.index; i < content.length; i++) {
+    const char = content[i];
+    if (char === '{' || char === '(') depth++;
+    else if ((char === '}' || char === ')') && --depth < 0) return null;
+    else if (char === ',' && depth === 0) {
+      const end = content[i + 1] === '\n' ? i + 2 : i + 1;
+      return { start: match.index, end };
+    }
+  }
+  return null;
+}
+
+/**
+ * Write the `keyframes` property of an animation file, after `params`.
+ * Tracks without keys are dropped; no tracks removes the property.
+ */
+function updateKeyframesBlock(content: string, keyframes: Record<string, { at: number; value: unknown; easing?: string }[]>): string {
+  const existing = findObjectProperty(content, 'keyframes');
+  if (existing) content = content.slice(0, existing.start) + content.slice(existing.end);
+
+  const tracks = Object.entries(keyframes).filter(([, track]) => track.length > 0);
+  if (tracks.length === 0) return content;
+
+  const params = findParamsProperty(content);
+  if (!params) throw new Error('Could not find the params block to add keyframes after');
+
+  const indent = content.slice(params.start).match(/^[ \t]*/)![0];
+  const lines = tracks.map(([key, track]) => {
+    const keys = track.map((k) => {
+      const easing = k.easing ? `, easing: ${quote(k.easing)}` : '';
+      return `${indent}    { at: ${Math.round(k.at * 1e4) / 1e4}, value: ${formatLiteral(k.value)}${easing} },`;
+    });
+    return `${indent}  ${formatKey(key)}: [\n${keys.join('\n')}\n${indent}  ],`;
+  });
+  const block = `${indent}keyframes: {\n${lines.join('\n')}\n${indent}},\n`;
+  return content.slice(0, params.end) + block + content.slice(params.end);
+}
+
+/** Write the `seed` property of an animation file, before `params` if it isn't there yet */
+function updateSeedProperty(content: string, seed: number): string {
+  const existing = /^([ \t]*)seed:\s*-?\d+,/m;
+  if (existing.test(content)) return content.replace(existing, `$1seed: ${seed},`);
+
+  const params = findParamsProperty(content);
+  if (!params) throw new Error('Could not find the params block to add the seed before');
+  const indent = content.slice(params.start).match(/^[ \t]*/)![0];
+  return content.slice(0, params.start) + `${indent}seed: ${seed},\n\n` + content.slice(params.start);
+}
+
 /**
  * System prompt for AI animation generation — crafted for top-quality output
  */
@@ -147,11 +230,9 @@ Generate a complete TypeScript animation file for a canvas animation lab. The an
 \`\`\`typescript
 import type { AnimationDefinition } from '../../runtime/types';
 import { number, color, boolean, folder, select } from '../../runtime/params';
+import { easeOutCubic, easeInOutCubic, tween, stagger } from '../../runtime/easing';
 
-// Define easing functions, helper utilities, and data OUTSIDE render
-const easeOutCubic = (t: number): number => 1 - Math.pow(1 - t, 3);
-const easeInOutCubic = (t: number): number =>
-  t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+// Define helper utilities and data OUTSIDE render
 
 interface <PascalCaseName>Params {
   scale: number;
@@ -232,21 +313,17 @@ export default animation;
 - Use the scale param to let users adjust density.
 - Consider the aspect ratio when positioning elements.
 
-# EASING LIBRARY — use these (define outside render)
+# EASING LIBRARY — import from '../../runtime/easing' (don't redefine these)
 
-\`\`\`typescript
-const easeInQuad = (t: number) => t * t;
-const easeOutQuad = (t: number) => t * (2 - t);
-const easeInOutQuad = (t: number) => t < 0.5 ? 2 * t * t : -1 + (4 - 2 * t) * t;
-const easeInCubic = (t: number) => t * t * t;
-const easeOutCubic = (t: number) => 1 - Math.pow(1 - t, 3);
-const easeInOutCubic = (t: number) => t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
-const easeOutQuart = (t: number) => 1 - Math.pow(1 - t, 4);
-const easeInOutQuart = (t: number) => t < 0.5 ? 8 * t * t * t * t : 1 - Math.pow(-2 * t + 2, 4) / 2;
-const easeOutBack = (t: number) => { const c = 1.70158; return 1 + (c + 1) * Math.pow(t - 1, 3) + c * Math.pow(t - 1, 2); };
-const easeOutElastic = (t: number) => t === 0 ? 0 : t === 1 ? 1 : Math.pow(2, -10 * t) * Math.sin((t * 10 - 0.75) * ((2 * Math.PI) / 3)) + 1;
-const easeInOutSine = (t: number) => -(Math.cos(Math.PI * t) - 1) / 2;
-\`\`\`
+- Penner easings: \`easeIn*\`, \`easeOut*\`, \`easeInOut*\` for Quad, Cubic, Quart, Quint, Sine, Expo, Circ, Back, Elastic, Bounce, plus \`linear\`
+- \`cubicBezier(x1, y1, x2, y2)\` — CSS-style curve, e.g. \`const swift = cubicBezier(0.4, 0, 0.2, 1);\` (create outside render)
+- \`spring({ stiffness, damping, mass, velocity })\` — damped spring that settles at t = 1
+- \`steps(count, 'start' | 'end' | 'both' | 'none')\` — stepped/ticking motion
+- \`tween(progress, start, end, ease)\` — eased 0→1 for the window [start, end] of progress
+- \`stagger(index, count, overlap)\` — [start, end] window for item i of N; spread into tween
+- \`clamp01\`, \`clamp\`, \`lerp\`
+
+Import only the helpers you use.
 
 # USEFUL CANVAS TECHNIQUES
 
@@ -265,9 +342,11 @@ grad.addColorStop(1, 'rgba(255,255,255,0)');
 const wave = Math.sin(progress * Math.PI * 2); // -1 to 1, loops perfectly
 const pulse = 0.5 + 0.5 * Math.sin(progress * Math.PI * 2); // 0 to 1
 
-// Staggered timing for element i of N
-const stagger = Math.max(0, Math.min(1, (progress - i * delay) / duration));
-const easedStagger = easeOutCubic(stagger);
+// Staggered timing for element i of N (overlap 0-1)
+const t = tween(progress, ...stagger(i, count, 0.6), easeOutCubic);
+
+// A move in the middle of the loop
+const move = tween(progress, 0.2, 0.5, easeInOutCubic);
 
 // Polar coordinates for radial layouts
 const angle = (i / count) * Math.PI * 2 + progress * Math.PI * 2;
@@ -294,7 +373,7 @@ const y = Math.sin(angle) * radius;
 
 # CRITICAL RULES
 
-1. Define easing functions and data arrays OUTSIDE the render function.
+1. Import easings and tween/stagger from '../../runtime/easing'; define data arrays and other helpers OUTSIDE the render function.
 2. Always call ctx.beginPath() before drawing any new path.
 3. Always use ctx.save() / ctx.restore() around transform blocks.
 4. Use progress (0→1) for timing, not time directly (unless you need continuous non-looping time).
@@ -338,9 +417,171 @@ Respond with ONLY a raw JSON object. No markdown fences, no explanation before o
 
 The "code" value must be the ENTIRE TypeScript file content as a single JSON string (use \\n for newlines). It must compile without errors and produce a beautiful animation on first run.`;
 
+/**
+ * Find an animation folder by folder name or by the `id` in its index.ts
+ */
+function findAnimationDir(id: string): string | null {
+  const animationsDir = path.join(process.cwd(), 'src', 'animations');
+  const direct = path.join(animationsDir, id);
+  if (/^[\w-]+$/.test(id) && fs.existsSync(path.join(direct, 'index.ts'))) return direct;
+
+  for (const entry of fs.readdirSync(animationsDir, { withFileTypes: true })) {
+    if (!entry.isDirectory()) continue;
+    const indexPath = path.join(animationsDir, entry.name, 'index.ts');
+    if (!fs.existsSync(indexPath)) continue;
+    const source = fs.readFileSync(indexPath, 'utf-8');
+    if (source.includes(`id: '${id}'`) || source.includes(`id: "${id}"`)) {
+      return path.join(animationsDir, entry.name);
+    }
+  }
+  return null;
+}
+
+/**
+ * Folders of the animations a composition or sequence uses by id,
+ * following nested compositions and sequences
+ */
+function findLayerDirs(animationDir: string, found = new Map<string, string>()): Map<string, string> {
+  const source = fs.readFileSync(path.join(animationDir, 'index.ts'), 'utf-8');
+  for (const match of source.matchAll(/\banimation:\s*['"]([\w-]+)['"]/g)) {
+    const id = match[1];
+    if (found.has(id)) continue;
+    const dir = findAnimationDir(id);
+    if (!dir) continue;
+    found.set(id, dir);
+    findLayerDirs(dir, found);
+  }
+  return found;
+}
+
+/**
+ * Bundle an animation and the <motion-canvas-animation> element into a
+ * single self-contained IIFE script
+ */
+async function bundleAnimationElement(animationDir: string, tagName: string): Promise<string> {
+  const { build } = await import('esbuild');
+  const elementPath = path.join(process.cwd(), 'src', 'runtime', 'element.ts');
+
+  // Compositions and sequences reference animations by id, so bundle those too
+  const layers = [...findLayerDirs(animationDir)];
+  const layerImports = layers
+    .map(([, dir], i) => `import * as layer${i} from ${JSON.stringify(path.join(dir, 'index.ts'))};`)
+    .join('\n');
+  const layerEntries = layers.map(([id], i) => `${JSON.stringify(id)}: layer${i}`).join(', ');
+
+  // Animations may use a default export or a named export (simple format)
+  const entry = `
+import * as mod from ${JSON.stringify(path.join(animationDir, 'index.ts'))};
+import { defineAnimationElement } from ${JSON.stringify(elementPath)};
+${layerImports}
+
+const pick = (module) => module.default ?? Object.values(module).find(
+  (value) => value && typeof value === 'object' && ('render' in value || 'layers' in value || 'clips' in value)
+);
+const layers = { ${layerEntries} };
+defineAnimationElement(pick(mod), ${JSON.stringify(tagName)}, (id) => layers[id] && pick(layers[id]));
+`;
+
+  const result = await build({
+    stdin: { contents: entry, resolveDir: animationDir, loader: 'ts' },
+    bundle: true,
+    write: false,
+    format: 'iife',
+    target: 'es2020',
+    minify: true,
+    legalComments: 'none',
+    alias: { '@': path.join(process.cwd(), 'src') },
+    // Inline imported assets so the script has no other files to host
+    loader: {
+      '.png': 'dataurl',
+      '.jpg': 'dataurl',
+      '.jpeg': 'dataurl',
+      '.gif': 'dataurl',
+      '.webp': 'dataurl',
+      '.svg': 'dataurl',
+    },
+  });
+
+  const name = path.basename(animationDir);
+  const banner = `/* ${name} — <${tagName}> web component. Usage: <script src="${name}.js"></script><${tagName}></${tagName}> */\n`;
+  return banner + result.outputFiles[0].text;
+}
+
 /**
  * Vite plugin that adds dev-only API endpoints for animation management
  */
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+/** Encode an unmasked WebSocket frame, as servers send them */
+function encodeWebSocketFrame(payload: Buffer, opcode = 0x1): Buffer {
+  const length = payload.length;
+  const header = Buffer.alloc(length < 126 ? 2 : length < 65536 ? 4 : 10);
+  header[0] = 0x80 | opcode;
+  if (length < 126) {
+    header[1] = length;
+  } else if (length < 65536) {
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+/**
+ * Read the complete WebSocket frames in a buffer, unmasking client
+ * payloads, and return the bytes of a trailing partial frame. Control
+ * messages are small, so fragmented messages aren't reassembled.
+ */
+function decodeWebSocketFrames(buffer: Buffer, onFrame: (opcode: number, payload: Buffer) => void): Buffer {
+  let offset = 0;
+  while (buffer.length - offset >= 2) {
+    const opcode = buffer[offset] & 0x0f;
+    const masked = (buffer[offset + 1] & 0x80) !== 0;
+    let length = buffer[offset + 1] & 0x7f;
+    let cursor = offset + 2;
+    if (length === 126) {
+      if (buffer.length < cursor + 2) break;
+      length = buffer.readUInt16BE(cursor);
+      cursor += 2;
+    } else if (length === 127) {
+      if (buffer.length < cursor + 8) break;
+      length = Number(buffer.readBigUInt64BE(cursor));
+      cursor += 8;
+    }
+    if (buffer.length < cursor + (masked ? 4 : 0) + length) break;
+
+    const mask = masked ? buffer.subarray(cursor, cursor + 4) : null;
+    if (mask) cursor += 4;
+    const payload = Buffer.from(buffer.subarray(cursor, cursor + length));
+    if (mask) {
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    }
+    onFrame(opcode, payload);
+    offset = cursor + length;
+  }
+  return buffer.subarray(offset);
+}
+
+/** The parts of src/runtime/transpile.ts the Simple Format endpoint calls */
+interface SimpleFormatModule {
+  generateExternalEditorCode(
+    animation: Record<string, unknown>,
+    params: Record<string, unknown>,
+    source: string,
+    options: { resolveImport?: (specifier: string) => string | undefined }
+  ): Promise<string>;
+}
+
+/** Source of a runtime module imported by an animation, e.g. '../../runtime/params' */
+function resolveRuntimeSource(specifier: string): string | undefined {
+  const match = specifier.match(/(?:^|\/)runtime\/([\w-]+?)(?:\.ts)?$/);
+  if (!match) return undefined;
+  const file = path.join(process.cwd(), 'src', 'runtime', `${match[1]}.ts`);
+  return fs.existsSync(file) ? fs.readFileSync(file, 'utf-8') : undefined;
+}
+
 export function saveDefaultsPlugin(): Plugin {
   return {
     name: 'save-defaults',
@@ -349,6 +590,47 @@ export function saveDefaultsPlugin(): Plugin {
       const env = loadEnv('development', process.cwd(), '');
       Object.assign(process.env, env);
 
+      // Control bridge: relays OSC-style JSON control messages between
+      // WebSocket clients, e.g. from scripts/send-controls.ts to the Player.
+      // Vite only handles its own HMR upgrades, so other paths reach us.
+      const controlClients = new Set<Duplex>();
+      server.httpServer?.on('upgrade', (req, socket: Duplex) => {
+        if (req.url?.split('?')[0] !== '/api/controls') return;
+        const key = req.headers['sec-websocket-key'];
+        if (typeof key !== 'string') {
+          socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+          return;
+        }
+
+        const accept = crypto.createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+        socket.write([
+          'HTTP/1.1 101 Switching Protocols',
+          'Upgrade: websocket',
+          'Connection: Upgrade',
+          `Sec-WebSocket-Accept: ${accept}`,
+        ].join('\r\n') + '\r\n\r\n');
+        controlClients.add(socket);
+
+        let pending: Buffer = Buffer.alloc(0);
+        socket.on('data', (chunk: Buffer) => {
+          pending = decodeWebSocketFrames(Buffer.concat([pending, chunk]), (opcode, payload) => {
+            if (opcode === 0x1) {
+              const frame = encodeWebSocketFrame(payload);
+              for (const client of controlClients) {
+                if (client !== socket && client.writable) client.write(frame);
+              }
+            } else if (opcode === 0x8) {
+              socket.end(encodeWebSocketFrame(payload.subarray(0, 2), 0x8));
+            } else if (opcode === 0x9) {
+              socket.write(encodeWebSocketFrame(payload, 0xa));
+            }
+          });
+        });
+        const remove = () => controlClients.delete(socket);
+        socket.on('close', remove);
+        socket.on('error', remove);
+      });
+
       // API: List all animations (id, name, source code)
       server.middlewares.use('/api/animations-list', async (req, res) => {
         if (req.method !== 'GET') {
@@ -462,6 +744,97 @@ export function saveDefaultsPlugin(): Plugin {
         });
       });
 
+      // API: Import Simple Format code as a new animation
+      server.middlewares.use('/api/import-animation', async (req, res) => {
+        if (req.method !== 'POST') {
+          res.statusCode = 405;
+          res.end('Method not allowed');
+          return;
+        }
+
+        let body = '';
+        req.on('data', (chunk) => {
+          body += chunk.toString();
+        });
+
+        req.on('end', async () => {
+          res.setHeader('Content-Type', 'application/json');
+          try {
+            const { code, id: requestedId, name: requestedName, tags } = JSON.parse(body);
+
+            if (typeof code !== 'string' || !code.trim()) {
+              res.statusCode = 400;
+              res.end(JSON.stringify({ error: 'Missing code' }));
+              return;
+            }
+
+            let parsed: ParsedSimpleFormat;
+            try {
+              parsed = await parseSimpleFormatCode(code);
+            } catch (error) {
+              res.statusCode = 400;
+              res.end(JSON.stringify({
+                error: error instanceof Error ? error.message : 'Could not parse code',
+              }));
+              return;
+            }
+
+            const name = requestedName || parsed.name || 'Imported Animation';
+            const id = requestedId || name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+            if (!/^[a-z0-9][a-z0-9-]*$/.test(id)) {
+              res.statusCode = 400;
+              res.end(JSON.stringify({ error: `Invalid id "${id}" (use lowercase letters, digits and dashes)` }));
+              return;
+            }
+
+            const animationDir = path.join(process.cwd(), 'src', 'animations', id);
+            if (fs.existsSync(animationDir)) {
+              res.statusCode = 400;
+              res.end(JSON.stringify({ error: `Animation "${id}" already exists` }));
+              return;
+            }
+
+            // Syntax errors and unknown names would break the app's build
+            const { content, errors } = await checkImportedAnimation(
+              id,
+              importedParamsType(name),
+              generateImportedAnimation({ id, name, parsed })
+            );
+            if (errors.length) {
+              res.statusCode = 400;
+              res.end(JSON.stringify({
+                error: `The imported code has errors:\n${errors.slice(0, 5).join('\n')}`,
+              }));
+              return;
+            }
+
+            fs.mkdirSync(animationDir, { recursive: true });
+            fs.writeFileSync(path.join(animationDir, 'index.ts'), content);
+            fs.writeFileSync(path.join(animationDir, 'meta.json'), generateMetaJson({
+              id,
+              name,
+              prompt: 'Imported from Simple Format code',
+              tags: tags || ['imported'],
+              source: { type: 'none', notes: 'Imported from Simple Format code' },
+            }));
+
+            res.statusCode = 200;
+            res.end(JSON.stringify({
+              success: true,
+              id,
+              path: `/a/${id}`,
+              params: parsed.params.map((p) => p.key),
+            }));
+          } catch (error) {
+            res.statusCode = 500;
+            res.end(JSON.stringify({
+              error: error instanceof Error ? error.message : 'Unknown error',
+            }));
+          }
+        });
+      });
+
       // API: Upload image
       server.middlewares.use('/api/upload-image', async (req, res) => {
         if (req.method !== 'POST') {
@@ -555,7 +928,7 @@ export function saveDefaultsPlugin(): Plugin {
 
         req.on('end', () => {
           try {
-            const { animationId, params } = JSON.parse(body);
+            const { animationId, params, keyframes, seed } = JSON.parse(body);
             
             if (!animationId || !params) {
               res.statusCode = 400;
@@ -596,8 +969,17 @@ export function saveDefaultsPlugin(): Plugin {
 
             const newDefaultsBlock = `defaults: {\n${defaultsLines.join(',\n')},\n    }`;
 
-            // Replace the defaults block
+            // Replace the defaults block, if the animation has one, and the schema values
             content = content.replace(defaultsRegex, newDefaultsBlock);
+            content = updateSchemaValues(content, params);
+
+            if (keyframes) {
+              content = updateKeyframesBlock(content, keyframes);
+            }
+
+            if (Number.isInteger(seed)) {
+              content = updateSeedProperty(content, seed);
+            }
 
             // Write back to file
             fs.writeFileSync(animationPath, content, 'utf-8');
@@ -693,6 +1075,98 @@ export function saveDefaultsPlugin(): Plugin {
         });
       });
 
+      // API: Bundle an animation as a standalone web component script
+      server.middlewares.use('/api/export-element', async (req, res) => {
+        if (req.method !== 'GET') {
+          res.statusCode = 405;
+          res.end('Method not allowed');
+          return;
+        }
+
+        try {
+          const url = new URL(req.url ?? '', 'http://localhost');
+          const id = url.searchParams.get('id');
+          const tagName = url.searchParams.get('tag') || 'motion-canvas-animation';
+
+          if (!id) {
+            res.statusCode = 400;
+            res.setHeader('Content-Type', 'application/json');
+            res.end(JSON.stringify({ error: 'Missing id' }));
+            return;
+          }
+
+          // Custom element names must be lowercase and contain a hyphen
+          if (!/^[a-z][a-z0-9]*-[a-z0-9-]*$/.test(tagName)) {
+            res.statusCode = 400;
+            res.setHeader('Content-Type', 'application/json');
+            res.end(JSON.stringify({ error: `Invalid custom element name "${tagName}"` }));
+            return;
+          }
+
+          const animationDir = findAnimationDir(id);
+          if (!animationDir) {
+            res.statusCode = 404;
+            res.setHeader('Content-Type', 'application/json');
+            res.end(JSON.stringify({ error: `Animation not found: ${id}` }));
+            return;
+          }
+
+          const script = await bundleAnimationElement(animationDir, tagName);
+          res.statusCode = 200;
+          res.setHeader('Content-Type', 'application/javascript');
+          res.end(script);
+        } catch (error) {
+          res.statusCode = 500;
+          res.setHeader('Content-Type', 'application/json');
+          res.end(JSON.stringify({
+            error: error instanceof Error ? error.message : 'Unknown error',
+          }));
+        }
+      });
+
+      // API: Simple Format export (the TypeScript compiler stays on the server)
+      server.middlewares.use('/api/simple-format', async (req, res) => {
+        if (req.method !== 'POST') {
+          res.statusCode = 405;
+          res.end('Method not allowed');
+          return;
+        }
+
+        let body = '';
+        req.on('data', (chunk) => {
+          body += chunk.toString();
+        });
+
+        req.on('end', async () => {
+          try {
+            const { animation, params, source } = JSON.parse(body);
+
+            if (!animation || typeof source !== 'string') {
+              res.statusCode = 400;
+              res.setHeader('Content-Type', 'application/json');
+              res.end(JSON.stringify({ error: 'Missing animation or source' }));
+              return;
+            }
+
+            // The definition arrives as JSON; the exporter reads only its data
+            // and takes the functions from the source
+            const { generateExternalEditorCode } = await server.ssrLoadModule('/src/runtime/transpile.ts') as SimpleFormatModule;
+            const code = await generateExternalEditorCode({ ...animation, render() {} }, params ?? {}, source, {
+              resolveImport: resolveRuntimeSource,
+            });
+            res.statusCode = 200;
+            res.setHeader('Content-Type', 'text/plain');
+            res.end(code);
+          } catch (error) {
+            res.statusCode = 500;
+            res.setHeader('Content-Type', 'application/json');
+            res.end(JSON.stringify({
+              error: error instanceof Error ? error.message : 'Unknown error',
+            }));
+          }
+        });
+      });
+
       // API: AI Chat - Generate animation from natural language
       server.middlewares.use('/api/chat-create-animation', async (req, res) => {
         if (req.method !== 'POST') {
@@ -811,15 +1285,13 @@ export function saveDefaultsPlugin(): Plugin {
             if (fs.existsSync(animationDir)) {
               // If it exists, overwrite it (for iteration/refinement)
               fs.writeFileSync(path.join(animationDir, 'index.ts'), code);
-              const metaContent = JSON.stringify({
+              const metaContent = generateMetaJson({
                 id: cleanId,
                 name,
-                createdAt: new Date().toISOString().split('T')[0],
-                updatedAt: new Date().toISOString(),
-                source: 'ai-chat',
                 prompt: messages[messages.length - 1]?.content || '',
                 tags: tags || ['ai-generated'],
-              }, null, 2);
+                source: { type: 'none', notes: 'ai-chat' },
+              });
               fs.writeFileSync(path.join(animationDir, 'meta.json'), metaContent);
 
               res.statusCode = 200;
@@ -840,14 +1312,13 @@ export function saveDefaultsPlugin(): Plugin {
             fs.mkdirSync(animationDir, { recursive: true });
             fs.writeFileSync(path.join(animationDir, 'index.ts'), code);
 
-            const metaContent = JSON.stringify({
+            const metaContent = generateMetaJson({
               id: cleanId,
               name,
-              createdAt: new Date().toISOString().split('T')[0],
-              source: 'ai-chat',
               prompt: messages[messages.length - 1]?.content || '',
               tags: tags || ['ai-generated'],
-            }, null, 2);
+              source: { type: 'none', notes: 'ai-chat' },
+            });
             fs.writeFileSync(path.join(animationDir, 'meta.json'), metaContent);
 
             res.statusCode = 200;